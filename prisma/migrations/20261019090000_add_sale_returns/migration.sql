@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "public"."SaleReturn" (
+    "id" SERIAL NOT NULL,
+    "saleId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "refund" DECIMAL(12,2) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SaleReturn_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."SaleReturnLine" (
+    "id" SERIAL NOT NULL,
+    "returnId" INTEGER NOT NULL,
+    "saleLineId" INTEGER NOT NULL,
+    "qty" INTEGER NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "shelfName" TEXT,
+    "shelfRefId" INTEGER,
+
+    CONSTRAINT "SaleReturnLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SaleReturn_saleId_idx" ON "public"."SaleReturn"("saleId");
+
+-- CreateIndex
+CREATE INDEX "SaleReturn_userId_idx" ON "public"."SaleReturn"("userId");
+
+-- CreateIndex
+CREATE INDEX "SaleReturn_createdAt_idx" ON "public"."SaleReturn"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SaleReturnLine_returnId_idx" ON "public"."SaleReturnLine"("returnId");
+
+-- CreateIndex
+CREATE INDEX "SaleReturnLine_saleLineId_idx" ON "public"."SaleReturnLine"("saleLineId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleReturn" ADD CONSTRAINT "SaleReturn_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "public"."Sale"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleReturn" ADD CONSTRAINT "SaleReturn_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleReturnLine" ADD CONSTRAINT "SaleReturnLine_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "public"."SaleReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleReturnLine" ADD CONSTRAINT "SaleReturnLine_saleLineId_fkey" FOREIGN KEY ("saleLineId") REFERENCES "public"."SaleLine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
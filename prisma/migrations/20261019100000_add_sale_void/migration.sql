@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3),
+ADD COLUMN     "voidedBy" TEXT;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."DiscountType" AS ENUM ('PERCENT', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "public"."PromotionScope" AS ENUM ('ALL', 'MEDICINE', 'MANUFACTURER', 'EXPIRING');
+
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "billDiscountRule" TEXT,
+ADD COLUMN     "discount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ADD COLUMN     "billDiscount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "discountRule" TEXT,
+ADD COLUMN     "promotionId" INTEGER;
+
+-- Backfill: sales recorded before discounts existed were sold at full price
+UPDATE "public"."Sale" SET "subtotal" = "total";
+
+-- CreateTable
+CREATE TABLE "public"."Promotion" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "scope" "public"."PromotionScope" NOT NULL,
+    "discountType" "public"."DiscountType" NOT NULL,
+    "value" DECIMAL(12,2) NOT NULL,
+    "medicineId" INTEGER,
+    "manufacturer" TEXT,
+    "expiringWithinDays" INTEGER,
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Promotion_userId_idx" ON "public"."Promotion"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleLine" ADD CONSTRAINT "SaleLine_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "public"."Promotion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Promotion" ADD CONSTRAINT "Promotion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Promotion" ADD CONSTRAINT "Promotion_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "public"."Medicine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "public"."TaxClass" AS ENUM ('VAT13', 'EXEMPT');
+
+-- AlterTable
+ALTER TABLE "public"."Medicine" ADD COLUMN     "taxClass" "public"."TaxClass" NOT NULL DEFAULT 'EXEMPT';
+
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "exemptAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxableAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ADD COLUMN     "exemptAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxClass" "public"."TaxClass" NOT NULL DEFAULT 'EXEMPT',
+ADD COLUMN     "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "taxableAmount" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Backfill: no tax was charged before tax classes existed
+UPDATE "public"."SaleLine" SET "exemptAmount" = "lineTotal";
+UPDATE "public"."Sale" SET "exemptAmount" = "total";
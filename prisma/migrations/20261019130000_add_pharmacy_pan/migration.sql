@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Pharmacy" ADD COLUMN     "pan" TEXT;
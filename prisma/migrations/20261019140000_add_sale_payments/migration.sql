@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentMethod" AS ENUM ('CASH', 'CARD', 'QR_WALLET', 'CREDIT');
+
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "changeDue" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."SalePayment" (
+    "id" SERIAL NOT NULL,
+    "saleId" INTEGER NOT NULL,
+    "method" "public"."PaymentMethod" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "tendered" DECIMAL(12,2),
+    "reference" TEXT,
+    "provider" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SalePayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SalePayment_saleId_idx" ON "public"."SalePayment"("saleId");
+
+-- CreateIndex
+CREATE INDEX "SalePayment_method_idx" ON "public"."SalePayment"("method");
+
+-- AddForeignKey
+ALTER TABLE "public"."SalePayment" ADD CONSTRAINT "SalePayment_saleId_fkey" FOREIGN KEY ("saleId") REFERENCES "public"."Sale"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: sales recorded before payments were tracked were settled in cash at the counter
+INSERT INTO "public"."SalePayment" ("saleId", "method", "amount", "tendered", "createdAt")
+SELECT "id", 'CASH', "total", "total", "createdAt" FROM "public"."Sale" WHERE "total" > 0;
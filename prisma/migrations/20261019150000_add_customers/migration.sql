@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "customerId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."Customer" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "age" INTEGER,
+    "allergies" TEXT[],
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Customer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Customer_userId_idx" ON "public"."Customer"("userId");
+
+-- CreateIndex
+CREATE INDEX "Customer_name_idx" ON "public"."Customer"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Customer_userId_phone_key" ON "public"."Customer"("userId", "phone");
+
+-- CreateIndex
+CREATE INDEX "Sale_customerId_idx" ON "public"."Sale"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Sale" ADD CONSTRAINT "Sale_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Customer" ADD CONSTRAINT "Customer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Customer" ADD COLUMN     "creditLimit" DECIMAL(12,2);
+
+-- CreateTable
+CREATE TABLE "public"."CreditRepayment" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "method" "public"."PaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditRepayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditRepayment_userId_idx" ON "public"."CreditRepayment"("userId");
+
+-- CreateIndex
+CREATE INDEX "CreditRepayment_customerId_idx" ON "public"."CreditRepayment"("customerId");
+
+-- CreateIndex
+CREATE INDEX "CreditRepayment_createdAt_idx" ON "public"."CreditRepayment"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditRepayment" ADD CONSTRAINT "CreditRepayment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CreditRepayment" ADD CONSTRAINT "CreditRepayment_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "public"."Medicine" ADD COLUMN     "prescriptionOnly" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "prescriptionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."Prescription" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "customerId" INTEGER,
+    "prescriberName" TEXT NOT NULL,
+    "nmcNumber" TEXT NOT NULL,
+    "patientName" TEXT NOT NULL,
+    "patientAge" INTEGER,
+    "prescribedAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Prescription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PrescriptionImage" (
+    "id" TEXT NOT NULL,
+    "prescriptionId" INTEGER NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "data" BYTEA NOT NULL,
+
+    CONSTRAINT "PrescriptionImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Prescription_userId_idx" ON "public"."Prescription"("userId");
+
+-- CreateIndex
+CREATE INDEX "Prescription_customerId_idx" ON "public"."Prescription"("customerId");
+
+-- CreateIndex
+CREATE INDEX "Prescription_nmcNumber_idx" ON "public"."Prescription"("nmcNumber");
+
+-- CreateIndex
+CREATE INDEX "Sale_prescriptionId_idx" ON "public"."Sale"("prescriptionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Sale" ADD CONSTRAINT "Sale_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "public"."Prescription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Prescription" ADD CONSTRAINT "Prescription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Prescription" ADD CONSTRAINT "Prescription_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."Customer"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrescriptionImage" ADD CONSTRAINT "PrescriptionImage_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "public"."Prescription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
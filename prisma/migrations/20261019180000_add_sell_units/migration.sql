@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."SellUnit" AS ENUM ('PACK', 'STRIP', 'UNIT');
+
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ADD COLUMN     "sellQty" INTEGER,
+ADD COLUMN     "sellUnit" "public"."SellUnit" NOT NULL DEFAULT 'UNIT';
+
+-- Existing lines were sold in base units
+UPDATE "public"."SaleLine" SET "sellQty" = "qty";
+
+ALTER TABLE "public"."SaleLine" ALTER COLUMN "sellQty" SET NOT NULL;
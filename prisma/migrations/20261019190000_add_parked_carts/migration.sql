@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "public"."Pharmacy" ADD COLUMN     "parkedCartTtlMinutes" INTEGER NOT NULL DEFAULT 120;
+
+-- CreateTable
+CREATE TABLE "public"."ParkedCart" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "cart" JSONB NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "itemCount" INTEGER NOT NULL,
+    "total" DECIMAL(12,2) NOT NULL,
+    "reserved" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ParkedCart_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ParkedCartReservation" (
+    "id" SERIAL NOT NULL,
+    "parkedCartId" INTEGER NOT NULL,
+    "batchId" INTEGER NOT NULL,
+    "qty" INTEGER NOT NULL,
+    "shelfRefId" INTEGER,
+    "shelfName" TEXT,
+
+    CONSTRAINT "ParkedCartReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParkedCart_userId_idx" ON "public"."ParkedCart"("userId");
+
+-- CreateIndex
+CREATE INDEX "ParkedCart_expiresAt_idx" ON "public"."ParkedCart"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ParkedCartReservation_parkedCartId_idx" ON "public"."ParkedCartReservation"("parkedCartId");
+
+-- CreateIndex
+CREATE INDEX "ParkedCartReservation_batchId_idx" ON "public"."ParkedCartReservation"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ParkedCart" ADD CONSTRAINT "ParkedCart_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ParkedCartReservation" ADD CONSTRAINT "ParkedCartReservation_parkedCartId_fkey" FOREIGN KEY ("parkedCartId") REFERENCES "public"."ParkedCart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ParkedCartReservation" ADD CONSTRAINT "ParkedCartReservation_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."InventoryBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "public"."CashMovementKind" AS ENUM ('CASH_IN', 'CASH_OUT');
+
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "shiftId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."CashShift" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "openingFloat" DECIMAL(12,2) NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "openedBy" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "expectedCash" DECIMAL(12,2),
+    "countedCash" DECIMAL(12,2),
+    "variance" DECIMAL(12,2),
+    "closeNote" TEXT,
+
+    CONSTRAINT "CashShift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."CashMovement" (
+    "id" SERIAL NOT NULL,
+    "shiftId" INTEGER NOT NULL,
+    "kind" "public"."CashMovementKind" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CashMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Sale_shiftId_idx" ON "public"."Sale"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "CashShift_userId_idx" ON "public"."CashShift"("userId");
+
+-- CreateIndex
+CREATE INDEX "CashShift_closedAt_idx" ON "public"."CashShift"("closedAt");
+
+-- At most one open shift per user (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "CashShift_userId_open_key" ON "public"."CashShift"("userId") WHERE "closedAt" IS NULL;
+
+-- CreateIndex
+CREATE INDEX "CashMovement_shiftId_idx" ON "public"."CashMovement"("shiftId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Sale" ADD CONSTRAINT "Sale_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "public"."CashShift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CashShift" ADD CONSTRAINT "CashShift_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."CashMovement" ADD CONSTRAINT "CashMovement_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "public"."CashShift"("id") ON DELETE CASCADE ON UPDATE CASCADE;
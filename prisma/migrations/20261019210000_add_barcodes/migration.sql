@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."Barcode" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "medicineId" INTEGER NOT NULL,
+    "batchId" INTEGER,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Barcode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Barcode_code_key" ON "public"."Barcode"("code");
+
+-- CreateIndex
+CREATE INDEX "Barcode_medicineId_idx" ON "public"."Barcode"("medicineId");
+
+-- CreateIndex
+CREATE INDEX "Barcode_batchId_idx" ON "public"."Barcode"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Barcode" ADD CONSTRAINT "Barcode_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "public"."Medicine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Barcode" ADD CONSTRAINT "Barcode_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."InventoryBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
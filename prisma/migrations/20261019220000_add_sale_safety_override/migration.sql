@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "safetyOverride" TEXT,
+ADD COLUMN     "safetyWarnings" JSONB;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."DrugSchedule" AS ENUM ('NARCOTIC', 'PSYCHOTROPIC');
+
+-- CreateEnum
+CREATE TYPE "public"."NarcoticEntryKind" AS ENUM ('DISPENSED', 'RETURNED', 'VOIDED');
+
+-- AlterTable
+ALTER TABLE "public"."Medicine" ADD COLUMN     "schedule" "public"."DrugSchedule";
+
+-- CreateTable
+CREATE TABLE "public"."NarcoticEntry" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "medicineId" INTEGER NOT NULL,
+    "batchNo" TEXT NOT NULL,
+    "kind" "public"."NarcoticEntryKind" NOT NULL,
+    "qty" INTEGER NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "saleId" INTEGER,
+    "prescriptionId" INTEGER,
+    "patientName" TEXT,
+    "patientAge" INTEGER,
+    "prescriberName" TEXT,
+    "nmcNumber" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NarcoticEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NarcoticEntry_userId_idx" ON "public"."NarcoticEntry"("userId");
+
+-- CreateIndex
+CREATE INDEX "NarcoticEntry_medicineId_idx" ON "public"."NarcoticEntry"("medicineId");
+
+-- CreateIndex
+CREATE INDEX "NarcoticEntry_saleId_idx" ON "public"."NarcoticEntry"("saleId");
+
+-- CreateIndex
+CREATE INDEX "NarcoticEntry_createdAt_idx" ON "public"."NarcoticEntry"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."NarcoticEntry" ADD CONSTRAINT "NarcoticEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."NarcoticEntry" ADD CONSTRAINT "NarcoticEntry_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "public"."Medicine"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Sale_userId_idempotencyKey_key" ON "public"."Sale"("userId", "idempotencyKey");
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ADD COLUMN     "batchId" INTEGER,
+ADD COLUMN     "medicineId" INTEGER,
+ADD COLUMN     "unitCost" DECIMAL(12,2);
+
+-- Backfill: link existing lines to the batch they were sold from (matched by the seller's batch
+-- number) and snapshot that batch's current cost, the best figure left for old sales.
+-- Lines whose batch was renamed or deleted stay unlinked and count at zero cost, as before.
+UPDATE "public"."SaleLine" AS sl
+SET "batchId" = b."id",
+    "medicineId" = b."medicineId",
+    "unitCost" = b."costPrice"
+FROM "public"."Sale" AS s, "public"."InventoryBatch" AS b
+WHERE s."id" = sl."saleId"
+  AND b."userId" = s."userId"
+  AND b."batchNo" = sl."batchNo";
+
+-- CreateIndex
+CREATE INDEX "SaleLine_batchId_idx" ON "public"."SaleLine"("batchId");
+
+-- CreateIndex
+CREATE INDEX "SaleLine_medicineId_idx" ON "public"."SaleLine"("medicineId");
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleLine" ADD CONSTRAINT "SaleLine_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."InventoryBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleLine" ADD CONSTRAINT "SaleLine_medicineId_fkey" FOREIGN KEY ("medicineId") REFERENCES "public"."Medicine"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."Admin" ADD COLUMN     "pinHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "pinHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Pharmacy" ADD COLUMN     "priceOverrideLimit" INTEGER NOT NULL DEFAULT 10;
+
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ADD COLUMN     "originalPrice" DECIMAL(12,2),
+ADD COLUMN     "priceApprover" TEXT,
+ADD COLUMN     "priceBy" TEXT,
+ADD COLUMN     "priceReason" TEXT;
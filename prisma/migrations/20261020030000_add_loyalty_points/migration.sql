@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "public"."PaymentMethod" ADD VALUE 'POINTS';
+
+-- CreateEnum
+CREATE TYPE "public"."LoyaltyEntryKind" AS ENUM ('EARNED', 'REDEEMED', 'REVERSED', 'REFUNDED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "public"."Pharmacy" ADD COLUMN     "loyaltyEarnRate" DECIMAL(8,4) NOT NULL DEFAULT 0,
+ADD COLUMN     "loyaltyExpiryDays" INTEGER DEFAULT 365,
+ADD COLUMN     "loyaltyPointValue" DECIMAL(8,4) NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ADD COLUMN     "earnsPoints" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."LoyaltyEntry" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "kind" "public"."LoyaltyEntryKind" NOT NULL,
+    "points" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "saleId" INTEGER,
+    "returnId" INTEGER,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoyaltyEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoyaltyEntry_userId_idx" ON "public"."LoyaltyEntry"("userId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyEntry_customerId_idx" ON "public"."LoyaltyEntry"("customerId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyEntry_saleId_idx" ON "public"."LoyaltyEntry"("saleId");
+
+-- CreateIndex
+CREATE INDEX "LoyaltyEntry_createdAt_idx" ON "public"."LoyaltyEntry"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."LoyaltyEntry" ADD CONSTRAINT "LoyaltyEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LoyaltyEntry" ADD CONSTRAINT "LoyaltyEntry_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
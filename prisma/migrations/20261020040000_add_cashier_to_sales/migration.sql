@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Sale" ADD COLUMN     "cashier" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."SaleReturn" ADD COLUMN     "cashier" TEXT;
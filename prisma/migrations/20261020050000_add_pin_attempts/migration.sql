@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."PinAttempt" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "cashier" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PinAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PinAttempt_userId_cashier_key" ON "public"."PinAttempt"("userId", "cashier");
+
+-- AddForeignKey
+ALTER TABLE "public"."PinAttempt" ADD CONSTRAINT "PinAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."SaleReturnPayment" (
+    "id" SERIAL NOT NULL,
+    "returnId" INTEGER NOT NULL,
+    "method" "public"."PaymentMethod" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+
+    CONSTRAINT "SaleReturnPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SaleReturnPayment_returnId_idx" ON "public"."SaleReturnPayment"("returnId");
+
+-- CreateIndex
+CREATE INDEX "SaleReturnPayment_method_idx" ON "public"."SaleReturnPayment"("method");
+
+-- AddForeignKey
+ALTER TABLE "public"."SaleReturnPayment" ADD CONSTRAINT "SaleReturnPayment_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "public"."SaleReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: earlier returns went back over the sale's tenders in the proportion they paid it
+INSERT INTO "public"."SaleReturnPayment" ("returnId", "method", "amount")
+SELECT r."id", p."method", ROUND(r."refund" * SUM(p."amount") / s."total", 2)
+FROM "public"."SaleReturn" r
+JOIN "public"."Sale" s ON s."id" = r."saleId"
+JOIN "public"."SalePayment" p ON p."saleId" = s."id"
+WHERE s."total" > 0
+GROUP BY r."id", r."refund", s."total", p."method";
@@ -0,0 +1,10 @@
+-- Data: a return's refund is the money side only; the share paid with points went back as points
+UPDATE "public"."SaleReturn" r
+SET "refund" = r."refund" - p."amount"
+FROM (
+  SELECT "returnId", SUM("amount") AS "amount"
+  FROM "public"."SaleReturnPayment"
+  WHERE "method" = 'POINTS'
+  GROUP BY "returnId"
+) p
+WHERE p."returnId" = r."id";
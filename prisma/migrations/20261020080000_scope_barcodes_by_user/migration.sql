@@ -0,0 +1,25 @@
+-- DropIndex
+DROP INDEX "public"."Barcode_code_key";
+
+-- AlterTable
+ALTER TABLE "public"."Barcode" ADD COLUMN     "userId" INTEGER;
+
+-- Backfill: a code linked to a batch belongs to that batch's user; the rest to the first user
+UPDATE "public"."Barcode" b
+SET "userId" = ib."userId"
+FROM "public"."InventoryBatch" ib
+WHERE ib."id" = b."batchId";
+
+UPDATE "public"."Barcode"
+SET "userId" = (SELECT MIN("id") FROM "public"."User")
+WHERE "userId" IS NULL;
+
+DELETE FROM "public"."Barcode" WHERE "userId" IS NULL;
+
+ALTER TABLE "public"."Barcode" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Barcode_userId_code_key" ON "public"."Barcode"("userId", "code");
+
+-- AddForeignKey
+ALTER TABLE "public"."Barcode" ADD CONSTRAINT "Barcode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
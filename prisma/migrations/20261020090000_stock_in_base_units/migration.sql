@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "public"."SaleLine" ALTER COLUMN "unitCost" SET DATA TYPE DECIMAL(12,4);
+
+-- Data: stock was received and counted in packs; it is held in base units (tablets, or bottles
+-- for liquids) since selling by pack / strip / unit. Pack sizes as in packInfo (src/lib/sales/units.ts).
+CREATE TEMP TABLE "_pack_size" AS
+SELECT m."id" AS "medicineId",
+       CASE
+         WHEN f."bottlesPerPack" IS NOT NULL OR m."dosageForm" IN ('SYRUP', 'SUSPENSION', 'SOLUTION', 'DROPS')
+           THEN COALESCE(f."bottlesPerPack", 1)
+         ELSE COALESCE(f."totalTablets", f."slipsCount" * f."tabletsPerSlip")
+       END AS "size"
+FROM "public"."Medicine" m
+JOIN "public"."MedicineFacts" f ON f."medicineId" = m."id";
+
+DELETE FROM "_pack_size" WHERE "size" IS NULL OR "size" <= 1;
+
+UPDATE "public"."InventoryBatch" b
+SET "qtyAvailable" = b."qtyAvailable" * p."size"
+FROM "_pack_size" p
+WHERE p."medicineId" = b."medicineId";
+
+UPDATE "public"."InventoryShelfAlloc" a
+SET "qty" = a."qty" * p."size"
+FROM "public"."InventoryBatch" b, "_pack_size" p
+WHERE b."id" = a."batchId" AND p."medicineId" = b."medicineId";
+
+-- Data: lines sold since then count base units but snapshotted the cost of a whole pack
+UPDATE "public"."SaleLine" l
+SET "unitCost" = l."unitCost" / p."size"
+FROM "public"."Sale" s, "_pack_size" p
+WHERE s."id" = l."saleId"
+  AND p."medicineId" = l."medicineId"
+  AND l."unitCost" IS NOT NULL
+  AND s."createdAt" >= (
+    SELECT "finished_at" FROM "public"."_prisma_migrations" WHERE "migration_name" = '20261019180000_add_sell_units'
+  );
+
+DROP TABLE "_pack_size";
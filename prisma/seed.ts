@@ -13,6 +13,9 @@ const PERMISSIONS = [
   { name: 'DELETE_MEDICINE', description: 'Delete medicine from inventory' },
   { name: 'VIEW_SALES', description: 'View sales records' },
   { name: 'PROCESS_SALES', description: 'Process customer transactions' },
+  { name: 'VOID_SALES', description: 'Void recorded sales (restocks items)' },
+  { name: 'OVERRIDE_PRICES', description: 'Approve price overrides below cost or beyond the limit' },
+  { name: 'OVERRIDE_ALLERGIES', description: "Sell past a customer's allergy warning" },
   { name: 'VIEW_NOTIFICATIONS',   description: 'See alerts/notifications' },
   { name: 'MANAGE_NOTIFICATIONS', description: 'Create/delete/mark notifications' },
 ];
@@ -21,10 +24,12 @@ const PERMISSIONS = [
 const ROLE_DEFS = {
   ADMIN: [
     'CREATE_USER', 'DELETE_USER', 'MANAGE_ROLES',
+    'VOID_SALES', 'OVERRIDE_PRICES', 'OVERRIDE_ALLERGIES',
     'VIEW_NOTIFICATIONS', 'MANAGE_NOTIFICATIONS',
   ],
   PHARMACIST: [
     'VIEW_MEDICINE', 'ADD_MEDICINE', 'UPDATE_MEDICINE',
+    'VOID_SALES', 'OVERRIDE_PRICES', 'OVERRIDE_ALLERGIES',
     'VIEW_NOTIFICATIONS',
   ],
   CASHIER: [
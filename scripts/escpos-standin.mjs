@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+// Stand-in for a network thermal printer: listens like a printer on TCP 9100, saves every job
+// as a .bin and prints a readable preview (ESC/POS commands stripped).
+//
+//   node scripts/escpos-standin.mjs [port] [outDir]
+//   RECEIPT_PRINTER=tcp://127.0.0.1:9100 npm run dev
+import net from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const port = Number(process.argv[2] || 9100);
+const outDir = path.resolve(process.argv[3] || 'escpos-jobs');
+
+function preview(buf) {
+  const lines = [];
+  let line = '';
+  for (let i = 0; i < buf.length; i++) {
+    const b = buf[i];
+    if (b === 0x1b) {
+      // ESC @ / ESC t n / ESC a n / ESC E n / ESC d n
+      i += buf[i + 1] === 0x40 ? 1 : 2;
+    } else if (b === 0x1d) {
+      const cmd = buf[i + 1];
+      if (cmd === 0x28 && buf[i + 2] === 0x6b) {
+        // GS ( k pL pH ... — QR; show the stored payload
+        const len = buf[i + 3] | (buf[i + 4] << 8);
+        if (buf[i + 6] === 0x50) lines.push(`[QR ${buf.slice(i + 8, i + 5 + len).toString('latin1')}]`);
+        i += 4 + len;
+      } else if (cmd === 0x56) {
+        lines.push('[CUT]');
+        i += buf[i + 2] === 0x41 || buf[i + 2] === 0x42 ? 3 : 2;
+      } else {
+        i += 2; // GS ! n
+      }
+    } else if (b === 0x0a) {
+      lines.push(line);
+      line = '';
+    } else {
+      line += String.fromCharCode(b);
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+fs.mkdirSync(outDir, { recursive: true });
+const server = net.createServer((socket) => {
+  const chunks = [];
+  socket.on('data', (c) => chunks.push(c));
+  socket.on('end', () => {
+    const buf = Buffer.concat(chunks);
+    const file = path.join(outDir, `job-${Date.now()}.bin`);
+    fs.writeFileSync(file, buf);
+    console.log(`\n--- ${buf.length} bytes from ${socket.remoteAddress} -> ${file}\n${preview(buf)}`);
+  });
+});
+server.listen(port, () => console.log(`ESC/POS stand-in listening on :${port}, saving to ${outDir}`));
@@ -0,0 +1,36 @@
+// app/api/auth/pin/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import bcrypt from 'bcryptjs';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/permissions';
+import { OVERRIDE_PERMISSION, isOverridePin } from '@/lib/sales/overrides';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/auth/pin { pin: "6-8 digits" | null }
+ * Set (or clear) the caller's supervisor PIN, typed at a cashier's till to approve a price
+ * override beyond the cashier's limit. Requires the OVERRIDE_PRICES permission.
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const actor = await requirePermission(req, OVERRIDE_PERMISSION);
+    const body = (await req.json().catch(() => null)) as { pin?: unknown } | null;
+    const pin = body?.pin ?? null;
+    if (pin !== null && !isOverridePin(pin)) {
+      return NextResponse.json({ error: 'PIN must be 6 to 8 digits' }, { status: 400 });
+    }
+
+    const pinHash = pin === null ? null : await bcrypt.hash(pin, 10);
+    if (actor.kind === 'admin') await prisma.admin.update({ where: { id: actor.id }, data: { pinHash } });
+    else await prisma.user.update({ where: { id: actor.id }, data: { pinHash } });
+
+    return NextResponse.json({ ok: true, hasPin: pinHash !== null });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /^Unauthorized/.test(msg) ? 401 : /^Forbidden/.test(msg) ? 403 : 500;
+    console.error('PUT /api/auth/pin error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,95 @@
+// app/api/barcodes/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { resolveActor } from '@/lib/permissions';
+import { learnBarcode, lookupBarcode } from '@/lib/barcodes';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const errorResponse = (e: unknown, where: string) => {
+  const msg = e instanceof Error ? e.message : 'Server error';
+  const status = /not found|^Pick|^Barcode is empty|is not a batch of|No users exist|seed/i.test(msg) ? 400 : 500;
+  console.error(`${where} error:`, e);
+  return NextResponse.json({ error: msg }, { status });
+};
+
+/**
+ * GET /api/barcodes?code=   → { match: { medicineId, medicineName, batchNo } | null }
+ * GET /api/barcodes?medicineId= → { items: the user's codes linked to that medicine }
+ * A match with `batchNo` sells that batch; without one the sell window picks FEFO.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const sp = new URL(req.url).searchParams;
+    const code = (sp.get('code') ?? '').trim();
+    if (code) return NextResponse.json({ match: await lookupBarcode(prisma, userId, code) });
+
+    const medicineId = Number(sp.get('medicineId'));
+    if (!Number.isInteger(medicineId) || medicineId <= 0) {
+      return NextResponse.json({ error: 'Pass code or medicineId' }, { status: 400 });
+    }
+    const rows = await prisma.barcode.findMany({
+      where: { userId, medicineId },
+      include: { batch: { select: { batchNo: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return NextResponse.json({
+      items: rows.map((r) => ({
+        id: r.id,
+        code: r.code,
+        batchNo: r.batch?.batchNo ?? null,
+        createdBy: r.createdBy,
+        createdAt: r.createdAt.toISOString(),
+      })),
+    });
+  } catch (e) {
+    return errorResponse(e, 'GET /api/barcodes');
+  }
+}
+
+/**
+ * POST /api/barcodes { code, medicineId?, batchNo? } → "learn this barcode".
+ * Link to a batch for in-house batch labels, to the medicine for product GTINs (a GS1
+ * DataMatrix is stored by its GTIN). Re-posting a known code re-links it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const actor = await resolveActor(req);
+    const b = (await req.json()) as { code?: unknown; medicineId?: unknown; batchNo?: unknown } | null;
+    if (typeof b?.code !== 'string' || !b.code.trim()) {
+      return NextResponse.json({ error: 'code is required' }, { status: 400 });
+    }
+    if (b.medicineId != null && !Number.isInteger(b.medicineId)) {
+      return NextResponse.json({ error: 'Invalid medicineId' }, { status: 400 });
+    }
+
+    await learnBarcode(prisma, userId, {
+      code: b.code,
+      medicineId: (b.medicineId as number | undefined) ?? null,
+      batchNo: typeof b.batchNo === 'string' && b.batchNo.trim() ? b.batchNo.trim() : null,
+      createdBy: actor?.email ?? null,
+    });
+    return NextResponse.json({ ok: true, match: await lookupBarcode(prisma, userId, b.code) });
+  } catch (e) {
+    return errorResponse(e, 'POST /api/barcodes');
+  }
+}
+
+/** DELETE /api/barcodes?id= → forget one of the user's codes */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const id = Number(new URL(req.url).searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+
+    const res = await prisma.barcode.deleteMany({ where: { id, userId } });
+    if (res.count === 0) throw new Error(`Barcode ${id} not found`);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return errorResponse(e, 'DELETE /api/barcodes');
+  }
+}
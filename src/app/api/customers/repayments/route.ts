@@ -0,0 +1,84 @@
+// app/api/customers/repayments/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { customerBalance } from '@/lib/sales/credit';
+import { lockCustomer } from '@/lib/sales/locks';
+import { isPaymentMethod } from '@/lib/sales/payments';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RepaymentBody = {
+  customerId?: number;
+  amount?: number;
+  method?: string;
+  reference?: string | null;
+  note?: string | null;
+};
+
+const clean = (s: unknown) => (typeof s === 'string' && s.trim() ? s.trim().slice(0, 200) : null);
+
+/**
+ * POST /api/customers/repayments
+ * { customerId, amount, method: CASH|CARD|QR_WALLET, reference?, note? }
+ * Records money paid back against the customer's credit. It is applied to their oldest
+ * credit sales first and may not exceed what they currently owe.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const b = (await req.json()) as RepaymentBody | null;
+
+    if (!b || !Number.isInteger(b.customerId)) {
+      return NextResponse.json({ error: 'customerId required' }, { status: 400 });
+    }
+    if (typeof b.amount !== 'number' || !Number.isFinite(b.amount) || b.amount <= 0) {
+      return NextResponse.json({ error: 'amount must be greater than 0' }, { status: 400 });
+    }
+    if (!isPaymentMethod(b.method) || b.method === 'CREDIT' || b.method === 'POINTS') {
+      return NextResponse.json({ error: 'method must be CASH, CARD or QR_WALLET' }, { status: 400 });
+    }
+    const reference = clean(b.reference);
+    if (b.method === 'QR_WALLET' && !reference) {
+      return NextResponse.json({ error: 'QR wallet repayments need the transaction reference' }, { status: 400 });
+    }
+    const customerId = b.customerId as number;
+    const method = b.method;
+    const amount = new Prisma.Decimal(b.amount).toDecimalPlaces(2);
+
+    const created = await prisma.$transaction(async (tx) => {
+      const customer = await tx.customer.findFirst({ where: { id: customerId, userId }, select: { id: true } });
+      if (!customer) throw new Error(`Customer ${customerId} not found`);
+
+      // a concurrent repayment waits here, then sees this one in the balance
+      await lockCustomer(tx, customerId);
+      const owed = await customerBalance(tx, userId, customerId);
+      if (amount.gt(owed)) {
+        throw new Error(`Repayment ${amount.toFixed(2)} is more than the outstanding ${owed.toFixed(2)}`);
+      }
+
+      const repayment = await tx.creditRepayment.create({
+        data: { userId, customerId, amount, method, reference, note: clean(b.note) },
+      });
+      return { repayment, balance: owed.sub(amount) };
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        id: created.repayment.id,
+        amount: Number(created.repayment.amount),
+        method: created.repayment.method,
+        balance: Number(created.balance),
+      },
+      { status: 201 },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /more than the outstanding/i.test(msg) ? 409 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/customers/repayments error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
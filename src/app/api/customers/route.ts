@@ -0,0 +1,235 @@
+// app/api/customers/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import type { Customer } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { loadReceivables } from '@/lib/sales/credit';
+import { loadPointBalances, loyaltySettings, pointsWorth } from '@/lib/sales/loyalty';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type CustomerBody = {
+  name?: string;
+  phone?: string | null;
+  age?: number | null;
+  allergies?: string[] | string | null;
+  notes?: string | null;
+  creditLimit?: number | null;
+};
+
+/** keep digits (and a leading +) so "98-0123 4567" and "9801234567" match */
+const normalizePhone = (s: string) => s.trim().replace(/(?!^\+)[^\d]/g, '');
+
+function toData(b: CustomerBody): { data: Omit<Prisma.CustomerUncheckedCreateInput, 'userId'> } | { error: string } {
+  const name = String(b.name ?? '').trim();
+  if (!name) return { error: 'name required' };
+
+  const phone = typeof b.phone === 'string' && b.phone.trim() ? normalizePhone(b.phone) : null;
+  if (phone && phone.replace('+', '').length < 6) return { error: 'phone looks too short' };
+
+  if (b.age != null && (!Number.isInteger(b.age) || b.age < 0 || b.age > 130)) {
+    return { error: 'age must be a whole number of years' };
+  }
+
+  const rawAllergies = Array.isArray(b.allergies) ? b.allergies : typeof b.allergies === 'string' ? b.allergies.split(',') : [];
+  const allergies = Array.from(new Set(rawAllergies.map((a) => String(a).trim()).filter(Boolean)));
+
+  const notes = typeof b.notes === 'string' && b.notes.trim() ? b.notes.trim() : null;
+
+  if (b.creditLimit != null && (typeof b.creditLimit !== 'number' || !Number.isFinite(b.creditLimit) || b.creditLimit < 0)) {
+    return { error: 'creditLimit must be 0 or more (leave empty for no limit)' };
+  }
+  const creditLimit = b.creditLimit == null ? null : new Prisma.Decimal(b.creditLimit).toDecimalPlaces(2);
+  return { data: { name, phone, age: b.age ?? null, allergies, notes, creditLimit } };
+}
+
+const toItem = (c: Customer) => ({
+  id: c.id,
+  name: c.name,
+  phone: c.phone,
+  age: c.age,
+  allergies: c.allergies,
+  notes: c.notes,
+  creditLimit: c.creditLimit == null ? null : Number(c.creditLimit),
+  createdAt: c.createdAt.toISOString(),
+});
+
+const errorResponse = (e: unknown, where: string) => {
+  if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+    return NextResponse.json({ error: 'A customer with this phone number already exists' }, { status: 409 });
+  }
+  const msg = e instanceof Error ? e.message : 'Server error';
+  const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+  console.error(`${where} error:`, e);
+  return NextResponse.json({ error: msg }, { status });
+};
+
+/**
+ * GET /api/customers?q=98012      -> up to 10 matches by phone (digits) or name
+ * GET /api/customers?id=5         -> the customer, their sales (newest first), every medicine they've had,
+ *                                    their credit balance with aging and repayments, and their
+ *                                    loyalty points ledger (newest first)
+ * List items carry the outstanding credit `balance`, spendable loyalty `points` and what those
+ * points are worth as tender (`pointsWorth`).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const sp = new URL(req.url).searchParams;
+
+    if (sp.has('id')) {
+      const id = Number(sp.get('id'));
+      if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id required' }, { status: 400 });
+      const c = await prisma.customer.findFirst({
+        where: { id, userId },
+        include: {
+          sales: {
+            orderBy: { createdAt: 'desc' },
+            include: {
+              lines: { include: { returnLines: { select: { qty: true } } } },
+              payments: { where: { method: 'CREDIT' }, select: { amount: true } },
+            },
+          },
+          repayments: { orderBy: { createdAt: 'desc' } },
+          loyalty: { orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: 100 },
+        },
+      });
+      if (!c) return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+      const [[receivable], points, loyalty] = await Promise.all([
+        loadReceivables(prisma, userId, [c.id]),
+        loadPointBalances(prisma, userId, [c.id]),
+        loyaltySettings(prisma, userId),
+      ]);
+      const pointBalance = points.get(c.id) ?? 0;
+
+      // "what did I give you last time?" — one row per medicine, most recent first; voided sales don't count
+      const meds = new Map<string, { name: string; qty: number; times: number; lastAt: Date; lastBatchNo: string }>();
+      for (const s of c.sales) {
+        if (s.voidedAt) continue;
+        for (const l of s.lines) {
+          const qty = l.qty - l.returnLines.reduce((a, r) => a + r.qty, 0);
+          if (qty <= 0) continue;
+          const key = l.name.toLowerCase();
+          const m = meds.get(key);
+          if (m) {
+            m.qty += qty;
+            m.times += 1;
+          } else {
+            meds.set(key, { name: l.name, qty, times: 1, lastAt: s.createdAt, lastBatchNo: l.batchNo });
+          }
+        }
+      }
+
+      return NextResponse.json({
+        item: { ...toItem(c), points: pointBalance, pointsWorth: pointsWorth(pointBalance, loyalty) },
+        sales: c.sales.map((s) => ({
+          id: s.id,
+          createdAt: s.createdAt.toISOString(),
+          total: Number(s.total),
+          onCredit: s.payments.reduce((a, p) => a + Number(p.amount), 0),
+          voided: !!s.voidedAt,
+          lines: s.lines.map((l) => ({
+            name: l.name,
+            batchNo: l.batchNo,
+            qty: l.qty,
+            returnedQty: l.returnLines.reduce((a, r) => a + r.qty, 0),
+            lineTotal: Number(l.lineTotal),
+          })),
+        })),
+        medicines: Array.from(meds.values()).map((m) => ({ ...m, lastAt: m.lastAt.toISOString() })),
+        receivable: {
+          ...receivable,
+          invoices: receivable.invoices.map((i) => ({ ...i, createdAt: i.createdAt.toISOString() })),
+        },
+        repayments: c.repayments.map((r) => ({
+          id: r.id,
+          amount: Number(r.amount),
+          method: r.method,
+          reference: r.reference,
+          note: r.note,
+          createdAt: r.createdAt.toISOString(),
+        })),
+        loyalty: {
+          balance: pointBalance,
+          worth: pointsWorth(pointBalance, loyalty),
+          earnRate: Number(loyalty.earnRate),
+          pointValue: Number(loyalty.pointValue),
+          entries: c.loyalty.map((e) => ({
+            id: e.id,
+            kind: e.kind,
+            points: e.points,
+            saleId: e.saleId,
+            expiresAt: e.expiresAt?.toISOString() ?? null,
+            createdAt: e.createdAt.toISOString(),
+          })),
+        },
+      });
+    }
+
+    const q = (sp.get('q') ?? '').trim();
+    const digits = normalizePhone(q).replace('+', '');
+    const where: Prisma.CustomerWhereInput = !q
+      ? { userId }
+      : /^[\d\s+()-]+$/.test(q)
+      ? { userId, phone: { contains: digits } }
+      : {
+          userId,
+          OR: [
+            { name: { contains: q, mode: 'insensitive' } },
+            ...(digits ? [{ phone: { contains: digits } }] : []),
+          ],
+        };
+    const rows = await prisma.customer.findMany({ where, orderBy: { updatedAt: 'desc' }, take: q ? 10 : 20 });
+    const ids = rows.map((c) => c.id);
+    const [receivables, points, loyalty] = await Promise.all([
+      loadReceivables(prisma, userId, ids),
+      loadPointBalances(prisma, userId, ids),
+      loyaltySettings(prisma, userId),
+    ]);
+    const balances = new Map(receivables.map((r) => [r.customerId, r.balance]));
+    return NextResponse.json({
+      items: rows.map((c) => {
+        const p = points.get(c.id) ?? 0;
+        return { ...toItem(c), balance: balances.get(c.id) ?? 0, points: p, pointsWorth: pointsWorth(p, loyalty) };
+      }),
+    });
+  } catch (e) {
+    return errorResponse(e, 'GET /api/customers');
+  }
+}
+
+/** POST /api/customers { name, phone?, age?, allergies?: string[] | "a, b", notes?, creditLimit? } */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const parsed = toData((await req.json()) as CustomerBody);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const created = await prisma.customer.create({ data: { ...parsed.data, userId } });
+    return NextResponse.json({ item: toItem(created) }, { status: 201 });
+  } catch (e) {
+    return errorResponse(e, 'POST /api/customers');
+  }
+}
+
+/** PUT /api/customers?id=  (full body, same as POST) */
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const id = Number(new URL(req.url).searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id required' }, { status: 400 });
+
+    const existing = await prisma.customer.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!existing) return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+
+    const parsed = toData((await req.json()) as CustomerBody);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const updated = await prisma.customer.update({ where: { id }, data: parsed.data });
+    return NextResponse.json({ item: toItem(updated) });
+  } catch (e) {
+    return errorResponse(e, 'PUT /api/customers');
+  }
+}
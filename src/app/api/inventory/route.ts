@@ -1,6 +1,11 @@
 // src/app/api/inventory/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { resolveActor } from '@/lib/permissions';
+import { isTaxClass } from '@/lib/sales/tax';
+import { isDrugSchedule, recordNarcoticMovement } from '@/lib/sales/narcotics';
+import { isSellUnit, packInfo, sellUnitOptions, toBaseQty } from '@/lib/sales/units';
+import type { MedicineWithFacts, SellUnitOption } from '@/lib/sales/units';
 import type {
   Prisma,
   InventoryBatch,
@@ -9,6 +14,9 @@ import type {
   MedicineFacts,
   Admin,
   User,
+  TaxClass,
+  DrugSchedule,
+  SellUnit,
 } from '@prisma/client';
 
 export const runtime = 'nodejs';
@@ -34,6 +42,7 @@ type ApiFacts = {
 
 type ApiBatchRow = {
   id: string; // batchNo
+  medicineId: number;
   name: string;
   manufacturingDate: string | '';
   expiryDate: string | '';
@@ -41,8 +50,13 @@ type ApiBatchRow = {
   purchasePrice: number;
   sellingPrice: number;
   supplierName: string | null;
+  taxClass: TaxClass;
+  prescriptionOnly: boolean;
+  schedule: DrugSchedule | null; // controlled substance
   qtyAvailable: number;
   qty: number; // alias for UI
+  base: string; // what qty counts: tablet | bottle | unit
+  units: SellUnitOption[]; // pack / strip / unit sizes it can be sold in, with prices
   minQty: number; // not in DB yet; keep 0
   shelves: Array<{ shelfId: string; shelfName: string; qty: number }>;
   facts?: ApiFacts;
@@ -181,6 +195,27 @@ function validateShelves(totalQty: number, shelves: ShelfInput[]): string | null
   return null;
 }
 
+/**
+ * Base units (tablets / bottles) in one `unit` of the quantities sent. Deliveries are counted in
+ * packs, the default; the edit form sends stock as held, in single units (`qtyUnit: 'UNIT'`).
+ * Pack counts sent with the request win over the stored ones, as they are what gets saved.
+ * Throws "Invalid unit: ..." for a strip of a medicine without strip facts.
+ */
+function qtyUnitSize(medicine: MedicineWithFacts, details: ApiFacts | null, unit: SellUnit): number {
+  const facts = details
+    ? ({
+        ...medicine.facts,
+        slipsCount: details.slipsCount,
+        tabletsPerSlip: details.tabletsPerSlip,
+        totalTablets: details.totalTablets,
+      } as MedicineFacts)
+    : medicine.facts;
+  const info = packInfo({ ...medicine, facts });
+  // without pack facts stock is kept in packs as they come, so a pack is one unit
+  if (unit === 'PACK') return info.sizes.PACK ?? 1;
+  return toBaseQty(info, unit, 1, medicine.name);
+}
+
 /** DB row shape used by mapBatchRow (includes joins). */
 type BatchJoined = InventoryBatch & {
   medicine: (Medicine & { facts: MedicineFacts | null }) | null;
@@ -188,8 +223,10 @@ type BatchJoined = InventoryBatch & {
 };
 
 function mapBatchRow(row: BatchJoined): ApiBatchRow {
+  const { base, units } = sellUnitOptions(row.medicine, row.mrp ?? row.medicine?.mrp ?? 0);
   const result: ApiBatchRow = {
     id: row.batchNo,
+    medicineId: row.medicineId,
     name: row.medicine?.name ?? '',
     manufacturingDate: row.manufactureDate ? row.manufactureDate.toISOString().slice(0, 10) : '',
     expiryDate: row.expiryDate ? row.expiryDate.toISOString().slice(0, 10) : '',
@@ -197,8 +234,13 @@ function mapBatchRow(row: BatchJoined): ApiBatchRow {
     purchasePrice: Number(row.costPrice ?? 0),
     sellingPrice: Number(row.mrp ?? 0),
     supplierName: row.medicine?.manufacturer ?? null,
+    taxClass: row.medicine?.taxClass ?? 'EXEMPT',
+    prescriptionOnly: row.medicine?.prescriptionOnly ?? false,
+    schedule: row.medicine?.schedule ?? null,
     qtyAvailable: row.qtyAvailable ?? 0,
     qty: row.qtyAvailable ?? 0,
+    base,
+    units,
     minQty: 0,
     shelves: row.shelves.map((s) => ({
       shelfId: String(s.shelfId ?? ''),
@@ -295,10 +337,12 @@ export async function GET(req: NextRequest) {
 
 /* -------------------------------------------------------------------------- */
 /* POST /api/inventory  (create batch + shelves + facts)                       */
+/* A scheduled medicine's batch gets a RECEIVED entry in the register.         */
 /* -------------------------------------------------------------------------- */
 export async function POST(req: NextRequest) {
   try {
     const userId = await resolveUserId();
+    const actor = await resolveActor(req);
     const bodyRaw: unknown = await req.json();
     const body = (bodyRaw && typeof bodyRaw === 'object' ? (bodyRaw as Dict) : {}) as BodyWithShelves & Dict;
 
@@ -314,11 +358,16 @@ export async function POST(req: NextRequest) {
     if (shelfErr) return NextResponse.json({ error: shelfErr }, { status: 400 });
 
     const details = normalizeDetails(body.details ?? body.facts);
+    const qtyUnit: SellUnit = isSellUnit(body.qtyUnit) ? body.qtyUnit : 'PACK';
 
     const manufacturer: string | null =
       (typeof body.supplierName === 'string' && body.supplierName.trim()) ||
       (typeof body.manufacturer === 'string' && body.manufacturer.trim()) ||
       null;
+    const taxClass = isTaxClass(body.taxClass) ? body.taxClass : undefined;
+    const prescriptionOnly = typeof body.prescriptionOnly === 'boolean' ? body.prescriptionOnly : undefined;
+    // null clears it; absent leaves an existing medicine's schedule alone
+    const schedule = isDrugSchedule(body.schedule) ? body.schedule : body.schedule === null ? null : undefined;
 
     let medicine = await prisma.medicine.findFirst({
       where: { name: { equals: medName, mode: 'insensitive' } },
@@ -333,17 +382,27 @@ export async function POST(req: NextRequest) {
           packSize: (body as Dict).packSize as string | null,
           mrp: body.sellingPrice != null ? toMoneyString(body.sellingPrice) : null,
           manufacturer,
+          taxClass,
+          prescriptionOnly,
+          schedule,
         },
         include: { facts: true },
       });
-    } else if (manufacturer && medicine.manufacturer !== manufacturer) {
+    } else if (
+      (manufacturer && medicine.manufacturer !== manufacturer) ||
+      (taxClass && medicine.taxClass !== taxClass) ||
+      (prescriptionOnly !== undefined && medicine.prescriptionOnly !== prescriptionOnly) ||
+      (schedule !== undefined && medicine.schedule !== schedule)
+    ) {
       medicine = await prisma.medicine.update({
         where: { id: medicine.id },
-        data: { manufacturer },
+        data: { ...(manufacturer ? { manufacturer } : {}), taxClass, prescriptionOnly, schedule },
         include: { facts: true },
       });
     }
 
+    const size = qtyUnitSize(medicine, details, qtyUnit);
+
     const created = await prisma.$transaction(async (tx) => {
       const batch = await tx.inventoryBatch.create({
         data: {
@@ -352,7 +411,7 @@ export async function POST(req: NextRequest) {
           batchNo,
           manufactureDate: asDate(body.manufacturingDate),
           expiryDate: asDate(body.expiryDate),
-          qtyAvailable,
+          qtyAvailable: qtyAvailable * size,
           costPrice: toMoneyString(body.purchasePrice),
           mrp: toMoneyString(body.sellingPrice),
           status: 'ACTIVE',
@@ -365,10 +424,17 @@ export async function POST(req: NextRequest) {
             batchId: batch.id,
             shelfId: s.shelfId ? String(s.shelfId) : null,
             shelfName: String(s.shelfName ?? ''),
-            qty: toInt(s.qty ?? s.quantity ?? s.stock ?? s.onHand),
+            qty: toInt(s.qty ?? s.quantity ?? s.stock ?? s.onHand) * size,
           })),
         });
       }
+      await recordNarcoticMovement(tx, userId, {
+        kind: 'RECEIVED',
+        saleId: null,
+        prescriptionId: null,
+        createdBy: actor?.email ?? null,
+        lines: [{ medicineId: batch.medicineId, batchNo: batch.batchNo, qty: batch.qtyAvailable }],
+      });
 
       if (details) {
         await tx.medicineFacts.upsert({
@@ -416,6 +482,8 @@ export async function POST(req: NextRequest) {
     const item = mapBatchRow(created as BatchJoined);
     return NextResponse.json({ item }, { status: 201 });
   } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : '';
+    if (/^Invalid unit/.test(msg)) return NextResponse.json({ error: msg }, { status: 400 });
     console.error('POST /api/inventory', e);
     return NextResponse.json({ error: 'Create failed' }, { status: 500 });
   }
@@ -423,10 +491,12 @@ export async function POST(req: NextRequest) {
 
 /* -------------------------------------------------------------------------- */
 /* PUT /api/inventory  (update batch + shelves + facts)                        */
+/* A scheduled medicine's stock change gets an ADJUSTED entry in the register. */
 /* -------------------------------------------------------------------------- */
 export async function PUT(req: NextRequest) {
   try {
     const userId = await resolveUserId();
+    const actor = await resolveActor(req);
     const bodyRaw: unknown = await req.json();
     const body = (bodyRaw && typeof bodyRaw === 'object' ? (bodyRaw as Dict) : {}) as BodyWithShelves & Dict;
 
@@ -450,6 +520,15 @@ export async function PUT(req: NextRequest) {
       const newMan = body.supplierName.trim();
       if (newMan && newMan !== (found.medicine?.manufacturer ?? '')) medUpdates.manufacturer = newMan;
     }
+    if (isTaxClass(body.taxClass) && body.taxClass !== found.medicine?.taxClass) {
+      medUpdates.taxClass = body.taxClass;
+    }
+    if (typeof body.prescriptionOnly === 'boolean' && body.prescriptionOnly !== found.medicine?.prescriptionOnly) {
+      medUpdates.prescriptionOnly = body.prescriptionOnly;
+    }
+    if ((isDrugSchedule(body.schedule) || body.schedule === null) && body.schedule !== found.medicine?.schedule) {
+      medUpdates.schedule = body.schedule;
+    }
 
     const updates: Prisma.InventoryBatchUpdateInput = {};
     if (typeof body.manufacturingDate === 'string') updates.manufactureDate = asDate(body.manufacturingDate);
@@ -461,8 +540,12 @@ export async function PUT(req: NextRequest) {
       if (newBatchNo && newBatchNo !== found.batchNo) updates.batchNo = newBatchNo;
     }
 
+    const details = normalizeDetails(body.details ?? body.facts);
+    const qtyUnit: SellUnit = isSellUnit(body.qtyUnit) ? body.qtyUnit : 'PACK';
+    const size = qtyUnitSize(found.medicine, details, qtyUnit);
     const nextQty = extractQty(body);
 
+    let stock: number | undefined; // new qtyAvailable, base units
     let replaceShelves = false;
     let newShelves: Array<{ shelfId: string | null; shelfName: string; qty: number }> = [];
 
@@ -474,28 +557,36 @@ export async function PUT(req: NextRequest) {
       newShelves = body.shelves.map((s) => ({
         shelfId: s.shelfId ? String(s.shelfId) : null,
         shelfName: String(s.shelfName ?? ''),
-        qty: toInt(s.qty ?? s.quantity ?? s.stock ?? s.onHand),
+        qty: toInt(s.qty ?? s.quantity ?? s.stock ?? s.onHand) * size,
       }));
-      updates.qtyAvailable = nextQty;
+      stock = nextQty * size;
     } else if ('qty' in body || 'qtyAvailable' in body || 'quantity' in body || 'stock' in body || 'onHand' in body) {
       const currentSum = found.shelves.reduce((a, s) => a + s.qty, 0);
-      if (currentSum !== nextQty) {
+      if (currentSum !== nextQty * size) {
         return NextResponse.json(
-          { error: `qty (${nextQty}) must equal current shelves total (${currentSum}). Send shelves to change both.` },
+          { error: `qty (${nextQty * size}) must equal current shelves total (${currentSum}). Send shelves to change both.` },
           { status: 400 },
         );
       }
-      updates.qtyAvailable = nextQty;
+      stock = nextQty * size;
     }
-
-    const details = normalizeDetails(body.details ?? body.facts);
+    if (stock !== undefined) updates.qtyAvailable = stock;
 
     const updated = await prisma.$transaction(async (tx) => {
       if (Object.keys(medUpdates).length) {
         await tx.medicine.update({ where: { id: found.medicineId }, data: medUpdates });
       }
       if (Object.keys(updates).length) {
-        await tx.inventoryBatch.update({ where: { id: found.id }, data: updates });
+        const batch = await tx.inventoryBatch.update({ where: { id: found.id }, data: updates });
+        if (stock !== undefined && stock !== found.qtyAvailable) {
+          await recordNarcoticMovement(tx, userId, {
+            kind: 'ADJUSTED',
+            saleId: null,
+            prescriptionId: null,
+            createdBy: actor?.email ?? null,
+            lines: [{ medicineId: batch.medicineId, batchNo: batch.batchNo, qty: stock - found.qtyAvailable }],
+          });
+        }
       }
 
       if (replaceShelves) {
@@ -558,6 +649,8 @@ export async function PUT(req: NextRequest) {
     const item = mapBatchRow(updated as BatchJoined);
     return NextResponse.json({ item });
   } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : '';
+    if (/^Invalid unit/.test(msg)) return NextResponse.json({ error: msg }, { status: 400 });
     console.error('PUT /api/inventory', e);
     return NextResponse.json({ error: 'Update failed' }, { status: 500 });
   }
@@ -565,21 +658,32 @@ export async function PUT(req: NextRequest) {
 
 /* -------------------------------------------------------------------------- */
 /* DELETE /api/inventory?id=<batchNo>                                         */
+/* A scheduled medicine's stock leaves the register as an ADJUSTED entry.      */
 /* -------------------------------------------------------------------------- */
 export async function DELETE(req: NextRequest) {
   try {
     const userId = await resolveUserId();
+    const actor = await resolveActor(req);
     const { searchParams } = new URL(req.url);
     const batchNo = String(searchParams.get('id') ?? '').trim();
     if (!batchNo) return NextResponse.json({ error: 'id (batchNo) required' }, { status: 400 });
 
     const target = await prisma.inventoryBatch.findFirst({
       where: { userId, batchNo },
-      select: { id: true },
+      select: { id: true, medicineId: true, qtyAvailable: true },
     });
     if (!target) return NextResponse.json({ error: 'Not found' }, { status: 404 });
 
-    await prisma.inventoryBatch.delete({ where: { id: target.id } });
+    await prisma.$transaction(async (tx) => {
+      await tx.inventoryBatch.delete({ where: { id: target.id } });
+      await recordNarcoticMovement(tx, userId, {
+        kind: 'ADJUSTED',
+        saleId: null,
+        prescriptionId: null,
+        createdBy: actor?.email ?? null,
+        lines: [{ medicineId: target.medicineId, batchNo, qty: -target.qtyAvailable }],
+      });
+    });
 
     return NextResponse.json({ ok: true, deleted: 1 });
   } catch (e: unknown) {
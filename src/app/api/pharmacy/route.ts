@@ -0,0 +1,138 @@
+// app/api/pharmacy/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requirePermission } from '@/lib/permissions';
+import { DEFAULT_OVERRIDE_LIMIT_PERCENT, OVERRIDE_PERMISSION } from '@/lib/sales/overrides';
+import { resolveUserId } from '@/lib/sales/user';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type PharmacyBody = {
+  name?: string;
+  address?: string | null;
+  pan?: string | null;
+  parkedCartTtlMinutes?: unknown;
+  priceOverrideLimit?: unknown;
+  loyaltyEarnRate?: unknown;
+  loyaltyPointValue?: unknown;
+  loyaltyExpiryDays?: unknown;
+};
+
+const toItem = (p: {
+  id: number;
+  name: string;
+  address: string | null;
+  pan: string | null;
+  parkedCartTtlMinutes: number;
+  priceOverrideLimit: number;
+  loyaltyEarnRate: Prisma.Decimal;
+  loyaltyPointValue: Prisma.Decimal;
+  loyaltyExpiryDays: number | null;
+}) => ({
+  id: p.id,
+  name: p.name,
+  address: p.address,
+  pan: p.pan,
+  parkedCartTtlMinutes: p.parkedCartTtlMinutes,
+  priceOverrideLimit: p.priceOverrideLimit,
+  loyaltyEarnRate: Number(p.loyaltyEarnRate),
+  loyaltyPointValue: Number(p.loyaltyPointValue),
+  loyaltyExpiryDays: p.loyaltyExpiryDays,
+});
+
+const isAmount = (v: unknown, min: number, max: number) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+
+const errorResponse = (e: unknown, where: string) => {
+  const msg = e instanceof Error ? e.message : 'Server error';
+  const status = /^Unauthorized/.test(msg)
+    ? 401
+    : /^Forbidden/.test(msg)
+      ? 403
+      : /not found|No users exist|seed/i.test(msg)
+        ? 400
+        : 500;
+  console.error(`${where} error:`, e);
+  return NextResponse.json({ error: msg }, { status });
+};
+
+/** GET /api/pharmacy → the shop header printed on receipts (null until saved) */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const p = await prisma.pharmacy.findFirst({ where: { userId }, orderBy: { id: 'asc' } });
+    return NextResponse.json({ item: p ? toItem(p) : null });
+  } catch (e) {
+    return errorResponse(e, 'GET /api/pharmacy');
+  }
+}
+
+/**
+ * PUT /api/pharmacy { name, address?, pan?, parkedCartTtlMinutes?, priceOverrideLimit?,
+ *                    loyaltyEarnRate?, loyaltyPointValue?, loyaltyExpiryDays? }
+ * → create or update the user's (first) pharmacy. `priceOverrideLimit` is how far below the MRP
+ * (in %) a cashier may override a price without a supervisor; changing it requires OVERRIDE_PRICES. Loyalty: points earned per currency
+ * unit (0 = off), what a point is worth as tender, and days until points lapse (null = never).
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const b = (await req.json()) as PharmacyBody;
+
+    const name = typeof b?.name === 'string' ? b.name.trim() : '';
+    const address = typeof b?.address === 'string' && b.address.trim() ? b.address.trim() : null;
+    const pan = typeof b?.pan === 'string' && b.pan.trim() ? b.pan.trim() : null;
+    if (!name) return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    if (pan && !/^\d{9}$/.test(pan)) {
+      return NextResponse.json({ error: 'PAN must be 9 digits' }, { status: 400 });
+    }
+    const ttl = b?.parkedCartTtlMinutes;
+    if (ttl !== undefined && (!Number.isInteger(ttl) || (ttl as number) < 5 || (ttl as number) > 7 * 24 * 60)) {
+      return NextResponse.json({ error: 'Parked cart expiry must be 5 minutes to 7 days' }, { status: 400 });
+    }
+    const parkedCartTtlMinutes = ttl as number | undefined;
+    const limit = b?.priceOverrideLimit;
+    if (limit !== undefined && (!Number.isInteger(limit) || (limit as number) < 0 || (limit as number) > 100)) {
+      return NextResponse.json({ error: 'Price override limit must be 0 to 100%' }, { status: 400 });
+    }
+    const priceOverrideLimit = limit as number | undefined;
+    if (b?.loyaltyEarnRate !== undefined && !isAmount(b.loyaltyEarnRate, 0, 100)) {
+      return NextResponse.json({ error: 'Points earned per unit spent must be 0 to 100' }, { status: 400 });
+    }
+    if (b?.loyaltyPointValue !== undefined && !isAmount(b.loyaltyPointValue, 0.0001, 1000)) {
+      return NextResponse.json({ error: 'Point value must be more than 0 (up to 1000)' }, { status: 400 });
+    }
+    const expiry = b?.loyaltyExpiryDays;
+    if (expiry !== undefined && expiry !== null && (!Number.isInteger(expiry) || (expiry as number) < 1 || (expiry as number) > 3650)) {
+      return NextResponse.json({ error: 'Points expiry must be 1 to 3650 days (or none)' }, { status: 400 });
+    }
+    const loyalty = {
+      loyaltyEarnRate: b?.loyaltyEarnRate === undefined ? undefined : new Prisma.Decimal(b.loyaltyEarnRate as number).toDecimalPlaces(4),
+      loyaltyPointValue: b?.loyaltyPointValue === undefined ? undefined : new Prisma.Decimal(b.loyaltyPointValue as number).toDecimalPlaces(4),
+      loyaltyExpiryDays: expiry as number | null | undefined,
+    };
+
+    const existing = await prisma.pharmacy.findFirst({
+      where: { userId },
+      orderBy: { id: 'asc' },
+      select: { id: true, priceOverrideLimit: true },
+    });
+    // only a supervisor may move the bar that decides when a supervisor is needed
+    const currentLimit = existing?.priceOverrideLimit ?? DEFAULT_OVERRIDE_LIMIT_PERCENT;
+    if (priceOverrideLimit !== undefined && priceOverrideLimit !== currentLimit) {
+      await requirePermission(req, OVERRIDE_PERMISSION);
+    }
+    const p = existing
+      ? await prisma.pharmacy.update({
+          where: { id: existing.id },
+          data: { name, address, pan, parkedCartTtlMinutes, priceOverrideLimit, ...loyalty },
+        })
+      : await prisma.pharmacy.create({ data: { userId, name, address, pan, parkedCartTtlMinutes, priceOverrideLimit, ...loyalty } });
+
+    return NextResponse.json({ ok: true, item: toItem(p) });
+  } catch (e) {
+    return errorResponse(e, 'PUT /api/pharmacy');
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/prescriptions/image/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** GET /api/prescriptions/image?id=<image id>  -> the stored bytes, shown inline */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const id = new URL(req.url).searchParams.get('id') ?? '';
+    if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+
+    const img = await prisma.prescriptionImage.findFirst({ where: { id, prescription: { userId } } });
+    if (!img) return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+
+    const safeName = img.originalName.replace(/[^\w.-]/g, '_');
+    return new NextResponse(new Uint8Array(img.data), {
+      headers: {
+        'Content-Type': img.contentType,
+        'Content-Disposition': `inline; filename="${safeName}"`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/prescriptions/image error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,165 @@
+// app/api/prescriptions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const ALLOWED_TYPES = /^(image\/(jpeg|png|webp|gif|heic|heif)|application\/pdf)$/;
+
+const include = {
+  images: { select: { id: true, contentType: true, originalName: true } },
+  customer: { select: { id: true, name: true } },
+  _count: { select: { sales: true } },
+} satisfies Prisma.PrescriptionInclude;
+
+const toItem = (p: Prisma.PrescriptionGetPayload<{ include: typeof include }>) => ({
+  id: p.id,
+  prescriberName: p.prescriberName,
+  nmcNumber: p.nmcNumber,
+  patientName: p.patientName,
+  patientAge: p.patientAge,
+  prescribedAt: p.prescribedAt.toISOString().slice(0, 10),
+  notes: p.notes,
+  customer: p.customer,
+  images: p.images.map((i) => ({ ...i, url: `/api/prescriptions/image?id=${i.id}` })),
+  salesCount: p._count.sales,
+  createdAt: p.createdAt.toISOString(),
+});
+
+const text = (form: FormData, key: string) => {
+  const v = form.get(key);
+  return typeof v === 'string' ? v.trim() : '';
+};
+
+/**
+ * GET /api/prescriptions?id=3           -> one prescription
+ * GET /api/prescriptions?customerId=5   -> that customer's prescriptions, newest first
+ * GET /api/prescriptions?q=             -> search patient / prescriber / NMC no. (latest 20 without q)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const sp = new URL(req.url).searchParams;
+
+    if (sp.has('id')) {
+      const id = Number(sp.get('id'));
+      if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id required' }, { status: 400 });
+      const p = await prisma.prescription.findFirst({ where: { id, userId }, include });
+      if (!p) return NextResponse.json({ error: 'Prescription not found' }, { status: 404 });
+      return NextResponse.json({ item: toItem(p) });
+    }
+
+    const where: Prisma.PrescriptionWhereInput = { userId };
+    const customerId = Number(sp.get('customerId'));
+    if (sp.has('customerId') && Number.isInteger(customerId)) where.customerId = customerId;
+    const q = (sp.get('q') ?? '').trim();
+    if (q) {
+      where.OR = [
+        { patientName: { contains: q, mode: 'insensitive' } },
+        { prescriberName: { contains: q, mode: 'insensitive' } },
+        { nmcNumber: { contains: q } },
+      ];
+    }
+
+    const rows = await prisma.prescription.findMany({ where, include, orderBy: { prescribedAt: 'desc' }, take: 20 });
+    return NextResponse.json({ items: rows.map(toItem) });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/prescriptions error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+/**
+ * POST /api/prescriptions  (multipart/form-data)
+ * prescriberName, nmcNumber, patientName, patientAge?, prescribedAt (YYYY-MM-DD), customerId?, notes?,
+ * images: 1–4 photos/scans of the prescription (stored as bytes, like scanner images)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const form = await req.formData();
+
+    const prescriberName = text(form, 'prescriberName');
+    const nmcNumber = text(form, 'nmcNumber').replace(/^NMC\s*(no\.?)?\s*/i, '');
+    const patientName = text(form, 'patientName');
+    if (!prescriberName || !patientName) {
+      return NextResponse.json({ error: 'prescriberName and patientName are required' }, { status: 400 });
+    }
+    if (!/^\d{1,6}$/.test(nmcNumber)) {
+      return NextResponse.json({ error: 'NMC registration number must be 1–6 digits' }, { status: 400 });
+    }
+
+    const dateText = text(form, 'prescribedAt');
+    const prescribedAt = /^\d{4}-\d{2}-\d{2}$/.test(dateText) ? new Date(`${dateText}T00:00:00.000Z`) : null;
+    if (!prescribedAt || Number.isNaN(+prescribedAt)) {
+      return NextResponse.json({ error: 'prescribedAt must be a date (YYYY-MM-DD)' }, { status: 400 });
+    }
+    if (prescribedAt.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+      return NextResponse.json({ error: 'prescribedAt cannot be in the future' }, { status: 400 });
+    }
+
+    const ageText = text(form, 'patientAge');
+    const patientAge = ageText ? Number(ageText) : null;
+    if (patientAge !== null && (!Number.isInteger(patientAge) || patientAge < 0 || patientAge > 130)) {
+      return NextResponse.json({ error: 'patientAge must be a whole number of years' }, { status: 400 });
+    }
+
+    const customerText = text(form, 'customerId');
+    const customerId = customerText ? Number(customerText) : null;
+    if (customerId !== null && !Number.isInteger(customerId)) {
+      return NextResponse.json({ error: 'Invalid customerId' }, { status: 400 });
+    }
+
+    const files = form.getAll('images').filter((f): f is File => typeof f === 'object' && f !== null);
+    if (files.length === 0) return NextResponse.json({ error: 'Attach a photo of the prescription (field name: images)' }, { status: 400 });
+    if (files.length > MAX_IMAGES) return NextResponse.json({ error: `Too many images; max ${MAX_IMAGES}` }, { status: 400 });
+    for (const f of files) {
+      if (f.type && !ALLOWED_TYPES.test(f.type)) {
+        return NextResponse.json({ error: `${f.name || 'file'}: only JPEG/PNG/WebP/HEIC photos or PDF` }, { status: 400 });
+      }
+      if (f.size > MAX_IMAGE_BYTES) {
+        return NextResponse.json({ error: `${f.name || 'file'} is larger than 5 MB` }, { status: 400 });
+      }
+    }
+    const images = await Promise.all(
+      files.map(async (f) => ({
+        contentType: f.type || 'image/jpeg',
+        originalName: f.name || 'prescription',
+        data: Buffer.from(new Uint8Array(await f.arrayBuffer())),
+      })),
+    );
+
+    if (customerId !== null) {
+      const c = await prisma.customer.findFirst({ where: { id: customerId, userId }, select: { id: true } });
+      if (!c) throw new Error(`Customer ${customerId} not found`);
+    }
+
+    const created = await prisma.prescription.create({
+      data: {
+        userId,
+        customerId,
+        prescriberName,
+        nmcNumber,
+        patientName,
+        patientAge,
+        prescribedAt,
+        notes: text(form, 'notes') || null,
+        images: { create: images },
+      },
+      include,
+    });
+    return NextResponse.json({ item: toItem(created) }, { status: 201 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/prescriptions error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
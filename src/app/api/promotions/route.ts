@@ -0,0 +1,170 @@
+// app/api/promotions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import type { DiscountType, PromotionScope } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { validateDiscount } from '@/lib/sales/discounts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type PromotionBody = {
+  name?: string;
+  scope?: PromotionScope;
+  discountType?: DiscountType;
+  value?: number;
+  medicineId?: number | null;
+  manufacturer?: string | null;
+  expiringWithinDays?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  isActive?: boolean;
+};
+
+const SCOPES: PromotionScope[] = ['ALL', 'MEDICINE', 'MANUFACTURER', 'EXPIRING'];
+
+const toDate = (s: string | null | undefined) => {
+  if (!s) return null;
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? undefined : d;
+};
+
+/** Validate and normalize a create/update body; scope-specific fields not used by the scope are cleared. */
+async function toData(
+  b: PromotionBody,
+): Promise<{ data: Omit<Prisma.PromotionUncheckedCreateInput, 'userId'> } | { error: string }> {
+  const name = String(b.name ?? '').trim();
+  if (!name) return { error: 'name required' };
+  if (!b.scope || !SCOPES.includes(b.scope)) return { error: 'scope must be ALL, MEDICINE, MANUFACTURER or EXPIRING' };
+
+  const discountErr = validateDiscount({ type: b.discountType, value: b.value });
+  if (discountErr) return { error: discountErr };
+  if (!b.value) return { error: 'value must be greater than 0' };
+
+  let medicineId: number | null = null;
+  let manufacturer: string | null = null;
+  let expiringWithinDays: number | null = null;
+
+  if (b.scope === 'MEDICINE') {
+    if (!Number.isInteger(b.medicineId)) return { error: 'medicineId required for MEDICINE scope' };
+    const med = await prisma.medicine.findUnique({ where: { id: b.medicineId! }, select: { id: true } });
+    if (!med) return { error: `Medicine ${b.medicineId} not found` };
+    medicineId = med.id;
+  } else if (b.scope === 'MANUFACTURER') {
+    manufacturer = String(b.manufacturer ?? '').trim();
+    if (!manufacturer) return { error: 'manufacturer required for MANUFACTURER scope' };
+  } else if (b.scope === 'EXPIRING') {
+    if (!Number.isInteger(b.expiringWithinDays) || b.expiringWithinDays! < 0) {
+      return { error: 'expiringWithinDays required for EXPIRING scope' };
+    }
+    expiringWithinDays = b.expiringWithinDays!;
+  }
+
+  const startsAt = toDate(b.startsAt);
+  const endsAt = toDate(b.endsAt);
+  if (startsAt === undefined || endsAt === undefined) return { error: 'Invalid startsAt/endsAt' };
+  if (startsAt && endsAt && endsAt < startsAt) return { error: 'endsAt must be after startsAt' };
+
+  return {
+    data: {
+      name,
+      scope: b.scope,
+      discountType: b.discountType!,
+      value: new Prisma.Decimal(b.value),
+      medicineId,
+      manufacturer,
+      expiringWithinDays,
+      startsAt,
+      endsAt,
+      isActive: b.isActive ?? true,
+    },
+  };
+}
+
+function toItem(p: Prisma.PromotionGetPayload<{ include: { medicine: { select: { name: true } } } }>) {
+  return {
+    id: p.id,
+    name: p.name,
+    scope: p.scope,
+    discountType: p.discountType,
+    value: Number(p.value),
+    medicineId: p.medicineId,
+    medicineName: p.medicine?.name ?? null,
+    manufacturer: p.manufacturer,
+    expiringWithinDays: p.expiringWithinDays,
+    startsAt: p.startsAt?.toISOString() ?? null,
+    endsAt: p.endsAt?.toISOString() ?? null,
+    isActive: p.isActive,
+  };
+}
+
+const include = { medicine: { select: { name: true } } } satisfies Prisma.PromotionInclude;
+
+/** GET /api/promotions -> all promotions, newest first */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const rows = await prisma.promotion.findMany({ where: { userId }, orderBy: { createdAt: 'desc' }, include });
+    return NextResponse.json({ items: rows.map(toItem) });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    console.error('GET /api/promotions error:', e);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** POST /api/promotions { name, scope, discountType, value, medicineId?, manufacturer?, expiringWithinDays?, startsAt?, endsAt? } */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const parsed = await toData((await req.json()) as PromotionBody);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const created = await prisma.promotion.create({ data: { ...parsed.data, userId }, include });
+    return NextResponse.json({ item: toItem(created) }, { status: 201 });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    console.error('POST /api/promotions error:', e);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** PUT /api/promotions?id=  (full body, same as POST) */
+export async function PUT(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const id = Number(new URL(req.url).searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id required' }, { status: 400 });
+
+    const existing = await prisma.promotion.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!existing) return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+
+    const parsed = await toData((await req.json()) as PromotionBody);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+    const updated = await prisma.promotion.update({ where: { id }, data: parsed.data, include });
+    return NextResponse.json({ item: toItem(updated) });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    console.error('PUT /api/promotions error:', e);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+/** DELETE /api/promotions?id=  (sales that used it keep their discount; the link is cleared) */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const id = Number(new URL(req.url).searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id required' }, { status: 400 });
+
+    const res = await prisma.promotion.deleteMany({ where: { id, userId } });
+    if (res.count === 0) return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    console.error('DELETE /api/promotions error:', e);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+// app/api/reports/narcotics/route.ts
+import type { ApiNarcoticRegister, NarcoticEntryRow, ScheduledMedicine } from '@/types/reports';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ymd = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * GET /api/reports/narcotics?medicineId=&from=&to=
+ * The controlled-substance register of one scheduled medicine over a date range (default: this
+ * month), oldest entry first, with the balance carried in from before the range.
+ * `medicines` lists every scheduled medicine this user stocks or has registered, for the picker;
+ * without `medicineId` the first of them is shown.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const { searchParams } = new URL(req.url);
+
+    const fromStr = (searchParams.get('from') ?? '').trim();
+    const toStr = (searchParams.get('to') ?? '').trim();
+    const today = new Date();
+    const from = fromStr ? new Date(fromStr) : new Date(today.getFullYear(), today.getMonth(), 1);
+    const to = toStr ? new Date(toStr) : today;
+    const toEnd = new Date(to);
+    toEnd.setHours(23, 59, 59, 999);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(toEnd.getTime())) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const scheduled = await prisma.medicine.findMany({
+      where: {
+        schedule: { not: null },
+        OR: [{ batches: { some: { userId } } }, { register: { some: { userId } } }],
+      },
+      select: { id: true, name: true, schedule: true },
+      orderBy: { name: 'asc' },
+    });
+    const medicines: ScheduledMedicine[] = scheduled.flatMap((m) =>
+      m.schedule ? [{ id: m.id, name: m.name, schedule: m.schedule }] : [],
+    );
+
+    const wanted = Number(searchParams.get('medicineId'));
+    const medicine = (searchParams.has('medicineId') ? medicines.find((m) => m.id === wanted) : medicines[0]) ?? null;
+    if (searchParams.has('medicineId') && !medicine) {
+      return NextResponse.json({ error: `Scheduled medicine ${searchParams.get('medicineId')} not found` }, { status: 400 });
+    }
+
+    const out: ApiNarcoticRegister = {
+      medicines,
+      medicine,
+      from: ymd(from),
+      to: ymd(to),
+      opening: null,
+      closing: null,
+      dispensed: 0,
+      returned: 0,
+      received: 0,
+      adjusted: 0,
+      items: [],
+    };
+    if (!medicine) return NextResponse.json(out);
+
+    const [before, rows] = await Promise.all([
+      prisma.narcoticEntry.findFirst({
+        where: { userId, medicineId: medicine.id, createdAt: { lt: from } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: { balance: true },
+      }),
+      prisma.narcoticEntry.findMany({
+        where: { userId, medicineId: medicine.id, createdAt: { gte: from, lte: toEnd } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    out.items = rows.map(
+      (r): NarcoticEntryRow => ({
+        id: r.id,
+        at: r.createdAt.toISOString(),
+        kind: r.kind,
+        batchNo: r.batchNo,
+        qty: r.qty,
+        balance: r.balance,
+        saleId: r.saleId,
+        patientName: r.patientName,
+        patientAge: r.patientAge,
+        prescriberName: r.prescriberName,
+        nmcNumber: r.nmcNumber,
+        createdBy: r.createdBy,
+      }),
+    );
+    out.opening = before?.balance ?? null;
+    out.closing = out.items.length ? out.items[out.items.length - 1].balance : out.opening;
+    for (const i of out.items) {
+      if (i.kind === 'DISPENSED') out.dispensed += i.qty;
+      else if (i.kind === 'RECEIVED') out.received += i.qty;
+      else if (i.kind === 'ADJUSTED') out.adjusted += i.qty;
+      else out.returned += i.qty;
+    }
+    return NextResponse.json(out);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/reports/narcotics error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
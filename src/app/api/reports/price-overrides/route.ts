@@ -0,0 +1,84 @@
+// app/api/reports/price-overrides/route.ts
+import type { ApiPriceOverrides, PriceOverrideCashier } from '@/types/reports';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ymd = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * GET /api/reports/price-overrides?from=&to=
+ * Every sale line sold at an overridden price over a date range (default: this month), grouped
+ * by the cashier who overrode it (the pharmacy account when unknown), newest first, with the
+ * original and new price, reason and approver. Voided sales are listed but left out of totals.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const { searchParams } = new URL(req.url);
+
+    const fromStr = (searchParams.get('from') ?? '').trim();
+    const toStr = (searchParams.get('to') ?? '').trim();
+    const today = new Date();
+    const from = fromStr ? new Date(fromStr) : new Date(today.getFullYear(), today.getMonth(), 1);
+    const to = toStr ? new Date(toStr) : today;
+    const toEnd = new Date(to);
+    toEnd.setHours(23, 59, 59, 999);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(toEnd.getTime())) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const lines = await prisma.saleLine.findMany({
+      where: {
+        originalPrice: { not: null },
+        sale: { userId, createdAt: { gte: from, lte: toEnd } },
+      },
+      include: { sale: { select: { id: true, createdAt: true, voidedAt: true, user: { select: { email: true } } } } },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+
+    const out: ApiPriceOverrides = { from: ymd(from), to: ymd(to), count: 0, reduction: 0, cashiers: [] };
+    const byCashier = new Map<string, PriceOverrideCashier>();
+    for (const l of lines) {
+      const cashier = l.priceBy ?? l.sale.user.email;
+      const row = byCashier.get(cashier) ?? { cashier, count: 0, reduction: 0, items: [] };
+      byCashier.set(cashier, row);
+
+      const originalPrice = Number(l.originalPrice ?? 0);
+      const price = Number(l.price);
+      const reduction = Math.round((originalPrice - price) * l.sellQty * 100) / 100;
+      const voided = l.sale.voidedAt != null;
+      row.items.push({
+        lineId: l.id,
+        saleId: l.sale.id,
+        at: l.sale.createdAt.toISOString(),
+        voided,
+        name: l.name,
+        batchNo: l.batchNo,
+        sellUnit: l.sellUnit,
+        sellQty: l.sellQty,
+        originalPrice,
+        price,
+        reduction,
+        reason: l.priceReason,
+        approver: l.priceApprover,
+      });
+      if (voided) continue;
+      row.count += 1;
+      row.reduction += reduction;
+      out.count += 1;
+      out.reduction += reduction;
+    }
+    out.cashiers = Array.from(byCashier.values()).sort((a, b) => b.reduction - a.reduction);
+    return NextResponse.json(out);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/reports/price-overrides error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,83 @@
+// app/api/reports/receivables/route.ts
+import type { ApiReceivables, AgingBuckets, ReceivableRow } from '@/types/reports';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { loadReceivables } from '@/lib/sales/credit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * GET /api/reports/receivables
+ * Every customer who still owes credit, largest balance first, with 0–30 / 31–60 / 60+ day aging.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const now = new Date();
+    const open = (await loadReceivables(prisma, userId, undefined, now)).filter((r) => r.balance > 0);
+
+    const ids = open.map((r) => r.customerId);
+    const [customers, lastRepayments] = await Promise.all([
+      prisma.customer.findMany({
+        where: { userId, id: { in: ids } },
+        select: { id: true, name: true, phone: true, creditLimit: true },
+      }),
+      prisma.creditRepayment.groupBy({
+        by: ['customerId'],
+        where: { userId, customerId: { in: ids } },
+        _max: { createdAt: true },
+      }),
+    ]);
+    const byId = new Map(customers.map((c) => [c.id, c]));
+    const lastPaid = new Map(lastRepayments.map((r) => [r.customerId, r._max.createdAt]));
+
+    const items: ReceivableRow[] = open
+      .flatMap((r) => {
+        const c = byId.get(r.customerId);
+        if (!c) return [];
+        return [
+          {
+            customerId: c.id,
+            name: c.name,
+            phone: c.phone,
+            creditLimit: c.creditLimit == null ? null : Number(c.creditLimit),
+            balance: r.balance,
+            buckets: r.buckets,
+            openSales: r.invoices.length,
+            oldestAt: r.invoices[0]?.createdAt.toISOString() ?? null,
+            lastRepaymentAt: lastPaid.get(r.customerId)?.toISOString() ?? null,
+          },
+        ];
+      })
+      .sort((a, b) => b.balance - a.balance);
+
+    const buckets: AgingBuckets = { d0_30: 0, d31_60: 0, d60plus: 0 };
+    let balance = 0;
+    for (const i of items) {
+      balance += i.balance;
+      buckets.d0_30 += i.buckets.d0_30;
+      buckets.d31_60 += i.buckets.d31_60;
+      buckets.d60plus += i.buckets.d60plus;
+    }
+
+    const out: ApiReceivables = {
+      asOf: now.toISOString(),
+      items,
+      totals: {
+        balance: round2(balance),
+        buckets: { d0_30: round2(buckets.d0_30), d31_60: round2(buckets.d31_60), d60plus: round2(buckets.d60plus) },
+        customers: items.length,
+      },
+    };
+    return NextResponse.json(out);
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/reports/receivables error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -2,6 +2,8 @@
 import type { Summary, AlertRow, ApiReports } from '@/types/reports';
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import type { PaymentMethod } from '@prisma/client';
+import { PAYMENT_LABELS, PAYMENT_METHODS } from '@/lib/sales/payments';
 
 export const runtime = 'nodejs';
 
@@ -35,6 +37,9 @@ const toNum = (x: unknown): number => {
   return Number.isNaN(parsed) ? 0 : parsed;
 };
 
+// VAT figures go to the tax return, so keep paisa instead of rounding to whole rupees
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
 export async function GET(req: NextRequest) {
   try {
     const userId = await resolveUserId(req);
@@ -49,77 +54,157 @@ export async function GET(req: NextRequest) {
     const toEnd = new Date(to);
     toEnd.setHours(23, 59, 59, 999);
 
-    // --- Sales (MTD) ---
+    // --- Sales (MTD, voided sales excluded) ---
     const salesMTD = await prisma.sale.findMany({
-      where: { userId, createdAt: { gte: from, lte: toEnd } },
-      select: { id: true, total: true, createdAt: true, lines: true },
+      where: { userId, voidedAt: null, createdAt: { gte: from, lte: toEnd } },
+      select: {
+        id: true,
+        subtotal: true,
+        discount: true,
+        total: true,
+        taxableAmount: true,
+        taxAmount: true,
+        exemptAmount: true,
+        createdAt: true,
+        lines: { include: { medicine: { select: { manufacturer: true } } } },
+        payments: { select: { method: true, amount: true } },
+      },
       orderBy: { createdAt: 'asc' },
     });
 
-    // collect all batchNos used to estimate cost -> profit
-    const batchNos = Array.from(new Set(salesMTD.flatMap((s) => s.lines.map((l) => l.batchNo))));
-    const batches = batchNos.length
-      ? await prisma.inventoryBatch.findMany({
-          where: { userId, batchNo: { in: batchNos } },
+    // --- Returns (netted out of revenue/profit on the day they happen) ---
+    const trendSince = new Date();
+    trendSince.setDate(trendSince.getDate() - 13);
+    trendSince.setHours(0, 0, 0, 0);
+    const returnsFrom = trendSince < from ? trendSince : from;
+    const returns = await prisma.saleReturn.findMany({
+      where: { sale: { userId }, createdAt: { gte: returnsFrom } },
+      select: {
+        createdAt: true,
+        payments: { select: { method: true, amount: true } },
+        lines: {
           select: {
-            batchNo: true,
-            costPrice: true,
-            mrp: true,
-            medicine: { select: { manufacturer: true } },
+            qty: true,
+            amount: true,
+            restocked: true,
+            saleLine: {
+              select: { unitCost: true, lineTotal: true, taxableAmount: true, taxAmount: true, exemptAmount: true },
+            },
           },
-        })
-      : [];
-    const costMap = new Map<string, number>(batches.map((b) => [b.batchNo, toNum(b.costPrice)]));
-    const manuMap = new Map<string, string | null>(
-      batches.map((b) => [b.batchNo, b.medicine?.manufacturer ?? null])
-    );
+        },
+      },
+    });
+
+    // profit uses the cost snapshotted on each line at sale time, so later cost edits don't rewrite history
+    const lineProfit = (l: { lineTotal: unknown; unitCost: unknown; qty: number }) =>
+      toNum(l.lineTotal) - toNum(l.unitCost) * l.qty;
 
-    // compute MTD revenue/profit/orders
+    // compute MTD revenue/profit/orders; revenue is net of discounts, gross is before them
+    let gross = 0;
+    let discounts = 0;
     let revenue = 0;
     let profit = 0;
+    const tax = { taxable: 0, tax: 0, exempt: 0 };
     for (const s of salesMTD) {
+      gross += toNum(s.subtotal);
+      discounts += toNum(s.discount);
       revenue += toNum(s.total);
-      for (const l of s.lines) {
-        const cp = costMap.get(l.batchNo) ?? 0;
-        profit += (toNum(l.price) - cp) * l.qty;
-      }
+      tax.taxable += toNum(s.taxableAmount);
+      tax.tax += toNum(s.taxAmount);
+      tax.exempt += toNum(s.exemptAmount);
+      for (const l of s.lines) profit += lineProfit(l);
+    }
+    // a return takes back the value of its lines, however it was paid back (money or points)
+    const returnValue = (r: (typeof returns)[number]) => r.lines.reduce((a, l) => a + toNum(l.amount), 0);
+    // restocked units keep their cost in inventory; units not restocked are a full loss
+    const returnProfit = (r: (typeof returns)[number]) =>
+      r.lines.reduce(
+        (a, l) => a + toNum(l.amount) - (l.restocked ? toNum(l.saleLine.unitCost) * l.qty : 0),
+        0
+      );
+    // refunds give back the same share of each line's taxable/VAT/exempt amounts
+    const returnTax = (r: (typeof returns)[number]) =>
+      r.lines.reduce(
+        (a, l) => {
+          const lineTotal = toNum(l.saleLine.lineTotal);
+          const share = lineTotal > 0 ? toNum(l.amount) / lineTotal : 0;
+          a.taxable += toNum(l.saleLine.taxableAmount) * share;
+          a.tax += toNum(l.saleLine.taxAmount) * share;
+          a.exempt += toNum(l.saleLine.exemptAmount) * share;
+          return a;
+        },
+        { taxable: 0, tax: 0, exempt: 0 }
+      );
+    for (const r of returns) {
+      if (r.createdAt < from || r.createdAt > toEnd) continue;
+      revenue -= returnValue(r);
+      profit -= returnProfit(r);
+      const rt = returnTax(r);
+      tax.taxable -= rt.taxable;
+      tax.tax -= rt.tax;
+      tax.exempt -= rt.exempt;
     }
     const orders = salesMTD.length;
 
-    // --- Trend: last 14 days ---
-    const since = new Date();
-    since.setDate(since.getDate() - 13);
-    since.setHours(0, 0, 0, 0);
+    // --- Revenue by payment method; a refund comes off each tender it went back on ---
+    const byMethod = {} as Record<PaymentMethod, { amount: number; count: number }>;
+    for (const m of PAYMENT_METHODS) byMethod[m] = { amount: 0, count: 0 };
+    for (const s of salesMTD) {
+      for (const p of s.payments) {
+        byMethod[p.method].amount += toNum(p.amount);
+        byMethod[p.method].count += 1;
+      }
+    }
+    for (const r of returns) {
+      if (r.createdAt < from || r.createdAt > toEnd) continue;
+      for (const p of r.payments) byMethod[p.method].amount -= toNum(p.amount);
+    }
 
+    // --- Trend: last 14 days ---
     const sales14 = await prisma.sale.findMany({
-      where: { userId, createdAt: { gte: since } },
-      select: { total: true, createdAt: true, lines: true },
+      where: { userId, voidedAt: null, createdAt: { gte: trendSince } },
+      select: { total: true, taxableAmount: true, taxAmount: true, exemptAmount: true, createdAt: true, lines: true },
       orderBy: { createdAt: 'asc' },
     });
 
     const dayKey = (d: Date) =>
       new Date(d.getFullYear(), d.getMonth(), d.getDate()).toISOString().slice(0, 10);
-    const trendMap = new Map<string, { sales: number; profit: number }>();
+    type Bucket = { sales: number; profit: number; taxable: number; tax: number; exempt: number };
+    const emptyBucket = (): Bucket => ({ sales: 0, profit: 0, taxable: 0, tax: 0, exempt: 0 });
+    const trendMap = new Map<string, Bucket>();
     // seed 14 days
     for (let i = 0; i < 14; i++) {
       const d = new Date();
       d.setDate(d.getDate() - (13 - i));
-      trendMap.set(dayKey(d), { sales: 0, profit: 0 });
+      trendMap.set(dayKey(d), emptyBucket());
     }
     for (const s of sales14) {
       const key = dayKey(s.createdAt);
-      const bucket = trendMap.get(key) ?? { sales: 0, profit: 0 };
+      const bucket = trendMap.get(key) ?? emptyBucket();
       bucket.sales += toNum(s.total);
-      for (const l of s.lines) {
-        const cp = costMap.get(l.batchNo) ?? 0;
-        bucket.profit += (toNum(l.price) - cp) * l.qty;
-      }
+      bucket.taxable += toNum(s.taxableAmount);
+      bucket.tax += toNum(s.taxAmount);
+      bucket.exempt += toNum(s.exemptAmount);
+      for (const l of s.lines) bucket.profit += lineProfit(l);
       trendMap.set(key, bucket);
     }
+    for (const r of returns) {
+      const bucket = trendMap.get(dayKey(r.createdAt));
+      if (!bucket) continue;
+      bucket.sales -= returnValue(r);
+      bucket.profit -= returnProfit(r);
+      const rt = returnTax(r);
+      bucket.taxable -= rt.taxable;
+      bucket.tax -= rt.tax;
+      bucket.exempt -= rt.exempt;
+    }
     const trend = Array.from(trendMap.entries()).map(([k, v]) => ({
       date: new Date(k).toLocaleDateString(),
       sales: Math.round(v.sales),
       profit: Math.round(v.profit),
+      taxable: round2(v.taxable),
+      tax: round2(v.tax),
+      exempt: round2(v.exempt),
     }));
 
     // --- Inventory balance ---
@@ -179,7 +264,7 @@ export async function GET(req: NextRequest) {
     const manuAgg = new Map<string, number>();
     for (const s of salesMTD) {
       for (const l of s.lines) {
-        const manu = (manuMap.get(l.batchNo) || 'Other') as string;
+        const manu = l.medicine?.manufacturer || 'Other';
         manuAgg.set(manu, (manuAgg.get(manu) ?? 0) + toNum(l.lineTotal));
       }
     }
@@ -189,10 +274,19 @@ export async function GET(req: NextRequest) {
       .map(([name, val]) => ({ name, value: Math.round(val) }));
 
     const summary: Summary = {
+      gross: Math.round(gross),
+      discounts: Math.round(discounts),
       revenue: Math.round(revenue),
       profit: Math.round(profit),
       orders,
       items: inventoryItems,
+      tax: { taxable: round2(tax.taxable), tax: round2(tax.tax), exempt: round2(tax.exempt) },
+      payments: PAYMENT_METHODS.map((method) => ({
+        method,
+        label: PAYMENT_LABELS[method],
+        amount: round2(byMethod[method].amount),
+        count: byMethod[method].count,
+      })),
     };
 
     return NextResponse.json(
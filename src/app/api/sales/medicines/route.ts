@@ -0,0 +1,82 @@
+// app/api/sales/medicines/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { BATCH_WITH_MEDICINE, FEFO_ORDER, sellableBatchWhere } from '@/lib/sales/fefo';
+import { sellUnitOptions } from '@/lib/sales/units';
+import type { SellUnitOption } from '@/lib/sales/units';
+import type { DrugSchedule } from '@prisma/client';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sales/medicines?q=
+ * Sell-by-medicine list: sellable stock per medicine (expired / EXPIRED batches left out),
+ * with the price and expiry of the batch FEFO would pick first. `qty` is in base units (`base`),
+ * `units` lists the pack sizes it can be sold in and their prices.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const q = (new URL(req.url).searchParams.get('q') ?? '').trim();
+
+    const batches = await prisma.inventoryBatch.findMany({
+      where: {
+        ...sellableBatchWhere(userId),
+        ...(q ? { medicine: { is: { name: { contains: q, mode: 'insensitive' } } } } : {}),
+      },
+      include: BATCH_WITH_MEDICINE,
+      orderBy: FEFO_ORDER,
+      take: 500,
+    });
+
+    type Row = {
+      medicineId: number;
+      name: string;
+      qty: number;
+      batches: number;
+      price: number;
+      base: string;
+      units: SellUnitOption[];
+      nextBatchNo: string;
+      nextExpiry: string | null;
+      prescriptionOnly: boolean;
+      schedule: DrugSchedule | null;
+    };
+    const byMedicine = new Map<number, Row>();
+    for (const b of batches) {
+      const row = byMedicine.get(b.medicineId);
+      if (row) {
+        row.qty += b.qtyAvailable;
+        row.batches += 1;
+        continue;
+      }
+      // first hit per medicine is the FEFO pick (batches come sorted)
+      const { base, units } = sellUnitOptions(b.medicine, b.mrp ?? b.medicine?.mrp ?? 0);
+      byMedicine.set(b.medicineId, {
+        medicineId: b.medicineId,
+        name: b.medicine?.name ?? b.batchNo,
+        qty: b.qtyAvailable,
+        batches: 1,
+        price: units.find((u) => u.unit === 'UNIT')?.price ?? 0,
+        base,
+        units,
+        nextBatchNo: b.batchNo,
+        nextExpiry: b.expiryDate ? b.expiryDate.toISOString().slice(0, 10) : null,
+        prescriptionOnly: b.medicine?.prescriptionOnly ?? false,
+        schedule: b.medicine?.schedule ?? null,
+      });
+    }
+
+    const items = Array.from(byMedicine.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, 50);
+    return NextResponse.json({ items });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/sales/medicines error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
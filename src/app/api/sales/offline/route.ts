@@ -0,0 +1,48 @@
+// app/api/sales/offline/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { BATCH_WITH_MEDICINE, FEFO_ORDER, sellableBatchWhere } from '@/lib/sales/fefo';
+import { sellUnitOptions } from '@/lib/sales/units';
+import type { OfflineBatch } from '@/lib/offline/pos';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sales/offline
+ * Every sellable batch, FEFO ordered, for the sell screen's offline snapshot (IndexedDB).
+ * While the server is unreachable the screen searches and sells from this copy and queues
+ * the sales; /api/sales re-checks stock and prices when they are replayed.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const batches = await prisma.inventoryBatch.findMany({
+      where: sellableBatchWhere(userId),
+      include: BATCH_WITH_MEDICINE,
+      orderBy: FEFO_ORDER,
+    });
+
+    const items: OfflineBatch[] = batches.map((b) => {
+      const { base, units } = sellUnitOptions(b.medicine, b.mrp ?? b.medicine?.mrp ?? 0);
+      return {
+        id: b.batchNo,
+        medicineId: b.medicineId,
+        name: b.medicine?.name ?? b.batchNo,
+        expiryDate: b.expiryDate ? b.expiryDate.toISOString().slice(0, 10) : null,
+        qty: b.qtyAvailable,
+        prescriptionOnly: b.medicine?.prescriptionOnly ?? false,
+        schedule: b.medicine?.schedule ?? null,
+        base,
+        units,
+      };
+    });
+    return NextResponse.json({ items, savedAt: new Date().toISOString() });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/sales/offline error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
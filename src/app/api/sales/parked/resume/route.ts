@@ -0,0 +1,37 @@
+// app/api/sales/parked/resume/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { releaseExpiredCarts, releaseParkedCart } from '@/lib/sales/parked';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/sales/parked/resume  { id }
+ * Takes a cart off hold on this terminal: reserved stock goes back on the shelves (checkout
+ * takes it again) and the parked cart is deleted, so two terminals can't resume the same cart.
+ * Returns { cart, snapshot } to rebuild the sell window.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const b = (await req.json()) as { id?: unknown } | null;
+    if (!Number.isInteger(b?.id)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+    const id = b?.id as number;
+
+    const resumed = await prisma.$transaction(async (tx) => {
+      await releaseExpiredCarts(tx, userId);
+      const cart = await tx.parkedCart.findFirst({ where: { id, userId }, select: { id: true } });
+      if (!cart) throw new Error(`Parked cart ${id} not found (it may have expired or been resumed elsewhere)`);
+      return releaseParkedCart(tx, cart.id);
+    });
+
+    return NextResponse.json({ ok: true, label: resumed.label, cart: resumed.cart, snapshot: resumed.snapshot });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /already resumed/i.test(msg) ? 409 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/sales/parked/resume error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,135 @@
+// app/api/sales/parked/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { parseCart, priceCart } from '@/lib/sales/pricing';
+import { parkedCartTtlMinutes, releaseExpiredCarts, releaseParkedCart, reserveStock } from '@/lib/sales/parked';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type ParkBody = {
+  label?: unknown;
+  cart?: { customerId?: unknown; prescriptionId?: unknown } & Record<string, unknown>;
+  snapshot?: unknown;
+  reserve?: unknown;
+};
+
+const errorResponse = (e: unknown, where: string) => {
+  const msg = e instanceof Error ? e.message : 'Server error';
+  const status = /Insufficient stock|already resumed/i.test(msg)
+    ? 409
+    : /^Invalid unit|^Price override|not found|No users exist|seed/i.test(msg)
+    ? 400
+    : 500;
+  console.error(`${where} error:`, e);
+  return NextResponse.json({ error: msg }, { status });
+};
+
+/**
+ * GET /api/sales/parked → carts on hold for this pharmacy (any terminal), newest first.
+ * Expired carts are released (reserved stock back on the shelf) before listing.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const carts = await prisma.$transaction(async (tx) => {
+      await releaseExpiredCarts(tx, userId);
+      return tx.parkedCart.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    });
+
+    const customerIds = carts
+      .map((c) => (c.cart as { customerId?: unknown } | null)?.customerId)
+      .filter((id): id is number => Number.isInteger(id));
+    const customers = customerIds.length
+      ? await prisma.customer.findMany({ where: { userId, id: { in: customerIds } }, select: { id: true, name: true } })
+      : [];
+    const customerName = new Map(customers.map((c) => [c.id, c.name]));
+
+    return NextResponse.json({
+      items: carts.map((c) => ({
+        id: c.id,
+        label: c.label,
+        itemCount: c.itemCount,
+        total: Number(c.total),
+        reserved: c.reserved,
+        customer: customerName.get((c.cart as { customerId?: number } | null)?.customerId ?? -1) ?? null,
+        createdAt: c.createdAt.toISOString(),
+        expiresAt: c.expiresAt.toISOString(),
+      })),
+    });
+  } catch (e) {
+    return errorResponse(e, 'GET /api/sales/parked');
+  }
+}
+
+/**
+ * POST /api/sales/parked
+ * { label, cart: { lines, billDiscount?, customerId?, prescriptionId? }, snapshot: {...}, reserve? }
+ * Puts the cart on hold until the pharmacy's parked-cart expiry. With `reserve` the stock is
+ * taken off the shelves now (FEFO picks are fixed at parking time) and given back on
+ * resume, discard or expiry.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const b = (await req.json()) as ParkBody | null;
+
+    const label = typeof b?.label === 'string' ? b.label.trim() : '';
+    if (!label) return NextResponse.json({ error: 'A label is required to park a cart' }, { status: 400 });
+    if (label.length > 60) return NextResponse.json({ error: 'Label is too long (max 60)' }, { status: 400 });
+    if (!b?.snapshot || typeof b.snapshot !== 'object') return NextResponse.json({ error: 'Invalid snapshot' }, { status: 400 });
+    const parsed = parseCart(b?.cart);
+    if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const customerId = b?.cart?.customerId ?? null;
+    const prescriptionId = b?.cart?.prescriptionId ?? null;
+    if ((customerId !== null && !Number.isInteger(customerId)) || (prescriptionId !== null && !Number.isInteger(prescriptionId))) {
+      return NextResponse.json({ error: 'Invalid customerId / prescriptionId' }, { status: 400 });
+    }
+    const reserve = b?.reserve === true;
+
+    const created = await prisma.$transaction(async (tx) => {
+      await releaseExpiredCarts(tx, userId);
+      const priced = await priceCart(tx, userId, parsed.cart);
+      const ttl = await parkedCartTtlMinutes(tx, userId);
+
+      const cart = await tx.parkedCart.create({
+        data: {
+          userId,
+          label,
+          cart: { ...parsed.cart, customerId, prescriptionId } as Prisma.InputJsonValue,
+          snapshot: b?.snapshot as Prisma.InputJsonValue,
+          itemCount: parsed.cart.lines.length,
+          total: priced.total,
+          reserved: reserve,
+          expiresAt: new Date(Date.now() + ttl * 60_000),
+        },
+      });
+      if (reserve) await reserveStock(tx, cart.id, priced.lines);
+      return cart;
+    });
+
+    return NextResponse.json({ ok: true, id: created.id, expiresAt: created.expiresAt.toISOString() });
+  } catch (e) {
+    return errorResponse(e, 'POST /api/sales/parked');
+  }
+}
+
+/** DELETE /api/sales/parked?id= → discard a parked cart, putting any reserved stock back */
+export async function DELETE(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const id = Number(new URL(req.url).searchParams.get('id'));
+    if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+
+    await prisma.$transaction(async (tx) => {
+      const cart = await tx.parkedCart.findFirst({ where: { id, userId }, select: { id: true } });
+      if (!cart) throw new Error(`Parked cart ${id} not found`);
+      await releaseParkedCart(tx, cart.id);
+    });
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return errorResponse(e, 'DELETE /api/sales/parked');
+  }
+}
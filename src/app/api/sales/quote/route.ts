@@ -0,0 +1,74 @@
+// app/api/sales/quote/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { parseCart, priceCart } from '@/lib/sales/pricing';
+import { checkCartSafety } from '@/lib/sales/safety';
+import { OVERRIDE_PERMISSION, overrideApprovalNeed, priceOverrideLimit } from '@/lib/sales/overrides';
+import { resolveActor } from '@/lib/permissions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/sales/quote  (same body as POST /api/sales)
+ * Prices the cart exactly like checkout would, without touching stock or recording anything.
+ * Sell-by-medicine lines come back as the batches checkout would pick (`pickedFefo`).
+ * `warnings` lists allergy (vs `customerId`'s allergies) and interaction warnings checkout will
+ * want an override reason for. A price-overridden line carries `originalPrice` and `approval`:
+ * why checkout will want a supervisor for it (null when the caller may approve it).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const body = (await req.json()) as { customerId?: unknown } | null;
+    const parsed = parseCart(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const priced = await priceCart(prisma, userId, parsed.cart);
+    const customerId = Number.isInteger(body?.customerId) ? (body?.customerId as number) : null;
+    const warnings = await checkCartSafety(prisma, userId, customerId, priced.lines);
+    const actor = await resolveActor(req);
+    const limit = priced.lines.some((l) => l.originalPrice) ? await priceOverrideLimit(prisma, userId) : 0;
+    const approval = (l: (typeof priced.lines)[number]) =>
+      actor?.permissions.has(OVERRIDE_PERMISSION) ? null : overrideApprovalNeed(l, limit);
+
+    return NextResponse.json({
+      subtotal: Number(priced.subtotal),
+      discount: Number(priced.discount),
+      billDiscountRule: priced.billDiscountRule,
+      total: Number(priced.total),
+      taxableAmount: Number(priced.taxableAmount),
+      taxAmount: Number(priced.taxAmount),
+      exemptAmount: Number(priced.exemptAmount),
+      lines: priced.lines.map((l) => ({
+        id: l.batchNo,
+        medicineId: l.medicineId,
+        pickedFefo: l.pickedFefo,
+        expiryDate: l.expiryDate ? l.expiryDate.toISOString().slice(0, 10) : null,
+        name: l.name,
+        qty: l.qty,
+        sellUnit: l.sellUnit,
+        sellQty: l.sellQty,
+        price: Number(l.price),
+        originalPrice: l.originalPrice ? Number(l.originalPrice) : null,
+        approval: approval(l),
+        gross: Number(l.gross),
+        discount: Number(l.discount),
+        discountRule: l.discountRule,
+        billDiscount: Number(l.billDiscount),
+        lineTotal: Number(l.lineTotal),
+        taxClass: l.taxClass,
+        taxAmount: Number(l.taxAmount),
+      })),
+      warnings,
+    });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /^Invalid unit|^Price override|not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/sales/quote error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
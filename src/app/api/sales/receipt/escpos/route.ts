@@ -0,0 +1,78 @@
+// app/api/sales/receipt/escpos/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveUserId } from '@/lib/sales/user';
+import { loadReceipt } from '@/lib/receipts/data';
+import { encodeReceiptEscPos, isPaperWidth } from '@/lib/receipts/escpos';
+import { configuredTransport } from '@/lib/receipts/transport';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type PrintBody = { saleId: number; width?: number };
+
+const errorResponse = (e: unknown, where: string) => {
+  const msg = e instanceof Error ? e.message : 'Server error';
+  const status = /^Sale \d+ not found/.test(msg)
+    ? 404
+    : /unreachable/i.test(msg)
+    ? 502
+    : /not configured|Invalid printer target/i.test(msg)
+    ? 503
+    : /not found|No users exist|seed/i.test(msg)
+    ? 400
+    : 500;
+  console.error(`${where} error:`, e);
+  return NextResponse.json({ error: msg }, { status });
+};
+
+/**
+ * GET /api/sales/receipt/escpos?saleId=12&width=58|80
+ * Raw ESC/POS bytes as a .bin download (send with `nc printer 9100 < file` or `copy /b`).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const sp = req.nextUrl.searchParams;
+    const saleId = Number(sp.get('saleId'));
+    const width = Number(sp.get('width') ?? 80);
+    if (!Number.isInteger(saleId) || saleId <= 0) {
+      return NextResponse.json({ error: 'saleId is required' }, { status: 400 });
+    }
+    if (!isPaperWidth(width)) return NextResponse.json({ error: 'width must be 58 or 80' }, { status: 400 });
+
+    const bytes = encodeReceiptEscPos(await loadReceipt(userId, saleId), width);
+    return new NextResponse(new Uint8Array(bytes), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="receipt-${saleId}-${width}mm.bin"`,
+        'Content-Length': String(bytes.length),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (e) {
+    return errorResponse(e, 'GET /api/sales/receipt/escpos');
+  }
+}
+
+/**
+ * POST /api/sales/receipt/escpos { saleId, width? }
+ * Sends the receipt to the printer configured in RECEIPT_PRINTER (TCP 9100 or a spool folder).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const body = (await req.json()) as PrintBody;
+    const width = body?.width ?? 80;
+    if (!body || !Number.isInteger(body.saleId) || !isPaperWidth(width)) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    const transport = configuredTransport();
+    const bytes = encodeReceiptEscPos(await loadReceipt(userId, body.saleId), width);
+    await transport.send(bytes, `receipt-${body.saleId}-${Date.now()}`);
+
+    return NextResponse.json({ ok: true, printer: transport.describe, bytes: bytes.length });
+  } catch (e) {
+    return errorResponse(e, 'POST /api/sales/receipt/escpos');
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/sales/receipt/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveUserId } from '@/lib/sales/user';
+import { isReceiptFormat, loadReceipt } from '@/lib/receipts/data';
+import { renderReceiptHtml } from '@/lib/receipts/html';
+import { renderReceiptPdf } from '@/lib/receipts/pdf';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/sales/receipt?saleId=12&format=a5|80mm&as=html|pdf&print=1&download=1
+ * Printable receipt / tax invoice for a recorded sale. HTML (default) is meant to be opened in a
+ * new window; `print=1` pops the print dialog. PDF is inline unless `download=1`.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const sp = req.nextUrl.searchParams;
+
+    const saleId = Number(sp.get('saleId'));
+    const format = sp.get('format') ?? '80mm';
+    const as = sp.get('as') ?? 'html';
+    if (!Number.isInteger(saleId) || saleId <= 0) {
+      return NextResponse.json({ error: 'saleId is required' }, { status: 400 });
+    }
+    if (!isReceiptFormat(format)) return NextResponse.json({ error: 'format must be a5 or 80mm' }, { status: 400 });
+    if (as !== 'html' && as !== 'pdf') return NextResponse.json({ error: 'as must be html or pdf' }, { status: 400 });
+
+    const receipt = await loadReceipt(userId, saleId);
+
+    if (as === 'pdf') {
+      const pdf = renderReceiptPdf(receipt, format);
+      const disposition = sp.get('download') === '1' ? 'attachment' : 'inline';
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `${disposition}; filename="invoice-${saleId}-${format}.pdf"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return new NextResponse(renderReceiptHtml(receipt, format, sp.get('print') === '1'), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /^Sale \d+ not found/.test(msg) ? 404 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/sales/receipt error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,210 @@
+// app/api/sales/returns/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { restockBatch } from '@/lib/sales/stock';
+import { lockSale } from '@/lib/sales/locks';
+import { recordNarcoticMovement } from '@/lib/sales/narcotics';
+import { reverseSalePoints } from '@/lib/sales/loyalty';
+import { capCreditRefund } from '@/lib/sales/credit';
+import { PAYMENT_LABELS, splitRefund } from '@/lib/sales/payments';
+import { resolveActor } from '@/lib/permissions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type ReturnLineInput = { saleLineId: number; qty: number; shelfId?: number | null };
+type ReturnBody = { saleId: number; reason?: string | null; lines: ReturnLineInput[] };
+
+/**
+ * POST /api/sales/returns
+ * { saleId, reason?, lines: [{ saleLineId, qty, shelfId? }] }
+ * Records a (partial) return against sale lines. Lines with a shelfId are restocked onto that shelf.
+ * Refunds are pro-rata of the recorded lineTotal, never client supplied, and go back over the sale's
+ * tenders in the proportion they paid it (`tenders`): cash handed back, card / wallet paid back,
+ * credit taken off what the customer owes (beyond that, cash), points given back. `refund` is the
+ * money side only: the share paid with points goes back as points, not counted in it again.
+ * Restocked scheduled medicines get a RETURNED entry in the controlled-substance register.
+ * Loyalty points earned on the returned lines are taken back, points spent on the sale given back.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const actor = await resolveActor(req);
+    const body = (await req.json()) as ReturnBody;
+
+    if (!body || !Number.isInteger(body.saleId) || !Array.isArray(body.lines) || body.lines.length === 0) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+    for (const l of body.lines) {
+      if (
+        !l ||
+        !Number.isInteger(l.saleLineId) ||
+        !Number.isInteger(l.qty) ||
+        l.qty <= 0 ||
+        (l.shelfId != null && !Number.isInteger(l.shelfId))
+      ) {
+        return NextResponse.json({ error: 'Invalid return line' }, { status: 400 });
+      }
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      // a concurrent return of the same sale waits here, then sees this one's return lines
+      await lockSale(tx, body.saleId);
+      const sale = await tx.sale.findFirst({
+        where: { id: body.saleId, userId },
+        include: {
+          lines: { include: { returnLines: true } },
+          payments: { select: { method: true, amount: true } },
+          returns: { select: { payments: { select: { method: true, amount: true } } } },
+        },
+      });
+      if (!sale) throw new Error(`Sale ${body.saleId} not found`);
+      if (sale.voidedAt) throw new Error(`Cannot return items of sale ${sale.id}: it was voided.`);
+
+      const lines: Prisma.SaleReturnLineCreateWithoutSaleReturnInput[] = [];
+      const taken = new Map<number, { qty: number; amount: Prisma.Decimal }>();
+      const restocked: Array<{ medicineId: number; batchNo: string; qty: number }> = [];
+      let returnedValue = new Prisma.Decimal(0);
+
+      for (const input of body.lines) {
+        const line = sale.lines.find((l) => l.id === input.saleLineId);
+        if (!line) throw new Error(`Sale line ${input.saleLineId} not found on sale ${sale.id}`);
+
+        // earlier returns + lines already in this request
+        const pending = taken.get(line.id) ?? { qty: 0, amount: new Prisma.Decimal(0) };
+        const alreadyQty = line.returnLines.reduce((a, r) => a + r.qty, 0) + pending.qty;
+        const alreadyAmount = line.returnLines.reduce((a, r) => a.add(r.amount), pending.amount);
+        const returnable = line.qty - alreadyQty;
+        if (input.qty > returnable) {
+          throw new Error(`Cannot return ${input.qty} of ${line.name}: only ${returnable} returnable.`);
+        }
+
+        // last units back take whatever is left of the line total, so rounding never drifts
+        const amount =
+          input.qty === returnable
+            ? line.lineTotal.sub(alreadyAmount)
+            : line.lineTotal.mul(input.qty).div(line.qty).toDecimalPlaces(2);
+        taken.set(line.id, { qty: pending.qty + input.qty, amount: pending.amount.add(amount) });
+
+        let shelf: { id: number; name: string } | null = null;
+        if (input.shelfId != null) {
+          shelf = await tx.pharmacyShelf.findFirst({
+            where: { id: input.shelfId, userId },
+            select: { id: true, name: true },
+          });
+          if (!shelf) throw new Error(`Shelf ${input.shelfId} not found`);
+
+          const batch =
+            line.batchId != null
+              ? await tx.inventoryBatch.findFirst({
+                  where: { id: line.batchId, userId },
+                  select: { id: true, medicineId: true },
+                })
+              : null;
+          if (!batch) {
+            throw new Error(`Batch ${line.batchNo} not found; return ${line.name} without restocking.`);
+          }
+          await restockBatch(tx, batch.id, input.qty, shelf, line.name);
+          restocked.push({ medicineId: batch.medicineId, batchNo: line.batchNo, qty: input.qty });
+        }
+
+        returnedValue = returnedValue.add(amount);
+        lines.push({
+          saleLine: { connect: { id: line.id } },
+          qty: input.qty,
+          amount,
+          restocked: !!shelf,
+          shelfName: shelf?.name ?? null,
+          shelfRefId: shelf?.id ?? null,
+        });
+      }
+
+      await recordNarcoticMovement(tx, userId, {
+        kind: 'RETURNED',
+        saleId: sale.id,
+        prescriptionId: sale.prescriptionId,
+        createdBy: actor?.email ?? null,
+        lines: restocked,
+      });
+
+      const before = sale.returns.flatMap((r) => r.payments);
+      const tenders = await capCreditRefund(tx, userId, sale.customerId, splitRefund(sale.total, sale.payments, before, returnedValue));
+      const refund = tenders.filter((t) => t.method !== 'POINTS').reduce((a, t) => a.add(t.amount), new Prisma.Decimal(0));
+
+      const saleReturn = await tx.saleReturn.create({
+        data: {
+          saleId: sale.id,
+          userId,
+          refund,
+          reason: typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null,
+          cashier: actor?.email ?? null,
+          lines: { create: lines },
+          payments: { create: tenders },
+        },
+        include: { payments: true },
+      });
+      await reverseSalePoints(tx, userId, sale.id, { returnId: saleReturn.id, createdBy: actor?.email ?? null });
+      return saleReturn;
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        id: created.id,
+        refund: Number(created.refund),
+        tenders: created.payments.map((p) => ({ method: p.method, label: PAYMENT_LABELS[p.method], amount: Number(p.amount) })),
+      },
+      { status: 201 },
+    );
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /Cannot return/i.test(msg) ? 409 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/sales/returns error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
+
+/** GET /api/sales/returns?saleId= */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const saleId = Number(new URL(req.url).searchParams.get('saleId'));
+    if (!Number.isInteger(saleId) || saleId <= 0) {
+      return NextResponse.json({ error: 'saleId required' }, { status: 400 });
+    }
+
+    const rows = await prisma.saleReturn.findMany({
+      where: { saleId, sale: { userId } },
+      orderBy: { createdAt: 'desc' },
+      include: { user: true, lines: { include: { saleLine: true } }, payments: true },
+    });
+
+    const items = rows.map((r) => ({
+      id: r.id,
+      saleId: r.saleId,
+      refund: Number(r.refund),
+      reason: r.reason,
+      createdAt: r.createdAt.toISOString(),
+      createdBy: r.cashier ?? r.user?.email ?? null,
+      tenders: r.payments.map((p) => ({ method: p.method, label: PAYMENT_LABELS[p.method], amount: Number(p.amount) })),
+      lines: r.lines.map((l) => ({
+        saleLineId: l.saleLineId,
+        batchNo: l.saleLine.batchNo,
+        name: l.saleLine.name,
+        qty: l.qty,
+        amount: Number(l.amount),
+        restocked: l.restocked,
+        shelfName: l.shelfName,
+      })),
+    }));
+
+    return NextResponse.json({ items });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/sales/returns error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
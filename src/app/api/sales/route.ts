@@ -1,6 +1,19 @@
 // app/api/sales/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient, Prisma } from '@prisma/client';
+import { resolveUserId } from '@/lib/sales/user';
+import { takeStock } from '@/lib/sales/stock';
+import { parseCart, priceCart } from '@/lib/sales/pricing';
+import { parsePayments, settlePayments } from '@/lib/sales/payments';
+import { assertCreditAllowed } from '@/lib/sales/credit';
+import { assertPrescriptionCovers } from '@/lib/sales/prescriptions';
+import { assertSafetyOverride, checkCartSafety } from '@/lib/sales/safety';
+import { recordNarcoticMovement } from '@/lib/sales/narcotics';
+import { approvePriceOverrides, isOverridePin } from '@/lib/sales/overrides';
+import { medicinesEarningPoints, recordSalePoints } from '@/lib/sales/loyalty';
+import { releaseExpiredCarts } from '@/lib/sales/parked';
+import { requireOpenShift, requireShiftAt } from '@/lib/sales/shifts';
+import { resolveActor } from '@/lib/permissions';
 
 export const runtime = 'nodejs';
 
@@ -13,89 +26,233 @@ const prisma =
   });
 if (process.env.NODE_ENV !== 'production') g.prisma = prisma;
 
-/** Resolve and VALIDATE the current user. Throws with a helpful message if missing. */
-async function resolveUserId(req: NextRequest): Promise<number> {
-  // 1) If client sends a header, use it (dev/testing)
-  const hdr = req.headers.get('x-user-id');
-  if (hdr && /^\d+$/.test(hdr)) {
-    const uid = Number(hdr);
-    const u = await prisma.user.findUnique({ where: { id: uid } });
-    if (!u) {
-      throw new Error(
-        `User with id=${uid} not found. Pass a valid x-user-id header, or run your seed so a user exists.`
-      );
-    }
-    return u.id;
-  }
-
-  // 2) Try the seeded owner
-  const owner = await prisma.user.findUnique({ where: { email: 'owner@example.com' } });
-  if (owner) return owner.id;
+type CreatedSale = Prisma.SaleGetPayload<{ include: { lines: true; payments: true } }>;
 
-  // 3) As a last resort, try "first user"
-  const anyUser = await prisma.user.findFirst({ orderBy: { id: 'asc' } });
-  if (anyUser) return anyUser.id;
-
-  // 4) Nothing found -> fail fast with clear message
-  throw new Error(
-    'No users exist. Run your seed (e.g. `node prisma/seed.js` or `npx prisma db seed`) or send a valid x-user-id header.'
-  );
+/** `Idempotency-Key` header, else `idempotencyKey` in the body; null when neither is sent */
+function readIdempotencyKey(req: NextRequest, fromBody: unknown): string | null | { error: string } {
+  const raw = req.headers.get('idempotency-key') ?? fromBody ?? null;
+  if (raw === null) return null;
+  const key = typeof raw === 'string' ? raw.trim() : '';
+  if (!/^[\w:-]{8,100}$/.test(key)) return { error: 'Invalid idempotency key' };
+  return key;
 }
 
-type PostLine = { id: string; name: string; price: number; qty: number; lineTotal: number };
-type PostBody = { total: number; lines: PostLine[] };
+function saleResult(sale: CreatedSale, replayed: boolean) {
+  return {
+    ok: true,
+    id: sale.id,
+    replayed,
+    subtotal: Number(sale.subtotal),
+    discount: Number(sale.discount),
+    total: Number(sale.total),
+    taxAmount: Number(sale.taxAmount),
+    changeDue: Number(sale.changeDue),
+    payments: sale.payments.map((p) => ({ method: p.method, amount: Number(p.amount) })),
+    lines: sale.lines.map((l) => ({
+      id: l.batchNo,
+      name: l.name,
+      qty: l.qty,
+      sellUnit: l.sellUnit,
+      sellQty: l.sellQty,
+      lineTotal: Number(l.lineTotal),
+    })),
+  };
+}
 
+/**
+ * POST /api/sales
+ * { lines: [{ id: batchNo, qty, unit?: PACK|STRIP|UNIT, discount?: { type, value }, priceOverride?: { price, reason } }
+ *           | { medicineId, qty, unit?, discount?, priceOverride? }],
+ *   billDiscount?: { type, value },
+ *   payments?: [{ method: CASH|CARD|QR_WALLET|CREDIT|POINTS, amount, reference?, provider? }], customerId?,
+ *   prescriptionId?, safetyOverride?: reason, overridePin?, idempotencyKey?, offlineAt? }
+ * Prices every line from the DB (best of manual discount / promotions, then the bill discount),
+ * decrements stock and records the Sale in ONE transaction. Client-side prices/totals are ignored.
+ * A `medicineId` line is filled from that medicine's batches first-expiry-first-out (expired ones
+ * skipped) and recorded as one SaleLine per batch used.
+ * `qty` counts `unit`s; packs/strips are converted to base units (tablets / bottles) with the
+ * medicine's pack facts, and stock is decremented in base units.
+ * Without `payments` the sale is settled as exact cash; with them, cash beyond what is due is change.
+ * CREDIT tender needs a customer and must keep them within their credit limit.
+ * POINTS tender spends the customer's loyalty points (whole points at the pharmacy's point value);
+ * a customer's sale earns points on its lines that are not prescription-only (see loyalty.ts).
+ * Prescription-only and scheduled (narcotic / psychotropic) medicines need a prescription attached;
+ * scheduled lines are written to the controlled-substance register with the patient and prescriber.
+ * Allergy / interaction warnings (see /api/sales/quote) need `safetyOverride`, stored with the warnings;
+ * allergy ones also need a seller holding OVERRIDE_ALLERGIES (a pharmacist).
+ * A price override below cost or beyond the pharmacy's limit needs a cashier holding OVERRIDE_PRICES
+ * or a supervisor's `overridePin`; original price, reason, cashier and approver go on the SaleLine.
+ * The cashier must have a cash shift open; the sale is recorded against it.
+ * An idempotency key (`Idempotency-Key` header or `idempotencyKey`, generated by the client once
+ * per checkout and resent on every retry, including queued offline sales) is stored on the sale;
+ * a request with a key already used returns that sale (`replayed: true`) without touching stock.
+ * A queued offline sale carries `offlineAt`, when it was made: the sale is dated then and goes in
+ * the shift open at that time, even if it has been closed since (its frozen cash count stays).
+ */
 export async function POST(req: NextRequest) {
   try {
     const userId = await resolveUserId(req);
-    const body = (await req.json()) as PostBody;
-
-    // Validate payload
-    if (
-      !body ||
-      !Number.isFinite(body.total) ||
-      !Array.isArray(body.lines) ||
-      body.lines.length === 0
-    ) {
-      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    const actor = await resolveActor(req);
+    const body = (await req.json()) as {
+      payments?: unknown;
+      customerId?: unknown;
+      prescriptionId?: unknown;
+      safetyOverride?: unknown;
+      overridePin?: unknown;
+      idempotencyKey?: unknown;
+      offlineAt?: unknown;
+    } | null;
+    const parsed = parseCart(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
-    for (const l of body.lines) {
-      if (
-        !l ||
-        typeof l.id !== 'string' ||
-        !l.id ||
-        typeof l.name !== 'string' ||
-        !Number.isFinite(l.price) ||
-        !Number.isInteger(l.qty) ||
-        !Number.isFinite(l.lineTotal)
-      ) {
-        return NextResponse.json({ error: 'Invalid line item' }, { status: 400 });
-      }
+    const tender = parsePayments(body?.payments);
+    if ('error' in tender) {
+      return NextResponse.json({ error: tender.error }, { status: 400 });
+    }
+    const rawCustomerId = body?.customerId ?? null;
+    if (rawCustomerId !== null && !Number.isInteger(rawCustomerId)) {
+      return NextResponse.json({ error: 'Invalid customerId' }, { status: 400 });
+    }
+    const customerId = rawCustomerId as number | null;
+    const rawPrescriptionId = body?.prescriptionId ?? null;
+    if (rawPrescriptionId !== null && !Number.isInteger(rawPrescriptionId)) {
+      return NextResponse.json({ error: 'Invalid prescriptionId' }, { status: 400 });
+    }
+    const prescriptionId = rawPrescriptionId as number | null;
+    const safetyOverride = typeof body?.safetyOverride === 'string' ? body.safetyOverride.trim() || null : null;
+    const overridePin = body?.overridePin ?? null;
+    if (overridePin !== null && !isOverridePin(overridePin)) {
+      return NextResponse.json({ error: 'Override PIN must be 6 to 8 digits (shorter PINs must be set again)' }, { status: 400 });
+    }
+    const idempotencyKey = readIdempotencyKey(req, body?.idempotencyKey);
+    if (idempotencyKey !== null && typeof idempotencyKey === 'object') {
+      return NextResponse.json({ error: idempotencyKey.error }, { status: 400 });
     }
 
-    // Create Sale + lines
-    type CreatedSale = Prisma.SaleGetPayload<{ include: { lines: true; user: true } }>;
-    const created: CreatedSale = await prisma.sale.create({
-      data: {
-        userId,
-        total: new Prisma.Decimal(body.total),
-        lines: {
-          create: body.lines.map((l) => ({
-            batchNo: l.id,
-            name: l.name,
-            price: new Prisma.Decimal(l.price),
-            qty: l.qty,
-            lineTotal: new Prisma.Decimal(l.lineTotal),
-          })),
+    const rawOfflineAt = body?.offlineAt ?? null;
+    const offlineAt = rawOfflineAt === null ? null : new Date(typeof rawOfflineAt === 'string' ? rawOfflineAt : NaN);
+    // a little clock drift between the device and the server is fine, a sale in the future is not
+    if (offlineAt && (Number.isNaN(offlineAt.getTime()) || offlineAt.getTime() > Date.now() + 5 * 60_000)) {
+      return NextResponse.json({ error: 'Invalid offlineAt' }, { status: 400 });
+    }
+    const soldAt = offlineAt && offlineAt.getTime() < Date.now() ? offlineAt : new Date();
+
+    const findReplay = () =>
+      idempotencyKey === null
+        ? null
+        : prisma.sale.findUnique({
+            where: { userId_idempotencyKey: { userId, idempotencyKey } },
+            include: { lines: true, payments: true },
+          });
+    const earlier = await findReplay();
+    if (earlier) return NextResponse.json(saleResult(earlier, true));
+
+    // Price, decrement stock + create Sale/SaleLines atomically
+    let replayed = false;
+    const created = await prisma.$transaction(async (tx) => {
+      const shift = offlineAt ? await requireShiftAt(tx, userId, soldAt) : await requireOpenShift(tx, userId);
+      await releaseExpiredCarts(tx, userId); // stock held by expired parked carts is sellable again
+      const priced = await priceCart(tx, userId, parsed.cart);
+      const settled = settlePayments(priced.total, tender.payments);
+
+      if (customerId !== null) {
+        const customer = await tx.customer.findFirst({ where: { id: customerId, userId }, select: { id: true } });
+        if (!customer) throw new Error(`Customer ${customerId} not found`);
+      }
+      const onCredit = settled.payments
+        .filter((p) => p.method === 'CREDIT')
+        .reduce((a, p) => a.add(p.amount), new Prisma.Decimal(0));
+      await assertCreditAllowed(tx, userId, customerId, onCredit);
+      await assertPrescriptionCovers(tx, userId, prescriptionId, priced.lines);
+      const warnings = await checkCartSafety(tx, userId, customerId, priced.lines);
+      assertSafetyOverride(warnings, safetyOverride, actor);
+      const approvers = await approvePriceOverrides(tx, userId, priced.lines, actor, overridePin);
+      const earning = await medicinesEarningPoints(tx, priced.lines.map((l) => l.medicineId));
+
+      for (const l of priced.lines) {
+        await takeStock(tx, l.batchId, l.qty, l.name);
+      }
+
+      const sale = await tx.sale.create({
+        data: {
+          userId,
+          customerId,
+          prescriptionId,
+          shiftId: shift.id,
+          safetyWarnings: warnings.length ? warnings : undefined,
+          safetyOverride: warnings.length ? safetyOverride : null,
+          idempotencyKey,
+          subtotal: priced.subtotal,
+          discount: priced.discount,
+          billDiscountRule: priced.billDiscountRule,
+          total: priced.total,
+          taxableAmount: priced.taxableAmount,
+          taxAmount: priced.taxAmount,
+          exemptAmount: priced.exemptAmount,
+          changeDue: settled.changeDue,
+          cashier: actor?.email ?? null,
+          createdAt: soldAt,
+          payments: { create: settled.payments },
+          lines: {
+            create: priced.lines.map((l) => ({
+              batchNo: l.batchNo,
+              batchId: l.batchId,
+              medicineId: l.medicineId,
+              unitCost: l.unitCost,
+              name: l.name,
+              price: l.price,
+              originalPrice: l.originalPrice,
+              priceReason: l.priceReason,
+              priceBy: l.originalPrice ? (actor?.email ?? null) : null,
+              priceApprover: approvers.get(l) ?? null,
+              earnsPoints: earning.has(l.medicineId),
+              qty: l.qty,
+              sellUnit: l.sellUnit,
+              sellQty: l.sellQty,
+              discount: l.discount,
+              discountRule: l.discountRule,
+              promotionId: l.promotionId,
+              billDiscount: l.billDiscount,
+              lineTotal: l.lineTotal,
+              taxClass: l.taxClass,
+              taxRate: l.taxRate,
+              taxableAmount: l.taxableAmount,
+              taxAmount: l.taxAmount,
+              exemptAmount: l.exemptAmount,
+            })),
+          },
         },
-      },
-      include: { lines: true, user: true },
+        include: { lines: true, payments: true },
+      });
+      await recordNarcoticMovement(tx, userId, {
+        kind: 'DISPENSED',
+        saleId: sale.id,
+        prescriptionId,
+        createdBy: actor?.email ?? null,
+        lines: priced.lines,
+      });
+      await recordSalePoints(tx, userId, sale, actor?.email ?? null, soldAt);
+      return sale;
+    }).catch(async (e: unknown) => {
+      // a concurrent retry with the same key committed first: answer with that sale
+      const raced =
+        e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002' ? await findReplay() : null;
+      if (!raced) throw e;
+      replayed = true;
+      return raced;
     });
 
-    return NextResponse.json({ ok: true, id: created.id });
+    return NextResponse.json(saleResult(created, replayed));
   } catch (e: unknown) {
     const msg = e instanceof Error ? e.message : 'Server error';
-    const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    const status = /Insufficient stock|^Credit limit exceeded|^Not enough loyalty points|^Prescription required|^No cash shift|^Safety warning/i.test(msg)
+      ? 409
+      : /^Supervisor/.test(msg)
+      ? 403
+      : /^Payment|^Invalid unit|^Price override|not found|No users exist|seed/i.test(msg)
+      ? 400
+      : 500;
     // eslint-disable-next-line no-console
     console.error('POST /api/sales error:', e);
     return NextResponse.json({ error: msg }, { status });
@@ -127,9 +284,15 @@ export async function GET(req: NextRequest) {
           }
         : { userId };
 
-    type SaleWithLinesUser = Prisma.SaleGetPayload<{
-      include: { lines: true; user: true };
-    }>;
+    const include = {
+      lines: { include: { returnLines: { select: { qty: true } } } },
+      user: true,
+      returns: { select: { refund: true } },
+      payments: { orderBy: { id: 'asc' } },
+      customer: { select: { id: true, name: true, phone: true } },
+      prescription: { select: { id: true, prescriberName: true, nmcNumber: true, patientName: true } },
+    } satisfies Prisma.SaleInclude;
+    type SaleWithLinesUser = Prisma.SaleGetPayload<{ include: typeof include }>;
 
     const [items, totalCount] = await Promise.all([
       prisma.sale.findMany({
@@ -137,7 +300,7 @@ export async function GET(req: NextRequest) {
         orderBy: { createdAt: 'desc' },
         skip,
         take: limit,
-        include: { lines: true, user: true },
+        include,
       }),
       prisma.sale.count({ where }),
     ]);
@@ -146,15 +309,46 @@ export async function GET(req: NextRequest) {
 
     const out = (items as SaleWithLinesUser[]).map((s) => ({
       _id: String(s.id),
+      subtotal: Number(s.subtotal),
+      discount: Number(s.discount),
+      billDiscountRule: s.billDiscountRule ?? null,
       total: Number(s.total),
+      taxableAmount: Number(s.taxableAmount),
+      taxAmount: Number(s.taxAmount),
+      exemptAmount: Number(s.exemptAmount),
+      changeDue: Number(s.changeDue),
+      payments: s.payments.map((p) => ({
+        method: p.method,
+        amount: Number(p.amount),
+        tendered: p.tendered == null ? null : Number(p.tendered),
+        reference: p.reference ?? null,
+        provider: p.provider ?? null,
+      })),
       createdAt: new Date(s.createdAt).toISOString(),
-      createdBy: s.user?.email ?? null,
+      createdBy: s.cashier ?? s.user?.email ?? null,
+      customer: s.customer ? { id: s.customer.id, name: s.customer.name, phone: s.customer.phone } : null,
+      prescription: s.prescription ?? null,
+      safety: s.safetyOverride ? { reason: s.safetyOverride, warnings: s.safetyWarnings ?? [] } : null,
+      refunded: s.returns.reduce((a, r) => a + Number(r.refund), 0),
+      voided: s.voidedAt
+        ? { at: s.voidedAt.toISOString(), by: s.voidedBy ?? null, reason: s.voidReason ?? null }
+        : null,
       lines: s.lines.map((l) => ({
+        lineId: l.id,
         id: l.batchNo,
         name: l.name,
         price: Number(l.price),
         qty: l.qty,
+        sellUnit: l.sellUnit,
+        sellQty: l.sellQty,
+        discount: Number(l.discount),
+        discountRule: l.discountRule ?? null,
+        billDiscount: Number(l.billDiscount),
         lineTotal: Number(l.lineTotal),
+        taxClass: l.taxClass,
+        taxRate: Number(l.taxRate),
+        taxAmount: Number(l.taxAmount),
+        returnedQty: l.returnLines.reduce((a, r) => a + r.qty, 0),
       })),
     }));
 
@@ -0,0 +1,126 @@
+// app/api/sales/void/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { restockBatch } from '@/lib/sales/stock';
+import { recordNarcoticMovement } from '@/lib/sales/narcotics';
+import { reverseSalePoints } from '@/lib/sales/loyalty';
+import { lockSale } from '@/lib/sales/locks';
+import { requirePermission } from '@/lib/permissions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type VoidBody = { saleId: number; reason: string; shelfId?: number | null };
+
+/**
+ * POST /api/sales/void  { saleId, reason, shelfId? }
+ * Voids a whole sale: stock goes back on each batch (onto `shelfId` if given, otherwise the
+ * batch's oldest shelf), the Sale row is kept and stamped with who/when/why. A line whose batch
+ * was deleted goes back on the medicine's batch of the same number if there is one; otherwise it
+ * is voided without restocking and listed in `notRestocked`. Scheduled
+ * medicines get a VOIDED entry in the controlled-substance register. Loyalty points earned on the
+ * sale are taken back and points spent on it given back.
+ * Requires the VOID_SALES permission.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const actor = await requirePermission(req, 'VOID_SALES');
+    const userId = await resolveUserId(req);
+    const body = (await req.json()) as VoidBody;
+
+    const reason = typeof body?.reason === 'string' ? body.reason.trim() : '';
+    if (!body || !Number.isInteger(body.saleId) || (body.shelfId != null && !Number.isInteger(body.shelfId))) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+    if (!reason) return NextResponse.json({ error: 'A reason is required to void a sale' }, { status: 400 });
+
+    const voided = await prisma.$transaction(async (tx) => {
+      // a return recorded meanwhile would otherwise be restocked and refunded a second time here
+      await lockSale(tx, body.saleId);
+      const sale = await tx.sale.findFirst({
+        where: { id: body.saleId, userId },
+        include: { lines: true, returns: { select: { id: true } } },
+      });
+      if (!sale) throw new Error(`Sale ${body.saleId} not found`);
+      if (sale.voidedAt) throw new Error(`Cannot void sale ${sale.id}: already voided.`);
+      if (sale.returns.length) {
+        throw new Error(`Cannot void sale ${sale.id}: it has returns. Return the remaining items instead.`);
+      }
+
+      let shelf: { id: number; name: string } | null = null;
+      if (body.shelfId != null) {
+        shelf = await tx.pharmacyShelf.findFirst({
+          where: { id: body.shelfId, userId },
+          select: { id: true, name: true },
+        });
+        if (!shelf) throw new Error(`Shelf ${body.shelfId} not found`);
+      }
+
+      const restocked: Array<{ medicineId: number; batchNo: string; qty: number }> = [];
+      const notRestocked: Array<{ name: string; batchNo: string; qty: number }> = [];
+      for (const line of sale.lines) {
+        const byId =
+          line.batchId != null
+            ? await tx.inventoryBatch.findFirst({
+                where: { id: line.batchId, userId },
+                select: { id: true, medicineId: true },
+              })
+            : null;
+        // batch deleted (batchId set null): a batch re-entered under the same number takes it back
+        const batch =
+          byId ??
+          (line.medicineId != null
+            ? await tx.inventoryBatch.findFirst({
+                where: { userId, batchNo: line.batchNo, medicineId: line.medicineId },
+                select: { id: true, medicineId: true },
+              })
+            : null);
+        if (!batch) {
+          notRestocked.push({ name: line.name, batchNo: line.batchNo, qty: line.qty });
+          continue;
+        }
+        await restockBatch(tx, batch.id, line.qty, shelf, line.name);
+        restocked.push({ medicineId: batch.medicineId, batchNo: line.batchNo, qty: line.qty });
+      }
+      await recordNarcoticMovement(tx, userId, {
+        kind: 'VOIDED',
+        saleId: sale.id,
+        prescriptionId: sale.prescriptionId,
+        createdBy: actor.email,
+        lines: restocked,
+      });
+
+      // guard against a concurrent void of the same sale
+      const res = await tx.sale.updateMany({
+        where: { id: sale.id, voidedAt: null },
+        data: { voidedAt: new Date(), voidedBy: actor.email, voidReason: reason },
+      });
+      if (res.count === 0) throw new Error(`Cannot void sale ${sale.id}: already voided.`);
+      await reverseSalePoints(tx, userId, sale.id, { returnId: null, createdBy: actor.email });
+
+      return { sale: await tx.sale.findUniqueOrThrow({ where: { id: sale.id } }), notRestocked };
+    });
+
+    return NextResponse.json({
+      ok: true,
+      id: voided.sale.id,
+      voidedAt: voided.sale.voidedAt?.toISOString() ?? null,
+      voidedBy: voided.sale.voidedBy,
+      notRestocked: voided.notRestocked,
+    });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /^Unauthorized/.test(msg)
+      ? 401
+      : /^Forbidden/.test(msg)
+      ? 403
+      : /Cannot void/i.test(msg)
+      ? 409
+      : /not found|Pick a shelf|No users exist|seed/i.test(msg)
+      ? 400
+      : 500;
+    console.error('POST /api/sales/void error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
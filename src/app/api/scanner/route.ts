@@ -4,6 +4,8 @@ import { PrismaClient } from "@prisma/client";
 import { extractProductDataFromImages, performOCR } from "@/utils/aiExtraction";
 import { fetchUsesFromInternet } from "@/utils/fetchUses";
 import { fetchMedicineNotes } from "@/utils/fetchNotes";
+import { parseGs1 } from "@/lib/scanner/gs1";
+import { resolveUserId } from "@/lib/sales/user";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -238,6 +240,9 @@ export async function POST(req: NextRequest) {
     const form = await req.formData();
     const imgs = await readImageBuffers(form, 20);
 
+    // GS1 DataMatrix decoded on the device (optional field "barcode"): exact GTIN, batch, expiry, serial
+    const gs1 = parseGs1(String(form.get("barcode") ?? ""));
+
     // 1) Main extractor (vision -> OCR fallback)
     const extracted = await extractProductDataFromImages(imgs.map(x => x.buf));
 
@@ -310,8 +315,10 @@ export async function POST(req: NextRequest) {
     const extractedData = {
       name: extracted?.name || null,
       manufacturing_date: toISOorNull(extracted?.manufacturing_date),
-      batch_number: extracted?.batch_number || null,
-      expiry_date: toISOorNull(extracted?.expiry_date),
+      batch_number: gs1?.batch || extracted?.batch_number || null,
+      expiry_date: gs1?.expiry ?? toISOorNull(extracted?.expiry_date),
+      gtin: gs1?.gtin ?? null,
+      serial_number: gs1?.serial ?? null,
 
       slips_count: extracted?.slips_count ?? null,
       tablets_per_slip: extracted?.tablets_per_slip ?? null,
@@ -457,6 +464,16 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Register the pack's GTIN for the scanned medicine in the user's registry (a known code keeps its mapping)
+    if (medicineId && gs1?.gtin) {
+      const userId = await resolveUserId(req);
+      await prisma.barcode.upsert({
+        where: { userId_code: { userId, code: gs1.gtin } },
+        create: { userId, code: gs1.gtin, medicineId },
+        update: {},
+      });
+    }
+
     // Create Scan + images (archive everything we saw)
     const scan = await prisma.scan.create({
       data: {
@@ -0,0 +1,39 @@
+// app/api/shifts/close/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { resolveActor } from '@/lib/permissions';
+import { closeShift } from '@/lib/sales/shifts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/shifts/close { countedCash, note? }
+ * Closes the cashier's open shift: expected cash is computed from the shift's sales, returns,
+ * voids, repayments and cash in/out, compared with the count, and returned as the Z-report.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const actor = await resolveActor(req);
+    const b = (await req.json()) as { countedCash?: unknown; note?: unknown } | null;
+
+    const counted = b?.countedCash;
+    if (typeof counted !== 'number' || !Number.isFinite(counted) || counted < 0) {
+      return NextResponse.json({ error: 'countedCash must be 0 or more' }, { status: 400 });
+    }
+    const note = typeof b?.note === 'string' && b.note.trim() ? b.note.trim().slice(0, 500) : null;
+
+    const report = await prisma.$transaction((tx) =>
+      closeShift(tx, userId, new Prisma.Decimal(counted).toDecimalPlaces(2), note, actor?.email ?? null),
+    );
+    return NextResponse.json({ ok: true, report });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /^No cash shift/.test(msg) ? 409 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/shifts/close error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/shifts/movements/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { buildZReport, requireOpenShift } from '@/lib/sales/shifts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/shifts/movements { kind: CASH_IN|CASH_OUT, amount, reason }
+ * Cash put into or taken out of the drawer outside a sale (petty expenses, change, bank drops).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const b = (await req.json()) as { kind?: unknown; amount?: unknown; reason?: unknown } | null;
+
+    if (b?.kind !== 'CASH_IN' && b?.kind !== 'CASH_OUT') {
+      return NextResponse.json({ error: 'kind must be CASH_IN or CASH_OUT' }, { status: 400 });
+    }
+    if (typeof b.amount !== 'number' || !Number.isFinite(b.amount) || b.amount <= 0) {
+      return NextResponse.json({ error: 'amount must be greater than 0' }, { status: 400 });
+    }
+    const reason = typeof b.reason === 'string' ? b.reason.trim().slice(0, 200) : '';
+    if (!reason) return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+    const kind = b.kind;
+    const amount = new Prisma.Decimal(b.amount).toDecimalPlaces(2);
+
+    const shiftId = await prisma.$transaction(async (tx) => {
+      const shift = await requireOpenShift(tx, userId);
+      await tx.cashMovement.create({ data: { shiftId: shift.id, kind, amount, reason } });
+      return shift.id;
+    });
+
+    return NextResponse.json({ ok: true, current: await buildZReport(prisma, shiftId) });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /^No cash shift/.test(msg) ? 409 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('POST /api/shifts/movements error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
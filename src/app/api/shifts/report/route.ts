@@ -0,0 +1,40 @@
+// app/api/shifts/report/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { buildZReport } from '@/lib/sales/shifts';
+import { renderZReportHtml } from '@/lib/receipts/zreport';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/shifts/report?id=7&as=html|json&print=1
+ * Z-report of one of the cashier's shifts (an open shift shows the figures so far).
+ * HTML (default) is meant to be opened in a new window; `print=1` pops the print dialog.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const sp = req.nextUrl.searchParams;
+    const id = Number(sp.get('id'));
+    const as = sp.get('as') ?? 'html';
+    if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    if (as !== 'html' && as !== 'json') return NextResponse.json({ error: 'as must be html or json' }, { status: 400 });
+
+    const shift = await prisma.cashShift.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!shift) return NextResponse.json({ error: `Shift ${id} not found` }, { status: 404 });
+    const report = await buildZReport(prisma, shift.id);
+    if (as === 'json') return NextResponse.json({ report });
+
+    const pharmacy = await prisma.pharmacy.findFirst({ where: { userId }, orderBy: { id: 'asc' }, select: { name: true } });
+    return new NextResponse(renderZReportHtml(report, pharmacy?.name ?? 'Pharmacy', sp.get('print') === '1'), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  } catch (e: unknown) {
+    const msg = e instanceof Error ? e.message : 'Server error';
+    const status = /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+    console.error('GET /api/shifts/report error:', e);
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,73 @@
+// app/api/shifts/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { resolveUserId } from '@/lib/sales/user';
+import { resolveActor } from '@/lib/permissions';
+import { buildZReport, currentShift } from '@/lib/sales/shifts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const errorResponse = (e: unknown, where: string) => {
+  const msg = e instanceof Error ? e.message : 'Server error';
+  const status = /already open/i.test(msg) ? 409 : /not found|No users exist|seed/i.test(msg) ? 400 : 500;
+  console.error(`${where} error:`, e);
+  return NextResponse.json({ error: msg }, { status });
+};
+
+/**
+ * GET /api/shifts → { current: live Z-report of the open shift | null, recent: last 10 closed shifts }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const [open, closed] = await Promise.all([
+      currentShift(prisma, userId),
+      prisma.cashShift.findMany({
+        where: { userId, closedAt: { not: null } },
+        orderBy: { closedAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    return NextResponse.json({
+      current: open ? await buildZReport(prisma, open.id) : null,
+      recent: closed.map((s) => ({
+        id: s.id,
+        openedAt: s.openedAt.toISOString(),
+        closedAt: s.closedAt?.toISOString() ?? null,
+        expectedCash: s.expectedCash != null ? Number(s.expectedCash) : null,
+        countedCash: s.countedCash != null ? Number(s.countedCash) : null,
+        variance: s.variance != null ? Number(s.variance) : null,
+      })),
+    });
+  } catch (e) {
+    return errorResponse(e, 'GET /api/shifts');
+  }
+}
+
+/** POST /api/shifts { openingFloat } → open a shift for this cashier (one at a time) */
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await resolveUserId(req);
+    const actor = await resolveActor(req);
+    const b = (await req.json()) as { openingFloat?: unknown } | null;
+    const float = b?.openingFloat;
+    if (typeof float !== 'number' || !Number.isFinite(float) || float < 0) {
+      return NextResponse.json({ error: 'openingFloat must be 0 or more' }, { status: 400 });
+    }
+
+    const shift = await prisma.$transaction(async (tx) => {
+      const open = await currentShift(tx, userId);
+      if (open) throw new Error(`Shift #${open.id} is already open: close it first`);
+      return tx.cashShift.create({
+        data: { userId, openingFloat: new Prisma.Decimal(float).toDecimalPlaces(2), openedBy: actor?.email ?? null },
+      });
+    });
+
+    return NextResponse.json({ ok: true, current: await buildZReport(prisma, shift.id) });
+  } catch (e) {
+    return errorResponse(e, 'POST /api/shifts');
+  }
+}
@@ -10,6 +10,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { parseGs1 } from '@/lib/scanner/gs1';
 
 /* ───────────────────────────────── Types ──────────────────────────────── */
 
@@ -39,11 +40,20 @@ type Item = {
   purchasePrice: number;
   sellingPrice: number;
   supplierName: string | null;
+  taxClass: TaxClass;
+  prescriptionOnly: boolean;
+  schedule: DrugSchedule | null;
   qty: number;
   minQty: number;
   shelves: ShelfAlloc[];
 };
 
+/** VAT treatment; VAT13 = 13% VAT included in the selling price */
+type TaxClass = 'VAT13' | 'EXEMPT';
+
+/** Controlled substance; scheduled medicines need a prescription and go in the register */
+type DrugSchedule = 'NARCOTIC' | 'PSYCHOTROPIC';
+
 type ApiListResponse = { items?: Partial<Item>[]; error?: string };
 type ApiItemResponse = { item?: Partial<Item>; error?: string };
 type ApiOkResponse = { ok?: boolean; error?: string };
@@ -67,8 +77,12 @@ type InventoryUpsertBody = {
   purchasePrice: number;
   sellingPrice: number;
   supplierName: string | null;
+  taxClass: TaxClass;
+  prescriptionOnly: boolean;
+  schedule: DrugSchedule | null;
 
-  // quantity aliases (server-side compatibility)
+  // quantity aliases (server-side compatibility); counted in packs (a delivery) or single units (stock on hand)
+  qtyUnit: 'PACK' | 'UNIT';
   qty: number;
   quantity: number;
   stock: number;
@@ -122,6 +136,35 @@ function useDebounce<T>(v: T, delay = 300): T {
   return s;
 }
 
+/* BarcodeDetector typing (not in lib.dom yet) */
+type BarcodeDetectorCtor = new (opts: { formats: string[] }) => {
+  detect(src: ImageBitmapSource): Promise<Array<{ rawValue?: string }>>;
+};
+
+/** First GS1 code (DataMatrix / GS1-128) found in the photos, decoded in the browser; null if none or unsupported */
+async function findGs1InImages(files: File[]): Promise<string | null> {
+  const BD = (window as unknown as { BarcodeDetector?: BarcodeDetectorCtor }).BarcodeDetector;
+  if (!BD) return null;
+  let detector: InstanceType<BarcodeDetectorCtor>;
+  try {
+    detector = new BD({ formats: ['data_matrix', 'code_128', 'qr_code'] });
+  } catch {
+    return null;
+  }
+  for (const f of files) {
+    try {
+      const bitmap = await createImageBitmap(f);
+      const codes = await detector.detect(bitmap);
+      bitmap.close();
+      const raw = codes.map((c) => c.rawValue ?? '').find((v) => parseGs1(v));
+      if (raw) return raw;
+    } catch {
+      /* unreadable photo: OCR still runs */
+    }
+  }
+  return null;
+}
+
 function fmtFriendly(v?: string | null) {
   const d = v ? new Date(v) : null;
   return d ? d.toLocaleDateString() : '-';
@@ -220,6 +263,9 @@ function normalize(p?: Partial<Item> | null): Item {
         : hasKey(base, 'supplier') && typeof base.supplier === 'string'
         ? (base.supplier as string)
         : null,
+    taxClass: base.taxClass === 'VAT13' ? 'VAT13' : 'EXEMPT',
+    prescriptionOnly: base.prescriptionOnly === true,
+    schedule: base.schedule === 'NARCOTIC' || base.schedule === 'PSYCHOTROPIC' ? base.schedule : null,
     qty: firstFinite(qtyCandidates),
     minQty: firstFinite(minQtyCandidates),
     shelves,
@@ -444,6 +490,9 @@ export default function AddMedicineWindow({
   const [purchasePrice, setPurchasePrice] = useState('');
   const [sellingPrice, setSellingPrice] = useState('');
   const [supplierName, setSupplierName] = useState('');
+  const [taxClass, setTaxClass] = useState<TaxClass>('EXEMPT');
+  const [prescriptionOnly, setPrescriptionOnly] = useState(false);
+  const [schedule, setSchedule] = useState<DrugSchedule | null>(null);
   const [qty, setQty] = useState(''); // keep as string for inputs; cast with toNum on submit
   const [minQty, setMinQty] = useState('');
 
@@ -516,7 +565,11 @@ export default function AddMedicineWindow({
         purchasePrice: toNum(purchasePrice),
         sellingPrice: toNum(sellingPrice),
         supplierName: supplierName || null,
+        taxClass,
+        prescriptionOnly,
+        schedule,
 
+        qtyUnit: 'PACK',
         qty: totalQ,
         quantity: totalQ,
         stock: totalQ,
@@ -580,6 +633,9 @@ export default function AddMedicineWindow({
     setPurchasePrice('');
     setSellingPrice('');
     setSupplierName('');
+    setTaxClass('EXEMPT');
+    setPrescriptionOnly(false);
+    setSchedule(null);
     setQty('');
     setMinQty('');
     setAddMsg(null);
@@ -607,6 +663,9 @@ export default function AddMedicineWindow({
   const [eBuy, setEBuy] = useState('');
   const [eSell, setESell] = useState('');
   const [eSupplier, setESupplier] = useState('');
+  const [eTaxClass, setETaxClass] = useState<TaxClass>('EXEMPT');
+  const [ePrescriptionOnly, setEPrescriptionOnly] = useState(false);
+  const [eSchedule, setESchedule] = useState<DrugSchedule | null>(null);
   const [eQty, setEQty] = useState('');
   const [eMinQty, setEMinQty] = useState('');
   const [eShelves, setEShelves] = useState<ShelfAlloc[]>([]);
@@ -623,6 +682,9 @@ export default function AddMedicineWindow({
     setEBuy(String(it.purchasePrice || ''));
     setESell(String(it.sellingPrice || ''));
     setESupplier(it.supplierName ?? '');
+    setETaxClass(it.taxClass);
+    setEPrescriptionOnly(it.prescriptionOnly);
+    setESchedule(it.schedule);
     setEQty(String(it.qty || ''));
     setEMinQty(String(it.minQty || ''));
     setEShelves(it.shelves.length ? it.shelves.map((s) => ({ ...s })) : []);
@@ -652,7 +714,11 @@ export default function AddMedicineWindow({
         purchasePrice: toNum(eBuy),
         sellingPrice: toNum(eSell),
         supplierName: eSupplier || null,
+        taxClass: eTaxClass,
+        prescriptionOnly: ePrescriptionOnly,
+        schedule: eSchedule,
 
+        qtyUnit: 'UNIT',
         qty: total,
         quantity: total,
         stock: total,
@@ -693,6 +759,9 @@ export default function AddMedicineWindow({
                 purchasePrice: toNum(eBuy),
                 sellingPrice: toNum(eSell),
                 supplierName: eSupplier || null,
+                taxClass: eTaxClass,
+                prescriptionOnly: ePrescriptionOnly,
+                schedule: eSchedule,
                 qty: total,
                 minQty: min,
                 shelves: eShelves,
@@ -866,6 +935,13 @@ async function onScanPicked(filesIn: FileList | File[] | null) {
   const fd = new FormData();
   list.forEach((f) => fd.append('images', f));
 
+  // A GS1 DataMatrix on the pack gives batch and expiry exactly; the server prefers it over OCR
+  const gs1Raw = await findGs1InImages(list);
+  const gs1 = gs1Raw ? parseGs1(gs1Raw) : null;
+  if (gs1Raw) fd.append('barcode', gs1Raw);
+  if (gs1?.batch) setBatchNumber(gs1.batch);
+  if (gs1?.expiry) setExpDate(gs1.expiry);
+
   // Call API
   setScanning(true);
   try {
@@ -884,7 +960,10 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
   setScanMsg({ kind: 'info', text: 'Scan completed but no fields were recognized. Try clearer photos or fill manually.' });
 } else {
   applyExtractedToForm(extracted);
-  setScanMsg({ kind: 'ok', text: 'Scan complete. Fields populated.' });
+  setScanMsg({
+    kind: 'ok',
+    text: gs1 ? 'Scan complete. Fields populated (batch and expiry from the GS1 code).' : 'Scan complete. Fields populated.',
+  });
 }
 
   } catch (e: unknown) {
@@ -947,6 +1026,12 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
                   setSellingPrice={setSellingPrice}
                   supplierName={supplierName}
                   setSupplierName={setSupplierName}
+                  taxClass={taxClass}
+                  setTaxClass={setTaxClass}
+                  prescriptionOnly={prescriptionOnly}
+                  setPrescriptionOnly={setPrescriptionOnly}
+                  schedule={schedule}
+                  setSchedule={setSchedule}
                   qty={qty}
                   setQty={setQty}
                   minQty={minQty}
@@ -1248,6 +1333,15 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
                         placeholder="0.00"
                       />
                     </Field>
+                    <Field label="VAT" full>
+                      <TaxClassSelect value={taxClass} onChange={setTaxClass} className="h-9" />
+                    </Field>
+                    <Field label="Prescription" full>
+                      <RxToggle value={prescriptionOnly} onChange={setPrescriptionOnly} className="h-9" />
+                    </Field>
+                    <Field label="Controlled" full>
+                      <ScheduleSelect value={schedule} onChange={setSchedule} className="h-9" />
+                    </Field>
                     <Field label="Supplier" full>
                       <Input
                         value={supplierName}
@@ -1258,7 +1352,7 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
                         placeholder="ACME Pharma"
                       />
                     </Field>
-                    <Field label="Total Quantity">
+                    <Field label="Total Quantity (packs)">
                       <Input
                         value={qty}
                         onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
@@ -1266,7 +1360,7 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
                         }
                         className="h-9"
                         inputMode="numeric"
-                        placeholder="e.g., 120"
+                        placeholder="e.g., 10"
                       />
                     </Field>
                     <Field label="Reorder Level (Min Qty)">
@@ -1641,6 +1735,15 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
                                 className="h-9"
                               />
                             </Field>
+                            <Field label="VAT" full>
+                              <TaxClassSelect value={eTaxClass} onChange={setETaxClass} className="h-9" />
+                            </Field>
+                            <Field label="Prescription" full>
+                              <RxToggle value={ePrescriptionOnly} onChange={setEPrescriptionOnly} className="h-9" />
+                            </Field>
+                            <Field label="Controlled" full>
+                              <ScheduleSelect value={eSchedule} onChange={setESchedule} className="h-9" />
+                            </Field>
                             <Field label="Supplier" full>
                               <Input
                                 value={eSupplier}
@@ -1650,7 +1753,7 @@ if (!extracted || Object.values(extracted).every(v => v == null || v === '' || (
                                 className="h-9"
                               />
                             </Field>
-                            <Field label="Total Quantity">
+                            <Field label="Total Quantity (tablets / bottles)">
                               <Input
                                 value={eQty}
                                 onChange={(ev: React.ChangeEvent<HTMLInputElement>) =>
@@ -1958,6 +2061,65 @@ function Field({
     </div>
   );
 }
+function TaxClassSelect({
+  value,
+  onChange,
+  className = '',
+}: {
+  value: TaxClass;
+  onChange: (v: TaxClass) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      className={`w-full rounded-md border border-white/40 bg-white/90 px-2 text-sm ${className}`}
+      value={value}
+      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value as TaxClass)}
+    >
+      <option value="EXEMPT">VAT exempt</option>
+      <option value="VAT13">13% VAT (included in price)</option>
+    </select>
+  );
+}
+/** Narcotic / psychotropic schedule; every sale of a scheduled medicine is written to the register */
+function ScheduleSelect({
+  value,
+  onChange,
+  className = '',
+}: {
+  value: DrugSchedule | null;
+  onChange: (v: DrugSchedule | null) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      className={`w-full rounded-md border border-white/40 bg-white/90 px-2 text-sm ${className}`}
+      value={value ?? ''}
+      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange((e.target.value || null) as DrugSchedule | null)}
+    >
+      <option value="">Not controlled</option>
+      <option value="NARCOTIC">Narcotic (register)</option>
+      <option value="PSYCHOTROPIC">Psychotropic (register)</option>
+    </select>
+  );
+}
+/** Prescription-only medicines can't be sold unless a prescription is attached to the sale */
+function RxToggle({
+  value,
+  onChange,
+  className = '',
+}: {
+  value: boolean;
+  onChange: (v: boolean) => void;
+  className?: string;
+}) {
+  return (
+    <label className={`flex w-full items-center gap-2 rounded-md border border-white/40 bg-white/90 px-2 text-sm ${className}`}>
+      <input type="checkbox" checked={value} onChange={(e) => onChange(e.target.checked)} />
+      Prescription only (Rx)
+    </label>
+  );
+}
 function Th({ children, className = '' }: { children: React.ReactNode; className?: string }) {
   return <th className={`px-3 py-2 text-xs font-semibold text-slate-600 ${className}`}>{children}</th>;
 }
@@ -2040,6 +2202,12 @@ type MobileAddSimpleProps = {
   setSellingPrice: React.Dispatch<React.SetStateAction<string>>;
   supplierName: string;
   setSupplierName: React.Dispatch<React.SetStateAction<string>>;
+  taxClass: TaxClass;
+  setTaxClass: React.Dispatch<React.SetStateAction<TaxClass>>;
+  prescriptionOnly: boolean;
+  setPrescriptionOnly: React.Dispatch<React.SetStateAction<boolean>>;
+  schedule: DrugSchedule | null;
+  setSchedule: React.Dispatch<React.SetStateAction<DrugSchedule | null>>;
   qty: string;
   setQty: React.Dispatch<React.SetStateAction<string>>;
   minQty: string;
@@ -2102,6 +2270,12 @@ function MobileAddSimple(props: MobileAddSimpleProps) {
     setSellingPrice,
     supplierName,
     setSupplierName,
+    taxClass,
+    setTaxClass,
+    prescriptionOnly,
+    setPrescriptionOnly,
+    schedule,
+    setSchedule,
     qty,
     setQty,
     minQty,
@@ -2208,7 +2382,16 @@ function MobileAddSimple(props: MobileAddSimpleProps) {
             className="h-10"
           />
         </Field>
-        <Field label="Total Quantity">
+        <Field label="VAT">
+          <TaxClassSelect value={taxClass} onChange={setTaxClass} className="h-10" />
+        </Field>
+        <Field label="Prescription">
+          <RxToggle value={prescriptionOnly} onChange={setPrescriptionOnly} className="h-10" />
+        </Field>
+        <Field label="Controlled">
+          <ScheduleSelect value={schedule} onChange={setSchedule} className="h-10" />
+        </Field>
+        <Field label="Total Quantity (packs)">
           <Input
             value={qty}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
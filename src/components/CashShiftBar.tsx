@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Wallet, ArrowDownToLine, ArrowUpFromLine, Lock, FileText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ZReport } from '@/types/reports';
+
+/* ───────────────────────── Types ───────────────────────── */
+
+type ApiShifts = { current?: ZReport | null; error?: string };
+type ApiShiftAction = { ok?: boolean; current?: ZReport; report?: ZReport; error?: string };
+type Mode = null | 'open' | 'CASH_IN' | 'CASH_OUT' | 'close';
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+const money = (n: number) => (Number.isFinite(n) ? n.toFixed(2) : '0.00');
+const toNum = (s: string) => (Number.isFinite(Number(s)) ? Number(s) : NaN);
+const time = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/** Z-report in a new tab with the print dialog */
+export function openZReport(shiftId: number) {
+  window.open(`/api/shifts/report?id=${shiftId}&print=1`, '_blank', 'noopener');
+}
+
+/* ───────────────────────── Bar ───────────────────────── */
+
+/**
+ * Cash shift at the top of the sell screen: open with a float, cash in/out, close against the
+ * counted cash (prints the Z-report). `onChange` reports whether a shift is open — sales are
+ * refused without one. `refreshKey` changes after each sale to update the expected cash.
+ */
+export default function CashShiftBar({
+  onChange,
+  refreshKey,
+}: {
+  onChange: (open: boolean) => void;
+  refreshKey?: unknown;
+}) {
+  const [shift, setShift] = useState<ZReport | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [mode, setMode] = useState<Mode>(null);
+  const [amount, setAmount] = useState('');
+  const [text, setText] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const apply = useCallback(
+    (s: ZReport | null) => {
+      setShift(s);
+      onChange(s != null);
+    },
+    [onChange],
+  );
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/shifts', { credentials: 'include', cache: 'no-store' });
+      const data = (await res.json()) as ApiShifts;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to load shift');
+      apply(data.current ?? null);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setLoaded(true);
+    }
+  }, [apply]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const start = (m: Mode) => {
+    setErr(null);
+    setAmount('');
+    setText('');
+    setMode((prev) => (prev === m ? null : m));
+  };
+
+  async function submit() {
+    const n = toNum(amount);
+    if (!Number.isFinite(n) || n < 0 || (mode !== 'open' && mode !== 'close' && n <= 0)) {
+      setErr('Enter a valid amount.');
+      return;
+    }
+    if ((mode === 'CASH_IN' || mode === 'CASH_OUT') && !text.trim()) {
+      setErr('Enter a reason.');
+      return;
+    }
+    setErr(null);
+    setBusy(true);
+    try {
+      const [url, body] =
+        mode === 'open'
+          ? ['/api/shifts', { openingFloat: n }]
+          : mode === 'close'
+          ? ['/api/shifts/close', { countedCash: n, note: text }]
+          : ['/api/shifts/movements', { kind: mode, amount: n, reason: text }];
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+      const data = (await res.json()) as ApiShiftAction;
+      if (!res.ok || !data.ok) throw new Error(data?.error ?? 'Failed');
+      if (mode === 'close' && data.report) {
+        openZReport(data.report.shiftId);
+        apply(null);
+      } else {
+        apply(data.current ?? null);
+      }
+      setMode(null);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!loaded) return null;
+
+  return (
+    <div
+      className={`rounded-md border px-2 py-1.5 text-sm space-y-1.5 ${
+        shift ? 'border-white/40 bg-white/60' : 'border-amber-200 bg-amber-50/80'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <Wallet className="h-4 w-4 text-slate-500" />
+        {shift ? (
+          <>
+            <span className="text-slate-700">
+              Shift #{shift.shiftId} since {time(shift.openedAt)} · {shift.sales.count} sale{shift.sales.count === 1 ? '' : 's'} ·
+              expected cash <b>{money(shift.cash.expected)}</b>
+            </span>
+            <div className="ml-auto flex gap-1">
+              <Button variant="outline" className="h-7 px-2 text-xs" onClick={() => start('CASH_IN')}>
+                <ArrowDownToLine className="h-3.5 w-3.5 mr-1" /> Cash in
+              </Button>
+              <Button variant="outline" className="h-7 px-2 text-xs" onClick={() => start('CASH_OUT')}>
+                <ArrowUpFromLine className="h-3.5 w-3.5 mr-1" /> Cash out
+              </Button>
+              <Button variant="outline" className="h-7 px-2 text-xs" onClick={() => openZReport(shift.shiftId)} title="Figures so far">
+                <FileText className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="secondary" className="h-7 px-2 text-xs" onClick={() => start('close')}>
+                <Lock className="h-3.5 w-3.5 mr-1" /> Close shift
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <span className="text-amber-800">No shift open — sales are blocked until you open one.</span>
+            <Button className="ml-auto h-7 px-2 text-xs" onClick={() => start('open')}>
+              Open shift
+            </Button>
+          </>
+        )}
+      </div>
+
+      {mode && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.replace(/[^\d.]/g, ''))}
+            onKeyDown={(e) => e.key === 'Enter' && submit()}
+            placeholder={mode === 'open' ? 'Opening float' : mode === 'close' ? 'Counted cash' : 'Amount'}
+            className="h-8 w-32"
+            inputMode="decimal"
+            autoFocus
+          />
+          {mode !== 'open' && (
+            <Input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder={mode === 'close' ? 'Note (optional)' : 'Reason, e.g. tea, courier'}
+              className="h-8 flex-1 min-w-[8rem]"
+            />
+          )}
+          {mode === 'close' && shift && toNum(amount) >= 0 && amount !== '' && (
+            <span className={`text-xs ${toNum(amount) - shift.cash.expected < 0 ? 'text-rose-600' : 'text-slate-600'}`}>
+              {toNum(amount) - shift.cash.expected === 0
+                ? 'Matches'
+                : `${toNum(amount) - shift.cash.expected < 0 ? 'Short' : 'Over'} ${money(Math.abs(toNum(amount) - shift.cash.expected))}`}
+            </span>
+          )}
+          <Button className="h-8" onClick={submit} disabled={busy}>
+            {busy ? 'Saving…' : mode === 'open' ? 'Open' : mode === 'close' ? 'Close & print Z-report' : 'Save'}
+          </Button>
+        </div>
+      )}
+
+      {err && <div className="text-xs text-rose-600">{err}</div>}
+    </div>
+  );
+}
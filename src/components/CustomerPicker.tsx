@@ -0,0 +1,666 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Search, UserRound, X, History, Plus, Wallet, Gift } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/* ───────────────────────── Types ───────────────────────── */
+
+export type CustomerSummary = {
+  id: number;
+  name: string;
+  phone: string | null;
+  age: number | null;
+  allergies: string[];
+  notes: string | null;
+  creditLimit: number | null; // null = no limit
+  balance?: number;           // credit still owed (search results / after loading detail)
+  points?: number;            // spendable loyalty points
+  pointsWorth?: number;       // what those points pay for as tender
+};
+
+type LoyaltyKind = 'EARNED' | 'REDEEMED' | 'REVERSED' | 'REFUNDED' | 'EXPIRED';
+
+type Buckets = { d0_30: number; d31_60: number; d60plus: number };
+type RepayMethod = 'CASH' | 'CARD' | 'QR_WALLET';
+
+type ApiCustomers = { items?: CustomerSummary[]; error?: string };
+type ApiCustomer = { item?: CustomerSummary; error?: string };
+type ApiCustomerDetail = {
+  item?: CustomerSummary;
+  sales?: Array<{
+    id: number;
+    createdAt: string;
+    total: number;
+    onCredit: number;
+    voided: boolean;
+    lines: Array<{ name: string; batchNo: string; qty: number; returnedQty: number; lineTotal: number }>;
+  }>;
+  medicines?: Array<{ name: string; qty: number; times: number; lastAt: string; lastBatchNo: string }>;
+  receivable?: {
+    credit: number;
+    repaid: number;
+    balance: number;
+    buckets: Buckets;
+    invoices: Array<{ saleId: number; createdAt: string; credit: number; outstanding: number; ageDays: number }>;
+  };
+  repayments?: Array<{ id: number; amount: number; method: RepayMethod; reference: string | null; note: string | null; createdAt: string }>;
+  loyalty?: {
+    balance: number;
+    worth: number;
+    earnRate: number;
+    pointValue: number;
+    entries: Array<{ id: number; kind: LoyaltyKind; points: number; saleId: number | null; expiresAt: string | null; createdAt: string }>;
+  };
+  error?: string;
+};
+
+type Draft = { name: string; phone: string; age: string; allergies: string; notes: string; creditLimit: string };
+
+const REPAY_LABELS: Record<RepayMethod, string> = { CASH: 'Cash', CARD: 'Card', QR_WALLET: 'QR wallet' };
+const LOYALTY_LABELS: Record<LoyaltyKind, string> = {
+  EARNED: 'Earned',
+  REDEEMED: 'Redeemed',
+  REVERSED: 'Taken back (return)',
+  REFUNDED: 'Given back (return)',
+  EXPIRED: 'Expired',
+};
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+const money = (n: number) => (Number.isFinite(n) ? n.toFixed(2) : '0.00');
+const looksLikePhone = (s: string) => /^[\d\s+()-]+$/.test(s.trim());
+
+/* ───────────────────────── Picker ───────────────────────── */
+
+/**
+ * Attach a customer to the cart: search-as-you-type by phone (or name), quick-add when nobody
+ * matches, and a history view of what they were given before.
+ */
+export default function CustomerPicker({
+  value,
+  onChange,
+}: {
+  value: CustomerSummary | null;
+  onChange: (c: CustomerSummary | null) => void;
+}) {
+  const [q, setQ] = useState('');
+  const [results, setResults] = useState<CustomerSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [detailId, setDetailId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const term = q.trim();
+    if (term.length < 2) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const res = await fetch(`/api/customers?q=${encodeURIComponent(term)}`, { credentials: 'include' });
+        const data = (await res.json()) as ApiCustomers;
+        if (!res.ok) throw new Error(data?.error ?? 'Search failed');
+        if (!cancelled) setResults(data.items ?? []);
+      } catch (e: unknown) {
+        if (!cancelled) setErr(errMsg(e));
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [q]);
+
+  function pick(c: CustomerSummary) {
+    onChange(c);
+    setQ('');
+    setResults([]);
+    setDraft(null);
+    setErr(null);
+  }
+
+  async function create() {
+    if (!draft) return;
+    setErr(null);
+    setSaving(true);
+    try {
+      const res = await fetch('/api/customers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: draft.name,
+          phone: draft.phone || null,
+          age: draft.age.trim() ? Number(draft.age) : null,
+          allergies: draft.allergies,
+          notes: draft.notes || null,
+          creditLimit: draft.creditLimit.trim() ? Number(draft.creditLimit) : null,
+        }),
+      });
+      const data = (await res.json()) as ApiCustomer;
+      if (!res.ok || !data.item) throw new Error(data?.error ?? 'Failed to save customer');
+      pick({ ...data.item, balance: 0, points: 0, pointsWorth: 0 });
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (value) {
+    return (
+      <div className="rounded-md border border-white/40 bg-white/70 px-2 py-1.5 text-sm">
+        <div className="flex items-center gap-2">
+          <UserRound className="h-4 w-4 text-slate-500" />
+          <div className="min-w-0 flex-1 truncate">
+            <span className="font-medium">{value.name}</span>
+            {value.phone && <span className="text-slate-500"> · {value.phone}</span>}
+            {value.age != null && <span className="text-slate-500"> · {value.age}y</span>}
+          </div>
+          <button
+            type="button"
+            onClick={() => setDetailId(value.id)}
+            className="rounded p-1 text-slate-600 hover:bg-black/5"
+            title="Purchase history"
+          >
+            <History className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => onChange(null)} className="rounded p-1 text-slate-500 hover:bg-black/5" title="Remove customer">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        {value.allergies.length > 0 && (
+          <div className="mt-1 text-xs font-medium text-rose-700">Allergies: {value.allergies.join(', ')}</div>
+        )}
+        {value.notes && <div className="mt-0.5 text-xs text-slate-500">{value.notes}</div>}
+        {((value.balance ?? 0) > 0 || value.creditLimit != null) && (
+          <div className={`mt-0.5 text-xs ${(value.balance ?? 0) > 0 ? 'font-medium text-amber-700' : 'text-slate-500'}`}>
+            Owes {money(value.balance ?? 0)}
+            {value.creditLimit != null && ` · limit ${money(value.creditLimit)}`}
+          </div>
+        )}
+        {(value.points ?? 0) > 0 && (
+          <div className="mt-0.5 text-xs text-emerald-700">
+            <Gift className="h-3.5 w-3.5 inline -mt-0.5 mr-1" />
+            {value.points} points · worth {money(value.pointsWorth ?? 0)}
+          </div>
+        )}
+        {detailId != null && (
+          <CustomerDetail
+            customerId={detailId}
+            onClose={() => setDetailId(null)}
+            onUpdated={(c) => onChange({ ...value, ...c })}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative text-sm">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+        <Input
+          value={q}
+          onChange={(e) => {
+            setQ(e.target.value);
+            setErr(null);
+          }}
+          placeholder="Customer phone or name (optional)"
+          className="h-8 pl-8"
+        />
+      </div>
+
+      {q.trim().length >= 2 && !draft && (
+        <div className="absolute z-20 mt-1 w-full rounded-md border border-slate-200 bg-white shadow-lg">
+          {results.map((c) => (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => pick(c)}
+              className="flex w-full items-center justify-between px-3 py-1.5 text-left hover:bg-slate-50"
+            >
+              <span className="truncate">{c.name}</span>
+              <span className="ml-2 text-xs text-slate-500">
+                {(c.balance ?? 0) > 0 && <span className="mr-2 text-amber-700">owes {money(c.balance ?? 0)}</span>}
+                {(c.points ?? 0) > 0 && <span className="mr-2 text-emerald-700">{c.points} pts</span>}
+                {c.phone ?? ''}
+              </span>
+            </button>
+          ))}
+          {!searching && results.length === 0 && <div className="px-3 py-1.5 text-xs text-slate-500">No match.</div>}
+          <button
+            type="button"
+            onClick={() =>
+              setDraft({
+                name: looksLikePhone(q) ? '' : q.trim(),
+                phone: looksLikePhone(q) ? q.trim() : '',
+                age: '',
+                allergies: '',
+                notes: '',
+                creditLimit: '',
+              })
+            }
+            className="flex w-full items-center gap-1 border-t border-slate-100 px-3 py-1.5 text-left text-blue-700 hover:bg-slate-50"
+          >
+            <Plus className="h-3.5 w-3.5" /> New customer
+          </button>
+        </div>
+      )}
+
+      {draft && (
+        <div className="mt-1 space-y-1.5 rounded-md border border-white/40 bg-white/80 p-2">
+          <div className="grid grid-cols-2 gap-1.5">
+            <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name *" className="h-8" />
+            <Input value={draft.phone} onChange={(e) => setDraft({ ...draft, phone: e.target.value })} placeholder="Phone" className="h-8" inputMode="tel" />
+            <Input value={draft.age} onChange={(e) => setDraft({ ...draft, age: e.target.value.replace(/\D/g, '') })} placeholder="Age" className="h-8" inputMode="numeric" />
+            <Input value={draft.allergies} onChange={(e) => setDraft({ ...draft, allergies: e.target.value })} placeholder="Allergies (comma separated)" className="h-8" />
+          </div>
+          <div className="grid grid-cols-2 gap-1.5">
+            <Input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes" className="h-8" />
+            <Input
+              value={draft.creditLimit}
+              onChange={(e) => setDraft({ ...draft, creditLimit: e.target.value.replace(/[^\d.]/g, '') })}
+              placeholder="Credit limit (blank = none)"
+              className="h-8"
+              inputMode="decimal"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" className="h-8" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button className="h-8" onClick={create} disabled={saving || !draft.name.trim()}>
+              {saving ? 'Saving…' : 'Save & attach'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {err && <div className="mt-1 text-xs text-rose-600">{err}</div>}
+    </div>
+  );
+}
+
+/* ───────────────────────── Detail view ───────────────────────── */
+
+/**
+ * Modal: who the customer is, what they owe on credit (aged, with repayments), their loyalty
+ * points, every medicine they've had (latest first) and every sale. `onUpdated` gets the fresh
+ * balance/limit after changes.
+ */
+export function CustomerDetail({
+  customerId,
+  onClose,
+  onUpdated,
+}: {
+  customerId: number;
+  onClose: () => void;
+  onUpdated?: (c: CustomerSummary) => void;
+}) {
+  const [data, setData] = useState<ApiCustomerDetail | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/customers?id=${customerId}`, { credentials: 'include' });
+        const json = (await res.json()) as ApiCustomerDetail;
+        if (!res.ok) throw new Error(json?.error ?? 'Failed to load customer');
+        if (cancelled) return;
+        setData(json);
+        if (json.item && reloadKey > 0) onUpdated?.({ ...json.item, balance: json.receivable?.balance ?? 0 });
+      } catch (e: unknown) {
+        if (!cancelled) setErr(errMsg(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // onUpdated is a fresh closure every render; only refetch on id / explicit reload
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customerId, reloadKey]);
+
+  const c = data?.item;
+  return (
+    <div className="fixed inset-0 z-[170] bg-black/60 flex items-center justify-center" onMouseDown={(e) => e.stopPropagation()}>
+      <div className="w-[94vw] max-w-[760px] max-h-[86vh] flex flex-col bg-white/95 backdrop-blur rounded-xl border border-white/40 shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-white/40">
+          <div className="text-sm font-medium">{c ? c.name : 'Customer'}</div>
+          <button onClick={onClose} className="rounded px-2 py-1 bg-white/70 border border-white/40 text-xs">
+            <X className="h-4 w-4 inline -mt-0.5 mr-1" /> Close
+          </button>
+        </div>
+        <div className="flex-1 overflow-auto p-4 space-y-4 text-[13px]">
+          {err && <div className="text-rose-600">{err}</div>}
+          {!data && !err && <div className="text-slate-500">Loading…</div>}
+          {c && (
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-4">
+              <div>
+                <div className="text-xs text-slate-500">Phone</div>
+                {c.phone ?? '-'}
+              </div>
+              <div>
+                <div className="text-xs text-slate-500">Age</div>
+                {c.age ?? '-'}
+              </div>
+              <div className="col-span-2">
+                <div className="text-xs text-slate-500">Allergies</div>
+                <span className={c.allergies.length ? 'font-medium text-rose-700' : ''}>
+                  {c.allergies.length ? c.allergies.join(', ') : 'None recorded'}
+                </span>
+              </div>
+              {c.notes && (
+                <div className="col-span-2 sm:col-span-4">
+                  <div className="text-xs text-slate-500">Notes</div>
+                  {c.notes}
+                </div>
+              )}
+            </div>
+          )}
+
+          {c && data?.receivable && (
+            <CreditPanel
+              customer={c}
+              receivable={data.receivable}
+              repayments={data.repayments ?? []}
+              onChanged={() => setReloadKey((k) => k + 1)}
+            />
+          )}
+
+          {data?.loyalty && <LoyaltyPanel loyalty={data.loyalty} />}
+
+          {data?.medicines && (
+            <div>
+              <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-600">Medicines given</div>
+              {data.medicines.length === 0 ? (
+                <div className="text-slate-500">No purchases yet.</div>
+              ) : (
+                <table className="w-full text-left">
+                  <thead className="text-xs text-slate-600">
+                    <tr>
+                      <th className="py-1 pr-2">Medicine</th>
+                      <th className="py-1 pr-2">Last given</th>
+                      <th className="py-1 pr-2">Batch</th>
+                      <th className="py-1 pr-2 text-right">Total qty</th>
+                      <th className="py-1 text-right">Times</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.medicines.map((m) => (
+                      <tr key={m.name} className="border-t border-slate-100">
+                        <td className="py-1 pr-2 font-medium">{m.name}</td>
+                        <td className="py-1 pr-2">{new Date(m.lastAt).toLocaleDateString()}</td>
+                        <td className="py-1 pr-2">{m.lastBatchNo}</td>
+                        <td className="py-1 pr-2 text-right">{m.qty}</td>
+                        <td className="py-1 text-right">{m.times}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {data?.sales && data.sales.length > 0 && (
+            <div>
+              <div className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-600">Sales</div>
+              <div className="space-y-1.5">
+                {data.sales.map((s) => (
+                  <div key={s.id} className={`rounded-md border border-slate-200/70 px-2 py-1.5 ${s.voided ? 'text-slate-400' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <span>
+                        #{s.id} · {new Date(s.createdAt).toLocaleString()}
+                        {s.voided && <span className="ml-2 text-[10px] font-semibold text-rose-700">VOID</span>}
+                      </span>
+                      <span className={`font-medium ${s.voided ? 'line-through' : ''}`}>
+                        {s.onCredit > 0 && (
+                          <span className="mr-2 text-xs font-normal text-amber-700">credit {money(s.onCredit)}</span>
+                        )}
+                        {money(s.total)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {s.lines
+                        .map((l) => `${l.name} × ${l.qty}${l.returnedQty ? ` (${l.returnedQty} returned)` : ''}`)
+                        .join(', ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ───────────────────────── Credit (udharo) ───────────────────────── */
+
+/** Balance with 0–30 / 31–60 / 60+ day aging, the credit limit, and a form to record a repayment. */
+function CreditPanel({
+  customer,
+  receivable,
+  repayments,
+  onChanged,
+}: {
+  customer: CustomerSummary;
+  receivable: NonNullable<ApiCustomerDetail['receivable']>;
+  repayments: NonNullable<ApiCustomerDetail['repayments']>;
+  onChanged: () => void;
+}) {
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<RepayMethod>('CASH');
+  const [reference, setReference] = useState('');
+  const [limit, setLimit] = useState(customer.creditLimit == null ? '' : String(customer.creditLimit));
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const overLimit = customer.creditLimit != null && receivable.balance > customer.creditLimit;
+
+  async function repay() {
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch('/api/customers/repayments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ customerId: customer.id, amount: Number(amount), method, reference: reference || null }),
+      });
+      const data = (await res.json()) as { error?: string };
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to record repayment');
+      setAmount('');
+      setReference('');
+      onChanged();
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveLimit() {
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/customers?id=${customer.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ ...customer, creditLimit: limit.trim() ? Number(limit) : null }),
+      });
+      const data = (await res.json()) as ApiCustomer;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to save credit limit');
+      onChanged();
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50/60 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+        <Wallet className="h-4 w-4" /> Credit
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-5">
+        <div>
+          <div className="text-xs text-slate-500">Outstanding</div>
+          <span className={`font-semibold ${receivable.balance > 0 ? 'text-amber-800' : ''}`}>{money(receivable.balance)}</span>
+          {overLimit && <span className="ml-1 text-[10px] font-semibold text-rose-700">OVER LIMIT</span>}
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">0–30 days</div>
+          {money(receivable.buckets.d0_30)}
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">31–60 days</div>
+          {money(receivable.buckets.d31_60)}
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">60+ days</div>
+          <span className={receivable.buckets.d60plus > 0 ? 'font-medium text-rose-700' : ''}>{money(receivable.buckets.d60plus)}</span>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Credit limit</div>
+          <div className="flex items-center gap-1">
+            <Input
+              value={limit}
+              onChange={(e) => setLimit(e.target.value.replace(/[^\d.]/g, ''))}
+              placeholder="No limit"
+              className="h-7 w-24"
+              inputMode="decimal"
+            />
+            <Button
+              variant="secondary"
+              className="h-7 px-2 text-xs"
+              onClick={saveLimit}
+              disabled={busy || limit === (customer.creditLimit == null ? '' : String(customer.creditLimit))}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {receivable.invoices.length > 0 && (
+        <div className="text-xs text-slate-600">
+          Open: {receivable.invoices.map((i) => `#${i.saleId} ${money(i.outstanding)} (${i.ageDays}d)`).join(', ')}
+        </div>
+      )}
+
+      {receivable.balance > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.replace(/[^\d.]/g, ''))}
+            placeholder={`Amount (max ${money(receivable.balance)})`}
+            className="h-8 w-40"
+            inputMode="decimal"
+          />
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as RepayMethod)}
+            className="h-8 rounded-md border border-slate-200 bg-white px-2 text-sm"
+          >
+            {(Object.keys(REPAY_LABELS) as RepayMethod[]).map((m) => (
+              <option key={m} value={m}>
+                {REPAY_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          {method !== 'CASH' && (
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Reference" className="h-8 w-36" />
+          )}
+          <Button className="h-8" onClick={repay} disabled={busy || !(Number(amount) > 0)}>
+            {busy ? 'Saving…' : 'Record repayment'}
+          </Button>
+        </div>
+      )}
+
+      {err && <div className="text-xs text-rose-600">{err}</div>}
+
+      {repayments.length > 0 && (
+        <div className="text-xs text-slate-600">
+          <div className="font-medium">Repayments</div>
+          {repayments.map((r) => (
+            <div key={r.id} className="flex justify-between">
+              <span>
+                {new Date(r.createdAt).toLocaleDateString()} · {REPAY_LABELS[r.method] ?? r.method}
+                {r.reference && ` · ${r.reference}`}
+              </span>
+              <span>{money(r.amount)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ───────────────────────── Loyalty points ───────────────────────── */
+
+/** Points balance, what it is worth at the till, and the ledger behind it (newest first). */
+function LoyaltyPanel({ loyalty }: { loyalty: NonNullable<ApiCustomerDetail['loyalty']> }) {
+  return (
+    <div className="rounded-md border border-emerald-200 bg-emerald-50/60 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+        <Gift className="h-4 w-4" /> Loyalty points
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 sm:grid-cols-4">
+        <div>
+          <div className="text-xs text-slate-500">Balance</div>
+          <span className="font-semibold text-emerald-800">{loyalty.balance}</span>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Worth</div>
+          {money(loyalty.worth)}
+        </div>
+        <div className="col-span-2">
+          <div className="text-xs text-slate-500">Programme</div>
+          {loyalty.earnRate > 0
+            ? `${loyalty.earnRate} pt per 1 spent · 1 pt = ${money(loyalty.pointValue)}`
+            : 'Not earning (no earn rate set)'}
+        </div>
+      </div>
+      {loyalty.entries.length > 0 && (
+        <table className="w-full text-left">
+          <thead className="text-xs text-slate-600">
+            <tr>
+              <th className="py-1 pr-2">Date</th>
+              <th className="py-1 pr-2">Entry</th>
+              <th className="py-1 pr-2">Sale</th>
+              <th className="py-1 pr-2">Expires</th>
+              <th className="py-1 text-right">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loyalty.entries.map((e) => (
+              <tr key={e.id} className="border-t border-emerald-100">
+                <td className="py-1 pr-2">{new Date(e.createdAt).toLocaleDateString()}</td>
+                <td className="py-1 pr-2">{LOYALTY_LABELS[e.kind]}</td>
+                <td className="py-1 pr-2">{e.saleId != null ? `#${e.saleId}` : '-'}</td>
+                <td className="py-1 pr-2">{e.expiresAt ? new Date(e.expiresAt).toLocaleDateString() : '-'}</td>
+                <td className={`py-1 text-right font-medium ${e.points < 0 ? 'text-rose-700' : 'text-emerald-700'}`}>
+                  {e.points > 0 ? `+${e.points}` : e.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
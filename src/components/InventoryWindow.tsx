@@ -34,9 +34,10 @@ type StockItem = {
   batchNumber: string | null;
   manufacturingDate: string | null;
   expiryDate: string | null;
-  purchasePrice: number;
+  purchasePrice: number; // per pack
   sellingPrice: number;
-  qty: number;
+  qty: number; // tablets / bottles
+  packSize: number; // base units in the pack purchasePrice is for
   minQty: number;
   lastUpdated: string;
   shelves: ShelfAlloc[]; // per-shelf distribution
@@ -89,6 +90,9 @@ function normalize(p?: Partial<StockItem> | null): StockItem {
     })
     .filter((s) => s.shelfId || s.shelfName);
 
+  const units = Array.isArray(base.units) ? (base.units as Array<{ unit?: string; size?: unknown }>) : [];
+  const packSize = toNum(units.find((u) => u.unit === 'PACK')?.size) || 1;
+
   return {
     id: String((base.id ?? '') as string),
     name: String((base.name ?? '') as string),
@@ -104,6 +108,7 @@ function normalize(p?: Partial<StockItem> | null): StockItem {
       hasKey(base, 'sellingPrice') ? base.sellingPrice : hasKey(base, 'sellPrice') ? base.sellPrice : 0
     ),
     qty: toNum(base.qty),
+    packSize,
     minQty: toNum(
       hasKey(base, 'minQty')
         ? base.minQty
@@ -279,7 +284,7 @@ export default function InventoryWindow({
     const totalUnits = items.reduce((a, i) => a + i.qty, 0);
     const low = items.filter((i) => i.qty <= i.minQty).length;
     const exp = items.filter((i) => daysUntil(i.expiryDate) <= 30).length;
-    const value = items.reduce((a, i) => a + i.qty * i.purchasePrice, 0);
+    const value = items.reduce((a, i) => a + (i.qty / i.packSize) * i.purchasePrice, 0);
 
     const shelfTotals = new Map<string, number>();
     items.forEach((i) =>
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { parseGs1 } from '@/lib/scanner/gs1';
+
+/* ───────────────────────── Types ───────────────────────── */
+
+/** What /api/barcodes resolves a scanned code to */
+export type BarcodeMatch = {
+  id: number;
+  code: string;
+  medicineId: number;
+  medicineName: string;
+  batchNo: string | null;
+};
+
+type BatchRow = {
+  id: string; // batchNo
+  medicineId: number;
+  name: string;
+  expiryDate: string;
+  qty: number;
+};
+
+type ApiInventory = { items?: BatchRow[]; error?: string };
+type ApiLearned = { ok?: boolean; match?: BarcodeMatch | null; error?: string };
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+
+function useDebounce<T>(v: T, delay = 300): T {
+  const [s, setS] = useState(v);
+  useEffect(() => {
+    const t = setTimeout(() => setS(v), delay);
+    return () => clearTimeout(t);
+  }, [v, delay]);
+  return s;
+}
+
+/* ───────────────────────── Dialog ───────────────────────── */
+
+/**
+ * "Learn this barcode": shown when a scanned code isn't in the registry. Find the item in
+ * stock and link the code to the product (any batch, FEFO) or to that one batch only.
+ * A GS1 DataMatrix carries its own batch, so it is only ever linked to the product.
+ */
+export default function LearnBarcode({
+  code,
+  onClose,
+  onLearned,
+}: {
+  code: string;
+  onClose: () => void;
+  onLearned: (match: BarcodeMatch) => void;
+}) {
+  const gs1 = parseGs1(code);
+  const [q, setQ] = useState(gs1?.batch ?? '');
+  const dq = useDebounce(q);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!dq.trim()) {
+      setRows([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/inventory?q=${encodeURIComponent(dq.trim())}`, { credentials: 'include' });
+        const data = (await res.json()) as ApiInventory;
+        if (!res.ok) throw new Error(data?.error ?? 'Failed to search');
+        if (!cancelled) setRows((data.items ?? []).slice(0, 20));
+      } catch (e: unknown) {
+        if (!cancelled) setErr(errMsg(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [dq]);
+
+  async function learn(row: BatchRow, batchOnly: boolean) {
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch('/api/barcodes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(batchOnly ? { code, batchNo: row.id } : { code, medicineId: row.medicineId }),
+      });
+      const data = (await res.json()) as ApiLearned;
+      if (!res.ok || !data.ok || !data.match) throw new Error(data?.error ?? 'Failed to save barcode');
+      onLearned(data.match);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-[155] bg-black/60 flex items-center justify-center">
+      <div className="w-[92vw] max-w-[560px] rounded-xl overflow-hidden bg-white/95 backdrop-blur border border-white/30">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-white/40">
+          <div className="text-sm font-medium">
+            Unknown barcode <span className="font-mono text-slate-600">{gs1?.gtin ?? code}</span>
+            {gs1 && (
+              <span className="ml-2 text-xs font-normal text-slate-500">
+                {gs1.batch && `batch ${gs1.batch}`}
+                {gs1.expiry && ` · exp ${gs1.expiry}`}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="rounded px-2 py-1 bg-white/70 border border-white/40 text-xs">
+            <X className="h-4 w-4 inline -mt-0.5 mr-1" /> Close
+          </button>
+        </div>
+
+        <div className="p-3 space-y-2 text-sm">
+          <p className="text-xs text-slate-600">
+            Find the item to learn this barcode. <b>Product</b> links the code to the medicine (earliest expiry sells
+            first); <b>This batch</b> links it to one batch, e.g. for your own printed labels.
+          </p>
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              value={q}
+              onChange={(e) => setQ(e.target.value)}
+              placeholder="Medicine name or batch"
+              className="pl-8 h-9"
+              autoFocus
+            />
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto rounded-md border border-white/40 bg-white/70 divide-y divide-white/60">
+            {rows.length === 0 ? (
+              <div className="p-2 text-xs text-slate-500">{dq.trim() ? 'No matches.' : 'Start typing to search stock.'}</div>
+            ) : (
+              rows.map((r) => (
+                <div key={r.id} className="flex items-center gap-2 p-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium">{r.name}</div>
+                    <div className="text-xs text-slate-500">
+                      Batch {r.id}
+                      {r.expiryDate && ` · exp ${r.expiryDate}`} · {r.qty} in stock
+                    </div>
+                  </div>
+                  <Button className="h-8" onClick={() => learn(r, false)} disabled={busy}>
+                    Product
+                  </Button>
+                  {!gs1?.gtin && (
+                    <Button variant="outline" className="h-8" onClick={() => learn(r, true)} disabled={busy}>
+                      This batch
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {err && <div className="text-xs text-rose-600">{err}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
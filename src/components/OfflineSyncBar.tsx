@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { listQueue, removeQueued, syncQueue, updateQueued } from '@/lib/offline/pos';
+import type { QueuedSale } from '@/lib/offline/pos';
+
+/* ───────────────────────── Helpers ───────────────────────── */
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+const money = (n: number) => (Number.isFinite(n) ? n.toFixed(2) : '0.00');
+const when = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RETRY_MS = 30_000;
+
+/* ───────────────────────── Bar ───────────────────────── */
+
+/**
+ * Offline state of the sell screen: whether it is selling from the stock snapshot, how many
+ * queued sales are waiting, and the reconciliation list of sales the server refused on replay
+ * (e.g. the stock was sold elsewhere meanwhile). Replays on mount, when the browser comes back
+ * online, every 30s while sales wait, and whenever `refreshKey` changes (a sale was queued).
+ * `onSynced` runs after any queued sale is recorded, to reload stock.
+ */
+export default function OfflineSyncBar({
+  offline,
+  refreshKey,
+  onSynced,
+}: {
+  offline: boolean;
+  refreshKey?: unknown;
+  onSynced: () => void;
+}) {
+  const [queue, setQueue] = useState<QueuedSale[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const busy = useRef(false);
+
+  const pending = queue.filter((s) => s.status === 'PENDING');
+  const conflicts = queue.filter((s) => s.status === 'CONFLICT');
+
+  const sync = useCallback(async () => {
+    if (busy.current) return;
+    busy.current = true;
+    setSyncing(true);
+    try {
+      const r = await syncQueue();
+      setQueue(await listQueue());
+      setErr(null);
+      if (r.synced > 0) onSynced();
+      if (r.conflicts > 0) setShowConflicts(true);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      busy.current = false;
+      setSyncing(false);
+    }
+  }, [onSynced]);
+
+  useEffect(() => {
+    sync();
+  }, [sync, refreshKey]);
+
+  useEffect(() => {
+    const onOnline = () => sync();
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [sync]);
+
+  useEffect(() => {
+    if (pending.length === 0) return;
+    const t = setInterval(sync, RETRY_MS);
+    return () => clearInterval(t);
+  }, [pending.length, sync]);
+
+  async function retry(sale: QueuedSale) {
+    await updateQueued({ ...sale, status: 'PENDING', error: null });
+    await sync();
+  }
+
+  async function dismiss(sale: QueuedSale) {
+    if (!window.confirm('Remove this sale from the list? It will not be recorded — handle it by hand.')) return;
+    await removeQueued(sale.key);
+    setQueue(await listQueue());
+  }
+
+  if (!offline && queue.length === 0) return null;
+
+  return (
+    <div
+      className={`rounded-md border px-2 py-1.5 text-sm space-y-1.5 ${
+        offline || conflicts.length ? 'border-amber-200 bg-amber-50/80' : 'border-white/40 bg-white/60'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <CloudOff className={`h-4 w-4 ${offline ? 'text-amber-700' : 'text-slate-500'}`} />
+        <span className={offline ? 'text-amber-800' : 'text-slate-700'}>
+          {offline ? 'Offline — selling from the last stock snapshot. ' : ''}
+          {pending.length > 0
+            ? `${pending.length} sale${pending.length === 1 ? '' : 's'} waiting to sync.`
+            : offline
+            ? 'Sales will be queued.'
+            : ''}
+        </span>
+        {conflicts.length > 0 && (
+          <button onClick={() => setShowConflicts((v) => !v)} className="text-rose-700 underline underline-offset-2">
+            <AlertTriangle className="h-3.5 w-3.5 inline -mt-0.5 mr-1" />
+            {conflicts.length} to reconcile
+          </button>
+        )}
+        {pending.length > 0 && (
+          <Button variant="outline" className="ml-auto h-7 px-2 text-xs" onClick={sync} disabled={syncing}>
+            <RefreshCw className={`h-3.5 w-3.5 mr-1 ${syncing ? 'animate-spin' : ''}`} /> Sync now
+          </Button>
+        )}
+      </div>
+
+      {showConflicts && conflicts.length > 0 && (
+        <div className="rounded-md border border-white/50 bg-white/80 divide-y divide-slate-100">
+          {conflicts.map((s) => (
+            <div key={s.key} className="flex items-start gap-2 p-2 text-xs">
+              <div className="min-w-0 flex-1">
+                <div className="font-medium text-slate-800">
+                  {when(s.createdAt)} · {money(s.summary.total)}
+                </div>
+                <div className="text-slate-600 truncate">
+                  {s.summary.lines.map((l) => `${l.name} × ${l.qty} ${l.unit.toLowerCase()}`).join(', ')}
+                </div>
+                <div className="text-rose-700">{s.error}</div>
+              </div>
+              <Button variant="outline" className="h-7 px-2 text-xs" onClick={() => retry(s)} disabled={syncing} title="Try again, e.g. after restocking">
+                <RotateCcw className="h-3.5 w-3.5 mr-1" /> Retry
+              </Button>
+              <Button variant="outline" className="h-7 px-2 text-xs" onClick={() => dismiss(s)} title="Handled by hand">
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {err && <div className="text-xs text-rose-600">{err}</div>}
+    </div>
+  );
+}
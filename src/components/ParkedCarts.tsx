@@ -0,0 +1,222 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { PauseCircle, PlayCircle, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/* ───────────────────────── Types ───────────────────────── */
+
+type ParkedCartRow = {
+  id: number;
+  label: string;
+  itemCount: number;
+  total: number;
+  reserved: boolean;
+  customer: string | null;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type ApiParked = { items?: ParkedCartRow[]; error?: string };
+type ApiResumed = { ok?: boolean; label?: string; cart?: unknown; snapshot?: unknown; error?: string };
+
+/** What a parked cart is made of: the checkout body plus whatever the sell window needs to redraw it */
+export type ParkPayload = { cart: Record<string, unknown>; snapshot: Record<string, unknown> };
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+const money = (n: number) => (Number.isFinite(n) ? n.toFixed(2) : '0.00');
+const until = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/* ───────────────────────── Bar ───────────────────────── */
+
+/**
+ * Park the current cart under a label (optionally holding its stock) and resume parked carts,
+ * from this or any other terminal. Resuming is only offered while the current cart is empty.
+ * Each change of `parkSignal` opens the park form, for the keyboard shortcut.
+ */
+export default function ParkedCarts({
+  payload,
+  cartEmpty,
+  onParked,
+  onResume,
+  parkSignal = 0,
+}: {
+  payload: () => ParkPayload | null;
+  cartEmpty: boolean;
+  onParked: (label: string) => void;
+  onResume: (snapshot: unknown, label: string) => void;
+  parkSignal?: number;
+}) {
+  const [items, setItems] = useState<ParkedCartRow[]>([]);
+  const [open, setOpen] = useState(false);
+  const [parking, setParking] = useState(false);
+  const [label, setLabel] = useState('');
+  const [reserve, setReserve] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sales/parked', { credentials: 'include', cache: 'no-store' });
+      const data = (await res.json()) as ApiParked;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to load parked carts');
+      setItems(data.items ?? []);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const seenSignal = useRef(parkSignal);
+  useEffect(() => {
+    if (parkSignal === seenSignal.current) return;
+    seenSignal.current = parkSignal;
+    if (!cartEmpty) setParking(true);
+  }, [parkSignal, cartEmpty]);
+
+  async function park() {
+    const p = payload();
+    if (!p || !label.trim()) return;
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch('/api/sales/parked', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ label: label.trim(), reserve, ...p }),
+      });
+      const data = (await res.json()) as { ok?: boolean; error?: string };
+      if (!res.ok || !data.ok) throw new Error(data?.error ?? 'Failed to park cart');
+      onParked(label.trim());
+      setParking(false);
+      setLabel('');
+      setReserve(false);
+      await load();
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function resume(row: ParkedCartRow) {
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch('/api/sales/parked/resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ id: row.id }),
+      });
+      const data = (await res.json()) as ApiResumed;
+      if (!res.ok || !data.ok) throw new Error(data?.error ?? 'Failed to resume cart');
+      onResume(data.snapshot, data.label ?? row.label);
+      setOpen(false);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  }
+
+  async function discard(row: ParkedCartRow) {
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/sales/parked?id=${row.id}`, { method: 'DELETE', credentials: 'include' });
+      const data = (await res.json()) as { ok?: boolean; error?: string };
+      if (!res.ok || !data.ok) throw new Error(data?.error ?? 'Failed to discard cart');
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setBusy(false);
+      await load();
+    }
+  }
+
+  return (
+    <div className="space-y-1.5 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" className="h-8" onClick={() => setParking((v) => !v)} disabled={cartEmpty || busy}>
+          <PauseCircle className="h-4 w-4 mr-1" /> Park cart
+        </Button>
+        <Button
+          variant="outline"
+          className="h-8"
+          onClick={() => {
+            setOpen((v) => !v);
+            load();
+          }}
+        >
+          <PlayCircle className="h-4 w-4 mr-1" /> Parked ({items.length})
+        </Button>
+      </div>
+
+      {parking && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border border-white/40 bg-white/70 p-2">
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value.slice(0, 60))}
+            onKeyDown={(e) => e.key === 'Enter' && park()}
+            placeholder="Label, e.g. Man in blue jacket"
+            className="h-8 flex-1 min-w-[10rem]"
+            autoFocus
+          />
+          <label className="flex items-center gap-1 text-xs text-slate-700" title="Take the stock off the shelf until the cart is resumed or expires">
+            <input type="checkbox" checked={reserve} onChange={(e) => setReserve(e.target.checked)} />
+            Hold stock
+          </label>
+          <Button className="h-8" onClick={park} disabled={busy || !label.trim()}>
+            {busy ? 'Parking…' : 'Park'}
+          </Button>
+          <button type="button" onClick={() => setParking(false)} className="rounded p-1 text-slate-500 hover:bg-black/5" title="Cancel">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {open && (
+        <div className="rounded-md border border-white/40 bg-white/70 divide-y divide-white/60">
+          {items.length === 0 ? (
+            <div className="p-2 text-xs text-slate-500">No parked carts.</div>
+          ) : (
+            items.map((c) => (
+              <div key={c.id} className="flex items-center gap-2 p-2">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">
+                    {c.label}
+                    {c.customer && <span className="font-normal text-slate-500"> · {c.customer}</span>}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {c.itemCount} item{c.itemCount === 1 ? '' : 's'} · {money(c.total)}
+                    {c.reserved && ' · stock held'} · expires {until(c.expiresAt)}
+                  </div>
+                </div>
+                <Button
+                  className="h-8"
+                  onClick={() => resume(c)}
+                  disabled={busy || !cartEmpty}
+                  title={cartEmpty ? 'Resume this cart' : 'Park or clear the current cart first'}
+                >
+                  Resume
+                </Button>
+                <Button size="icon" variant="destructive" className="h-8 w-8" onClick={() => discard(c)} disabled={busy} title="Discard">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {err && <div className="text-xs text-rose-600">{err}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { FileText, X, Plus, Camera } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/* ───────────────────────── Types ───────────────────────── */
+
+export type PrescriptionSummary = {
+  id: number;
+  prescriberName: string;
+  nmcNumber: string;
+  patientName: string;
+  patientAge: number | null;
+  prescribedAt: string; // YYYY-MM-DD
+  notes: string | null;
+  images: Array<{ id: string; contentType: string; originalName: string; url: string }>;
+  salesCount: number;
+};
+
+type ApiPrescriptions = { items?: PrescriptionSummary[]; error?: string };
+type ApiPrescription = { item?: PrescriptionSummary; error?: string };
+
+type Draft = { prescriberName: string; nmcNumber: string; patientName: string; patientAge: string; prescribedAt: string; notes: string };
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+const today = () => new Date().toISOString().slice(0, 10);
+
+/* ───────────────────────── Picker ───────────────────────── */
+
+/**
+ * Attach a prescription to the cart: pick one of the customer's earlier prescriptions (refills)
+ * or record a new one with a photo. `required` lists the prescription-only items in the cart.
+ */
+export default function PrescriptionPicker({
+  value,
+  onChange,
+  customer,
+  required,
+}: {
+  value: PrescriptionSummary | null;
+  onChange: (p: PrescriptionSummary | null) => void;
+  customer: { id: number; name: string; age: number | null } | null;
+  required: string[];
+}) {
+  const [recent, setRecent] = useState<PrescriptionSummary[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const customerId = customer?.id ?? null;
+  useEffect(() => {
+    if (customerId == null) {
+      setRecent([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/prescriptions?customerId=${customerId}`, { credentials: 'include' });
+        const data = (await res.json()) as ApiPrescriptions;
+        if (!res.ok) throw new Error(data?.error ?? 'Failed to load prescriptions');
+        if (!cancelled) setRecent(data.items ?? []);
+      } catch (e: unknown) {
+        if (!cancelled) setErr(errMsg(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  function startDraft() {
+    setErr(null);
+    setFiles([]);
+    setDraft({
+      prescriberName: '',
+      nmcNumber: '',
+      patientName: customer?.name ?? '',
+      patientAge: customer?.age != null ? String(customer.age) : '',
+      prescribedAt: today(),
+      notes: '',
+    });
+  }
+
+  async function save() {
+    if (!draft) return;
+    setErr(null);
+    setSaving(true);
+    try {
+      const form = new FormData();
+      for (const [k, v] of Object.entries(draft)) form.append(k, v);
+      if (customerId != null) form.append('customerId', String(customerId));
+      for (const f of files) form.append('images', f);
+
+      const res = await fetch('/api/prescriptions', { method: 'POST', credentials: 'include', body: form });
+      const data = (await res.json()) as ApiPrescription;
+      if (!res.ok || !data.item) throw new Error(data?.error ?? 'Failed to save prescription');
+      onChange(data.item);
+      setRecent((prev) => [data.item as PrescriptionSummary, ...prev]);
+      setDraft(null);
+      setFiles([]);
+    } catch (e: unknown) {
+      setErr(errMsg(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (value) {
+    return (
+      <div className="rounded-md border border-white/40 bg-white/70 px-2 py-1.5 text-sm">
+        <div className="flex items-center gap-2">
+          <FileText className="h-4 w-4 text-slate-500" />
+          <div className="min-w-0 flex-1 truncate">
+            <span className="font-medium">Rx #{value.id}</span>
+            <span className="text-slate-500">
+              {' '}
+              · {value.patientName} · Dr. {value.prescriberName} (NMC {value.nmcNumber}) · {value.prescribedAt}
+            </span>
+          </div>
+          {value.images[0] && (
+            <a href={value.images[0].url} target="_blank" rel="noreferrer" className="text-xs text-blue-700 hover:underline">
+              View
+            </a>
+          )}
+          <button type="button" onClick={() => onChange(null)} className="rounded p-1 text-slate-500 hover:bg-black/5" title="Detach prescription">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (required.length === 0 && !draft) {
+    return (
+      <button type="button" onClick={startDraft} className="flex items-center gap-1 text-xs text-blue-700 hover:underline">
+        <Plus className="h-3.5 w-3.5" /> Attach prescription
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50/70 p-2 text-sm space-y-1.5">
+      {required.length > 0 && (
+        <div className="text-xs font-medium text-amber-800">Prescription required for {required.join(', ')}</div>
+      )}
+
+      {!draft && recent.length > 0 && (
+        <div className="space-y-1">
+          {recent.slice(0, 3).map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => onChange(p)}
+              className="flex w-full items-center justify-between rounded border border-white/60 bg-white/80 px-2 py-1 text-left hover:bg-white"
+            >
+              <span className="truncate">
+                {p.prescribedAt} · Dr. {p.prescriberName}
+              </span>
+              <span className="ml-2 text-xs text-slate-500">
+                NMC {p.nmcNumber}
+                {p.salesCount > 0 && ` · used ${p.salesCount}×`}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!draft && (
+        <Button variant="secondary" className="h-8" onClick={startDraft}>
+          <Plus className="h-3.5 w-3.5 mr-1" /> New prescription
+        </Button>
+      )}
+
+      {draft && (
+        <div className="space-y-1.5">
+          <div className="grid grid-cols-2 gap-1.5">
+            <Input value={draft.prescriberName} onChange={(e) => setDraft({ ...draft, prescriberName: e.target.value })} placeholder="Prescriber (doctor) *" className="h-8" />
+            <Input
+              value={draft.nmcNumber}
+              onChange={(e) => setDraft({ ...draft, nmcNumber: e.target.value.replace(/\D/g, '') })}
+              placeholder="NMC reg. no. *"
+              className="h-8"
+              inputMode="numeric"
+            />
+            <Input value={draft.patientName} onChange={(e) => setDraft({ ...draft, patientName: e.target.value })} placeholder="Patient *" className="h-8" />
+            <Input
+              value={draft.patientAge}
+              onChange={(e) => setDraft({ ...draft, patientAge: e.target.value.replace(/\D/g, '') })}
+              placeholder="Age"
+              className="h-8"
+              inputMode="numeric"
+            />
+            <Input type="date" value={draft.prescribedAt} max={today()} onChange={(e) => setDraft({ ...draft, prescribedAt: e.target.value })} className="h-8" />
+            <label className="flex h-8 cursor-pointer items-center gap-1 rounded-md border border-white/40 bg-white/90 px-2 text-xs text-slate-700">
+              <Camera className="h-3.5 w-3.5" />
+              {files.length ? `${files.length} photo${files.length > 1 ? 's' : ''}` : 'Photo / scan *'}
+              <input
+                type="file"
+                accept="image/*,application/pdf"
+                capture="environment"
+                multiple
+                className="hidden"
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []).slice(0, 4))}
+              />
+            </label>
+          </div>
+          <Input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes" className="h-8" />
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" className="h-8" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              className="h-8"
+              onClick={save}
+              disabled={saving || !draft.prescriberName.trim() || !draft.nmcNumber || !draft.patientName.trim() || files.length === 0}
+            >
+              {saving ? 'Saving…' : 'Save & attach'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {err && <div className="text-xs text-rose-600">{err}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RefreshCw, Plus, Trash2, Power } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+/* ───────────────────────── Types ───────────────────────── */
+
+type Scope = 'ALL' | 'MEDICINE' | 'MANUFACTURER' | 'EXPIRING';
+type DiscountType = 'PERCENT' | 'FIXED';
+
+type Promotion = {
+  id: number;
+  name: string;
+  scope: Scope;
+  discountType: DiscountType;
+  value: number;
+  medicineId: number | null;
+  medicineName: string | null;
+  manufacturer: string | null;
+  expiringWithinDays: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+};
+
+type ApiPromotions = { items?: Promotion[]; error?: string };
+type ApiPromotion = { item?: Promotion; ok?: boolean; error?: string };
+type InventoryRow = { medicineId?: number; name?: string; supplierName?: string | null };
+
+type Draft = {
+  name: string;
+  scope: Scope;
+  discountType: DiscountType;
+  value: string;
+  medicineId: string;
+  manufacturer: string;
+  expiringWithinDays: string;
+  startsAt: string;
+  endsAt: string;
+};
+
+const EMPTY: Draft = {
+  name: '',
+  scope: 'ALL',
+  discountType: 'PERCENT',
+  value: '',
+  medicineId: '',
+  manufacturer: '',
+  expiringWithinDays: '30',
+  startsAt: '',
+  endsAt: '',
+};
+
+const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
+const day = (s: string | null) => (s ? new Date(s).toLocaleDateString() : null);
+
+function describe(p: Promotion) {
+  const off = p.discountType === 'PERCENT' ? `${p.value}% off` : `${p.value.toFixed(2)} off per unit`;
+  const target =
+    p.scope === 'ALL'
+      ? 'everything'
+      : p.scope === 'MEDICINE'
+      ? p.medicineName ?? `medicine #${p.medicineId}`
+      : p.scope === 'MANUFACTURER'
+      ? `all ${p.manufacturer}`
+      : `batches expiring within ${p.expiringWithinDays} days`;
+  const from = day(p.startsAt);
+  const to = day(p.endsAt);
+  const when = from || to ? ` (${from ?? '…'} – ${to ?? '…'})` : '';
+  return `${off} ${target}${when}`;
+}
+
+function toBody(p: Promotion | Draft) {
+  if ('id' in p) {
+    return {
+      name: p.name,
+      scope: p.scope,
+      discountType: p.discountType,
+      value: p.value,
+      medicineId: p.medicineId,
+      manufacturer: p.manufacturer,
+      expiringWithinDays: p.expiringWithinDays,
+      startsAt: p.startsAt,
+      endsAt: p.endsAt,
+      isActive: p.isActive,
+    };
+  }
+  return {
+    name: p.name,
+    scope: p.scope,
+    discountType: p.discountType,
+    value: Number(p.value),
+    medicineId: p.medicineId ? Number(p.medicineId) : null,
+    manufacturer: p.manufacturer || null,
+    expiringWithinDays: p.expiringWithinDays ? Number(p.expiringWithinDays) : null,
+    startsAt: p.startsAt ? new Date(`${p.startsAt}T00:00:00`).toISOString() : null,
+    endsAt: p.endsAt ? new Date(`${p.endsAt}T23:59:59`).toISOString() : null,
+  };
+}
+
+/* ───────────────────────── Component ───────────────────────── */
+
+/** Promotions the checkout applies automatically (best single discount per line). */
+export default function PromotionsPanel({ onNotice }: { onNotice?: (kind: 'success' | 'error', text: string) => void }) {
+  const [items, setItems] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<Draft>(EMPTY);
+  const [medicines, setMedicines] = useState<Array<{ id: number; name: string }>>([]);
+  const [manufacturers, setManufacturers] = useState<string[]>([]);
+
+  // parent callback may change identity every render; keep loaders stable
+  const noticeRef = useRef(onNotice);
+  useEffect(() => {
+    noticeRef.current = onNotice;
+  }, [onNotice]);
+  const notify = useCallback((kind: 'success' | 'error', text: string) => noticeRef.current?.(kind, text), []);
+
+  const fetchPromotions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/promotions', { credentials: 'include' });
+      const data = (await res.json()) as ApiPromotions;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to load promotions');
+      setItems(data.items ?? []);
+    } catch (e: unknown) {
+      notify('error', errMsg(e));
+    } finally {
+      setLoading(false);
+    }
+  }, [notify]);
+
+  // medicine + manufacturer pickers come from what is in stock
+  const fetchCatalog = useCallback(async () => {
+    try {
+      const res = await fetch('/api/inventory', { credentials: 'include' });
+      const data = (await res.json()) as { items?: InventoryRow[] };
+      if (!res.ok) return;
+      const meds = new Map<number, string>();
+      const makers = new Set<string>();
+      for (const r of data.items ?? []) {
+        if (typeof r.medicineId === 'number' && r.name) meds.set(r.medicineId, r.name);
+        if (r.supplierName) makers.add(r.supplierName);
+      }
+      setMedicines(Array.from(meds, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)));
+      setManufacturers(Array.from(makers).sort());
+    } catch {
+      /* pickers stay empty */
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPromotions();
+    fetchCatalog();
+  }, [fetchPromotions, fetchCatalog]);
+
+  const canSave = useMemo(() => {
+    if (!draft.name.trim() || !(Number(draft.value) > 0)) return false;
+    if (draft.scope === 'MEDICINE') return !!draft.medicineId;
+    if (draft.scope === 'MANUFACTURER') return !!draft.manufacturer.trim();
+    if (draft.scope === 'EXPIRING') return draft.expiringWithinDays !== '';
+    return true;
+  }, [draft]);
+
+  async function save(method: 'POST' | 'PUT', body: ReturnType<typeof toBody>, id?: number) {
+    setSaving(true);
+    try {
+      const res = await fetch(id ? `/api/promotions?id=${id}` : '/api/promotions', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+      const data = (await res.json()) as ApiPromotion;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to save promotion');
+      await fetchPromotions();
+      return true;
+    } catch (e: unknown) {
+      notify('error', errMsg(e));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function create() {
+    if (await save('POST', toBody(draft))) {
+      notify('success', `Promotion “${draft.name.trim()}” created.`);
+      setDraft(EMPTY);
+    }
+  }
+
+  async function toggle(p: Promotion) {
+    if (await save('PUT', toBody({ ...p, isActive: !p.isActive }), p.id)) {
+      notify('success', `Promotion “${p.name}” ${p.isActive ? 'paused' : 'activated'}.`);
+    }
+  }
+
+  async function remove(p: Promotion) {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/promotions?id=${p.id}`, { method: 'DELETE', credentials: 'include' });
+      const data = (await res.json()) as ApiPromotion;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to delete promotion');
+      notify('success', `Promotion “${p.name}” deleted.`);
+      await fetchPromotions();
+    } catch (e: unknown) {
+      notify('error', errMsg(e));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const set = <K extends keyof Draft>(k: K, v: Draft[K]) => setDraft((d) => ({ ...d, [k]: v }));
+  const select = 'h-9 rounded-md border border-slate-200 bg-white px-2 text-sm';
+
+  return (
+    <Card className="bg-white/60 backdrop-blur-lg border-white/40">
+      <CardHeader className="pb-2 pt-3 md:pt-4">
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-xl">Promotions</CardTitle>
+          <Button variant="outline" className="ml-auto h-9" onClick={fetchPromotions} disabled={loading} title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-3 md:p-4 space-y-4">
+        {/* new promotion */}
+        <div className="rounded-lg border border-white/40 bg-white/70 p-3 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <Input
+              value={draft.name}
+              onChange={(e) => set('name', e.target.value)}
+              placeholder="Name (e.g. Near-expiry clearance)"
+              className="h-9 flex-1 min-w-[180px]"
+            />
+            <select value={draft.scope} onChange={(e) => set('scope', e.target.value as Scope)} className={select}>
+              <option value="ALL">All items</option>
+              <option value="MEDICINE">One medicine</option>
+              <option value="MANUFACTURER">Manufacturer</option>
+              <option value="EXPIRING">Near expiry</option>
+            </select>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={draft.discountType}
+              onChange={(e) => set('discountType', e.target.value as DiscountType)}
+              className={select}
+            >
+              <option value="PERCENT">% off</option>
+              <option value="FIXED">Amount off per unit</option>
+            </select>
+            <Input
+              value={draft.value}
+              onChange={(e) => set('value', e.target.value)}
+              placeholder={draft.discountType === 'PERCENT' ? '10' : '5.00'}
+              className="h-9 w-24"
+              inputMode="decimal"
+            />
+
+            {draft.scope === 'MEDICINE' && (
+              <select value={draft.medicineId} onChange={(e) => set('medicineId', e.target.value)} className={`${select} flex-1`}>
+                <option value="">Pick a medicine…</option>
+                {medicines.map((m) => (
+                  <option key={m.id} value={String(m.id)}>
+                    {m.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {draft.scope === 'MANUFACTURER' && (
+              <>
+                <Input
+                  value={draft.manufacturer}
+                  onChange={(e) => set('manufacturer', e.target.value)}
+                  placeholder="Manufacturer"
+                  className="h-9 flex-1"
+                  list="promo-manufacturers"
+                />
+                <datalist id="promo-manufacturers">
+                  {manufacturers.map((m) => (
+                    <option key={m} value={m} />
+                  ))}
+                </datalist>
+              </>
+            )}
+            {draft.scope === 'EXPIRING' && (
+              <div className="flex items-center gap-2 text-sm">
+                within
+                <Input
+                  value={draft.expiringWithinDays}
+                  onChange={(e) => set('expiringWithinDays', e.target.value)}
+                  className="h-9 w-20"
+                  inputMode="numeric"
+                />
+                days
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            From
+            <Input type="date" value={draft.startsAt} onChange={(e) => set('startsAt', e.target.value)} className="h-9 w-40" />
+            to
+            <Input type="date" value={draft.endsAt} onChange={(e) => set('endsAt', e.target.value)} className="h-9 w-40" />
+            <Button className="ml-auto h-9" onClick={create} disabled={saving || !canSave}>
+              <Plus className="h-4 w-4 mr-1" /> Add promotion
+            </Button>
+          </div>
+        </div>
+
+        {/* list */}
+        <div className="rounded-lg border border-white/40 bg-white/60 divide-y divide-white/60">
+          {items.length === 0 ? (
+            <div className="p-3 text-sm text-slate-600">{loading ? 'Loading…' : 'No promotions yet'}</div>
+          ) : (
+            items.map((p) => (
+              <div key={p.id} className={`flex items-center gap-2 p-3 ${p.isActive ? '' : 'opacity-60'}`}>
+                <div className="flex-1">
+                  <div className="text-sm font-medium">
+                    {p.name}
+                    {!p.isActive && <span className="ml-2 text-[11px] text-slate-500">paused</span>}
+                  </div>
+                  <div className="text-xs text-slate-600">{describe(p)}</div>
+                </div>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  className="h-8 w-8"
+                  onClick={() => toggle(p)}
+                  disabled={saving}
+                  title={p.isActive ? 'Pause' : 'Activate'}
+                >
+                  <Power className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="destructive" className="h-8 w-8" onClick={() => remove(p)} disabled={saving}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+        <p className="text-xs text-slate-600">
+          Checkout gives each line the single best discount — the cashier’s line discount or a matching promotion, never both.
+          A bill discount is applied on top and spread across the lines.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,7 @@ import {
   XAxis, YAxis, ResponsiveContainer, Legend, Cell
 } from 'recharts';
 import type { PieLabelRenderProps } from 'recharts';
-import { Download, Filter, RefreshCw, ChevronRight, Calendar, TrendingUp, Package, AlertCircle } from 'lucide-react';
+import { Download, Filter, RefreshCw, ChevronRight, Calendar, TrendingUp, Package, AlertCircle, Wallet, ClipboardList, Tag } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,7 +17,7 @@ type PieLabelProps = { percent?: number | string; name?: string | number };
 /* ------------------------------------------------------------------ */
 /* Types                                                               */
 /* ------------------------------------------------------------------ */
-type Section = 'overview' | 'sales' | 'inventory' | 'alerts';
+type Section = 'overview' | 'sales' | 'inventory' | 'alerts' | 'receivables' | 'register' | 'overrides';
 
 export type ReportsWindowProps = {
   open: boolean;
@@ -29,13 +29,99 @@ export type ReportsWindowProps = {
   centerOnOpen?: boolean;
 };
 
-type TrendPoint = { date: string; sales: number; profit: number };
+type TaxTotals = { taxable: number; tax: number; exempt: number };
+type TrendPoint = { date: string; sales: number; profit: number } & TaxTotals;
 type TopItem = { name: string; qty: number; revenue: number };
 type Category = { name: string; value: number };
 type Aging = { bucket: string; qty: number };
-type Summary = { revenue: number; profit: number; orders: number; items: number };
+type PaymentTotal = { method: string; label: string; amount: number; count: number };
+type Summary = {
+  gross: number;
+  discounts: number;
+  revenue: number;
+  profit: number;
+  orders: number;
+  items: number;
+  tax: TaxTotals;
+  payments: PaymentTotal[];
+};
 type AlertRow = { id: string; name: string; qty: number; expiry?: string | null };
 
+type AgingBuckets = { d0_30: number; d31_60: number; d60plus: number };
+type ReceivableRow = {
+  customerId: number;
+  name: string;
+  phone: string | null;
+  creditLimit: number | null;
+  balance: number;
+  buckets: AgingBuckets;
+  openSales: number;
+  oldestAt: string | null;
+  lastRepaymentAt: string | null;
+};
+type ApiReceivables = {
+  asOf: string;
+  items: ReceivableRow[];
+  totals: { balance: number; buckets: AgingBuckets; customers: number };
+  error?: string;
+};
+
+/* controlled-substance register of one scheduled medicine */
+type ScheduledMedicine = { id: number; name: string; schedule: 'NARCOTIC' | 'PSYCHOTROPIC' };
+type NarcoticEntryRow = {
+  id: number;
+  at: string;
+  kind: 'DISPENSED' | 'RETURNED' | 'VOIDED' | 'RECEIVED' | 'ADJUSTED';
+  batchNo: string;
+  qty: number;
+  balance: number;
+  saleId: number | null;
+  patientName: string | null;
+  patientAge: number | null;
+  prescriberName: string | null;
+  nmcNumber: string | null;
+  createdBy: string | null;
+};
+type ApiNarcoticRegister = {
+  medicines: ScheduledMedicine[];
+  medicine: ScheduledMedicine | null;
+  from: string;
+  to: string;
+  opening: number | null;
+  closing: number | null;
+  dispensed: number;
+  returned: number;
+  received: number;
+  adjusted: number;
+  items: NarcoticEntryRow[];
+  error?: string;
+};
+
+/* price overrides rung up at the counter, per cashier */
+type PriceOverrideRow = {
+  lineId: number;
+  saleId: number;
+  at: string;
+  voided: boolean;
+  name: string;
+  batchNo: string;
+  sellUnit: 'PACK' | 'STRIP' | 'UNIT';
+  sellQty: number;
+  originalPrice: number;
+  price: number;
+  reduction: number;
+  reason: string | null;
+  approver: string | null;
+};
+type ApiPriceOverrides = {
+  from: string;
+  to: string;
+  count: number;
+  reduction: number;
+  cashiers: Array<{ cashier: string; count: number; reduction: number; items: PriceOverrideRow[] }>;
+  error?: string;
+};
+
 type ApiReports = {
   trend: TrendPoint[];
   top: TopItem[];
@@ -72,6 +158,26 @@ const labelPctOnly = ({ percent }: PieLabelProps) => {
   return `${Math.round(p * 100)}%`;
 };
 
+/* sample receivables when the API is unavailable */
+function makeMockReceivables(): ApiReceivables {
+  const day = 24 * 60 * 60 * 1000;
+  const items: ReceivableRow[] = [
+    { customerId: 1, name: 'Ram Bahadur', phone: '9801234567', creditLimit: 5000, balance: 4200, buckets: { d0_30: 1200, d31_60: 1800, d60plus: 1200 }, openSales: 5, oldestAt: new Date(Date.now() - 75 * day).toISOString(), lastRepaymentAt: new Date(Date.now() - 20 * day).toISOString() },
+    { customerId: 2, name: 'Sita Sharma', phone: '9841000001', creditLimit: null, balance: 1650, buckets: { d0_30: 1650, d31_60: 0, d60plus: 0 }, openSales: 2, oldestAt: new Date(Date.now() - 12 * day).toISOString(), lastRepaymentAt: null },
+    { customerId: 3, name: 'Hari Thapa', phone: null, creditLimit: 2000, balance: 900, buckets: { d0_30: 0, d31_60: 900, d60plus: 0 }, openSales: 1, oldestAt: new Date(Date.now() - 40 * day).toISOString(), lastRepaymentAt: null },
+  ];
+  const sum = (k: keyof AgingBuckets) => items.reduce((a, i) => a + i.buckets[k], 0);
+  return {
+    asOf: new Date().toISOString(),
+    items,
+    totals: {
+      balance: items.reduce((a, i) => a + i.balance, 0),
+      buckets: { d0_30: sum('d0_30'), d31_60: sum('d31_60'), d60plus: sum('d60plus') },
+      customers: items.length,
+    },
+  };
+}
+
 /* ------------------------------------------------------------------ */
 /* Component                                                           */
 /* ------------------------------------------------------------------ */
@@ -134,8 +240,23 @@ export default function ReportsWindow({
   const [top, setTop] = useState<TopItem[]>([]);
   const [cats, setCats] = useState<Category[]>([]);
   const [aging, setAging] = useState<Aging[]>([]);
-  const [summary, setSummary] = useState<Summary>({ revenue: 0, profit: 0, orders: 0, items: 0 });
+  const [summary, setSummary] = useState<Summary>({
+    gross: 0,
+    discounts: 0,
+    revenue: 0,
+    profit: 0,
+    orders: 0,
+    items: 0,
+    tax: { taxable: 0, tax: 0, exempt: 0 },
+    payments: [],
+  });
   const [alerts, setAlerts] = useState<AlertRow[]>([]);
+  const [receivables, setReceivables] = useState<ApiReceivables | null>(null);
+  const [register, setRegister] = useState<ApiNarcoticRegister | null>(null);
+  const [registerMedicineId, setRegisterMedicineId] = useState<number | null>(null);
+  const [registerError, setRegisterError] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<ApiPriceOverrides | null>(null);
+  const [overridesError, setOverridesError] = useState<string | null>(null);
 
   /* data loader */
   async function tryFetchFromApi(rangeFrom: string, rangeTo: string): Promise<ApiReports | null> {
@@ -153,6 +274,18 @@ export default function ReportsWindow({
     }
   }
 
+  // receivables are "as of now", not tied to the date range
+  const fetchReceivables = useCallback(async (): Promise<ApiReceivables> => {
+    try {
+      const res = await fetch('/api/reports/receivables', { credentials: 'include', cache: 'no-store' });
+      const data = (await res.json()) as ApiReceivables;
+      if (!res.ok || data?.error) throw new Error(data?.error || 'Failed to fetch');
+      return data;
+    } catch {
+      return makeMockReceivables();
+    }
+  }, []);
+
   function makeMock(rangeFrom: string, rangeTo: string): ApiReports {
     const seed = (str: string) => str.split('').reduce((a, c) => a + c.charCodeAt(0), 0);
     const s = seed(`${rangeFrom}:${rangeTo}`);
@@ -163,7 +296,9 @@ export default function ReportsWindow({
       const d = new Date(now); d.setDate(d.getDate() - (days - 1 - i));
       const sales = rnd(i, 10000, 3500) + i * 120;
       const profit = Math.round(sales * (0.18 + ((i % 5) - 2) * 0.01));
-      return { date: d.toLocaleDateString(), sales, profit };
+      const taxable = Math.round((sales * 0.3) / 1.13);
+      const tax = Math.round(sales * 0.3 - taxable);
+      return { date: d.toLocaleDateString(), sales, profit, taxable, tax, exempt: sales - taxable - tax };
     });
 
     const topList: TopItem[] = [
@@ -195,7 +330,26 @@ export default function ReportsWindow({
 
     const revenue = trendArr.reduce((a, x) => a + x.sales, 0);
     const profit  = trendArr.reduce((a, x) => a + x.profit, 0);
-    const summary: Summary = { revenue, profit, orders: 210 + (s % 25), items: topList.reduce((a, x) => a + x.qty, 0) };
+    const discounts = Math.round(revenue * 0.04);
+    const summary: Summary = {
+      gross: revenue + discounts,
+      discounts,
+      revenue,
+      profit,
+      orders: 210 + (s % 25),
+      items: topList.reduce((a, x) => a + x.qty, 0),
+      tax: {
+        taxable: trendArr.reduce((a, x) => a + x.taxable, 0),
+        tax: trendArr.reduce((a, x) => a + x.tax, 0),
+        exempt: trendArr.reduce((a, x) => a + x.exempt, 0),
+      },
+      payments: [
+        { method: 'CASH', label: 'Cash', amount: Math.round(revenue * 0.55), count: 120 },
+        { method: 'CARD', label: 'Card', amount: Math.round(revenue * 0.15), count: 30 },
+        { method: 'QR_WALLET', label: 'QR wallet', amount: Math.round(revenue * 0.25), count: 55 },
+        { method: 'CREDIT', label: 'Credit', amount: Math.round(revenue * 0.05), count: 8 },
+      ],
+    };
 
     return { trend: trendArr, top: topList, cats: catShare, aging: agingBuckets, alerts: alertsList, summary };
   }
@@ -203,8 +357,9 @@ export default function ReportsWindow({
   const load = useCallback(async () => {
     setLoading(true);
     setErrorText(null);
-    const api = await tryFetchFromApi(from, to);
+    const [api, owed] = await Promise.all([tryFetchFromApi(from, to), fetchReceivables()]);
     const data = api ?? makeMock(from, to);
+    setReceivables(owed);
     setTrend(data.trend);
     setTop(data.top);
     setCats(data.cats);
@@ -212,23 +367,100 @@ export default function ReportsWindow({
     setAlerts(data.alerts);
     setSummary(data.summary);
     setLoading(false);
-  }, [from, to]);
+  }, [from, to, fetchReceivables]);
 
   useEffect(() => { void load(); }, [load]); // initial + whenever range changes via Apply
 
+  // the register is a legal record: no sample data, show the error instead
+  const loadRegister = useCallback(async () => {
+    setRegisterError(null);
+    try {
+      const qs = new URLSearchParams({ from, to });
+      if (registerMedicineId != null) qs.set('medicineId', String(registerMedicineId));
+      const res = await fetch(`/api/reports/narcotics?${qs}`, { credentials: 'include', cache: 'no-store' });
+      const data = (await res.json()) as ApiNarcoticRegister;
+      if (!res.ok || data?.error) throw new Error(data?.error || 'Failed to load the register');
+      setRegister(data);
+    } catch (e) {
+      setRegister(null);
+      setRegisterError((e as Error).message || 'Failed to load the register');
+    }
+  }, [from, to, registerMedicineId]);
+
+  useEffect(() => { if (section === 'register') void loadRegister(); }, [section, loadRegister]);
+
+  const loadOverrides = useCallback(async () => {
+    setOverridesError(null);
+    try {
+      const res = await fetch(`/api/reports/price-overrides?${new URLSearchParams({ from, to })}`, { credentials: 'include', cache: 'no-store' });
+      const data = (await res.json()) as ApiPriceOverrides;
+      if (!res.ok || data?.error) throw new Error(data?.error || 'Failed to load price overrides');
+      setOverrides(data);
+    } catch (e) {
+      setOverrides(null);
+      setOverridesError((e as Error).message || 'Failed to load price overrides');
+    }
+  }, [from, to]);
+
+  useEffect(() => { if (section === 'overrides') void loadOverrides(); }, [section, loadOverrides]);
+
   const apply = () => void load();
 
   /* export CSV (quick) */
   function exportCSV() {
+    if (section === 'register' && register?.medicine) {
+      const q = (v: string | null) => `"${(v ?? '').replace(/"/g, '""')}"`;
+      const rows = [
+        [q(`${register.medicine.name} (${register.medicine.schedule.toLowerCase()})`), register.from, register.to],
+        ['Opening balance', register.opening ?? ''],
+        ['Date','Entry','Batch','Qty','Balance','Sale','Patient','Age','Prescriber','NMC no.','Recorded by'],
+        ...register.items.map(r => [
+          new Date(r.at).toLocaleString().replace(/,/g, ''), r.kind, q(r.batchNo), r.qty, r.balance, r.saleId ?? '',
+          q(r.patientName), r.patientAge ?? '', q(r.prescriberName), q(r.nmcNumber), q(r.createdBy),
+        ]),
+        ['Closing balance', register.closing ?? ''],
+      ];
+      const slug = register.medicine.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+      downloadCSV(rows.map(r => r.join(',')).join('\n'), `register_${slug}_${register.from}_${register.to}.csv`);
+      return;
+    }
+    if (section === 'overrides' && overrides) {
+      const q = (v: string | null) => `"${(v ?? '').replace(/"/g, '""')}"`;
+      const rows = [
+        ['Cashier','Date','Sale','Item','Batch','Qty','Unit','Original price','Price','Reduction','Reason','Approved by','Voided'],
+        ...overrides.cashiers.flatMap(c => c.items.map(r => [
+          q(c.cashier), new Date(r.at).toLocaleString().replace(/,/g, ''), r.saleId, q(r.name), q(r.batchNo), r.sellQty,
+          r.sellUnit, r.originalPrice.toFixed(2), r.price.toFixed(2), r.reduction.toFixed(2), q(r.reason), q(r.approver),
+          r.voided ? 'yes' : '',
+        ])),
+      ];
+      downloadCSV(rows.map(r => r.join(',')).join('\n'), `price_overrides_${overrides.from}_${overrides.to}.csv`);
+      return;
+    }
+    if (section === 'receivables' && receivables) {
+      const rows = [
+        ['Customer','Phone','Credit limit','Outstanding','0-30 days','31-60 days','60+ days','Open sales','Oldest','Last repayment'],
+        ...receivables.items.map(r => [
+          `"${r.name.replace(/"/g, '""')}"`, r.phone ?? '', r.creditLimit ?? '', r.balance.toFixed(2),
+          r.buckets.d0_30.toFixed(2), r.buckets.d31_60.toFixed(2), r.buckets.d60plus.toFixed(2), r.openSales,
+          r.oldestAt?.slice(0, 10) ?? '', r.lastRepaymentAt?.slice(0, 10) ?? '',
+        ]),
+      ];
+      downloadCSV(rows.map(r => r.join(',')).join('\n'), `receivables_${receivables.asOf.slice(0, 10)}.csv`);
+      return;
+    }
     const rows = [
-      ['Date','Sales','Profit'],
-      ...trend.map(t => [t.date, t.sales, t.profit]),
+      ['Date','Sales','Profit','Taxable','VAT','Exempt'],
+      ...trend.map(t => [t.date, t.sales, t.profit, t.taxable.toFixed(2), t.tax.toFixed(2), t.exempt.toFixed(2)]),
     ];
-    const csv = rows.map(r => r.join(',')).join('\n');
+    downloadCSV(rows.map(r => r.join(',')).join('\n'), `sales_${from}_${to}.csv`);
+  }
+
+  function downloadCSV(csv: string, filename: string) {
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
-    a.href = url; a.download = `sales_${from}_${to}.csv`;
+    a.href = url; a.download = filename;
     document.body.appendChild(a); a.click(); a.remove();
     URL.revokeObjectURL(url);
   }
@@ -240,7 +472,10 @@ export default function ReportsWindow({
     overview: TrendingUp,
     sales: TrendingUp,
     inventory: Package,
-    alerts: AlertCircle
+    alerts: AlertCircle,
+    receivables: Wallet,
+    register: ClipboardList,
+    overrides: Tag,
   };
 
   /* ----------------------------- RENDER ----------------------------- */
@@ -286,6 +521,8 @@ export default function ReportsWindow({
           {section === 'overview' && (
             <>
               <div className="grid grid-cols-2 gap-2">
+                <StatCard title="Gross Sales" value={money(summary.gross)} />
+                <StatCard title="Discounts" value={money(summary.discounts)} />
                 <StatCard title="Revenue" value={money(summary.revenue)} trend="up" />
                 <StatCard title="Profit"  value={money(summary.profit)}  trend="up" />
                 <StatCard title="Orders"  value={short(summary.orders)} trend="neutral" />
@@ -374,11 +611,13 @@ export default function ReportsWindow({
                 </div>
               </CardHeader>
               <CardContent className="p-3">
-                <div className="rounded-lg border border-white/40 bg-white/60 overflow-hidden">
+                <TaxSummary tax={summary.tax} />
+                <PaymentSummary payments={summary.payments} />
+                <div className="mt-3 rounded-lg border border-white/40 bg-white/60 overflow-hidden">
                   <div className="max-h-[48vh] overflow-auto">
-                    <table className="min-w-[600px] w-full text-left text-[13px]">
+                    <table className="min-w-[760px] w-full text-left text-[13px]">
                       <thead className="bg-white/70 sticky top-0 z-10">
-                        <tr><Th>Date</Th><Th>Sales</Th><Th>Profit</Th><Th>Margin</Th></tr>
+                        <tr><Th>Date</Th><Th>Sales</Th><Th>Profit</Th><Th>Margin</Th><Th>Taxable</Th><Th>VAT</Th><Th>Exempt</Th></tr>
                       </thead>
                       <tbody>
                         {trend.map((t, i) => (
@@ -387,6 +626,9 @@ export default function ReportsWindow({
                             <Td>{money(t.sales)}</Td>
                             <Td>{money(t.profit)}</Td>
                             <Td>{((t.profit / (t.sales || 1)) * 100).toFixed(1)}%</Td>
+                            <Td>{money(t.taxable)}</Td>
+                            <Td>{money(t.tax)}</Td>
+                            <Td>{money(t.exempt)}</Td>
                           </tr>
                         ))}
                       </tbody>
@@ -486,11 +728,19 @@ export default function ReportsWindow({
               </CardContent>
             </Card>
           )}
+
+          {section === 'receivables' && receivables && <ReceivablesReport data={receivables} />}
+
+          {section === 'register' && (
+            <RegisterReport data={register} error={registerError} onPick={setRegisterMedicineId} />
+          )}
+
+          {section === 'overrides' && <OverridesReport data={overrides} error={overridesError} />}
         </div>
 
         {/* Bottom tabs */}
-        <div className="grid grid-cols-4 gap-1 border-t border-white/40 bg-white/70">
-          {(['overview','sales','inventory','alerts'] as Section[]).map((s) => {
+        <div className="grid grid-cols-7 gap-1 border-t border-white/40 bg-white/70">
+          {(['overview','sales','inventory','alerts','receivables','register','overrides'] as Section[]).map((s) => {
             const Icon = sectionIcons[s];
             const active = section === s;
             return (
@@ -577,7 +827,7 @@ export default function ReportsWindow({
       <div className="reports-content flex-1 min-h-0 grid grid-cols-[200px_1fr]">
         {/* Sidebar */}
         <aside className="border-r border-white/25 bg-white/35 p-2">
-          {(['overview','sales','inventory','alerts'] as Section[]).map(key => {
+          {(['overview','sales','inventory','alerts','receivables','register','overrides'] as Section[]).map(key => {
             const Icon = sectionIcons[key];
             return (
               <button
@@ -609,8 +859,10 @@ export default function ReportsWindow({
 
           {section === 'overview' && (
             <>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                <StatCard title="Revenue" value={money(summary.revenue)} />
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                <StatCard title="Gross Sales" value={money(summary.gross)} />
+                <StatCard title="Discounts" value={money(summary.discounts)} />
+                <StatCard title="Revenue (net)" value={money(summary.revenue)} />
                 <StatCard title="Profit" value={money(summary.profit)} />
                 <StatCard title="Orders" value={short(summary.orders)} />
                 <StatCard title="Items Sold" value={short(summary.items)} />
@@ -698,11 +950,13 @@ export default function ReportsWindow({
                 </div>
               </CardHeader>
               <CardContent className="p-3 md:p-4">
-                <div className="rounded-lg border border-white/40 bg-white/60 overflow-hidden">
+                <TaxSummary tax={summary.tax} />
+                <PaymentSummary payments={summary.payments} />
+                <div className="mt-3 rounded-lg border border-white/40 bg-white/60 overflow-hidden">
                   <div className="max-h-[42vh] overflow-auto">
-                    <table className="min-w-[680px] w-full text-left text-[13px]">
+                    <table className="min-w-[820px] w-full text-left text-[13px]">
                       <thead className="bg-white/70 sticky top-0 z-10">
-                        <tr><Th>Date</Th><Th>Sales</Th><Th>Profit</Th><Th>Margin</Th></tr>
+                        <tr><Th>Date</Th><Th>Sales</Th><Th>Profit</Th><Th>Margin</Th><Th>Taxable</Th><Th>VAT</Th><Th>Exempt</Th></tr>
                       </thead>
                       <tbody>
                         {trend.map((t, i) => (
@@ -711,6 +965,9 @@ export default function ReportsWindow({
                             <Td>{money(t.sales)}</Td>
                             <Td>{money(t.profit)}</Td>
                             <Td>{((t.profit / (t.sales || 1)) * 100).toFixed(1)}%</Td>
+                            <Td>{money(t.taxable)}</Td>
+                            <Td>{money(t.tax)}</Td>
+                            <Td>{money(t.exempt)}</Td>
                           </tr>
                         ))}
                       </tbody>
@@ -810,6 +1067,33 @@ export default function ReportsWindow({
               </CardContent>
             </Card>
           )}
+
+          {section === 'receivables' && receivables && (
+            <Card className="bg-white/60 backdrop-blur-lg border-white/40">
+              <CardHeader className="py-3"><CardTitle className="text-lg">Customer Credit (Receivables)</CardTitle></CardHeader>
+              <CardContent className="p-3 md:p-4">
+                <ReceivablesReport data={receivables} />
+              </CardContent>
+            </Card>
+          )}
+
+          {section === 'register' && (
+            <Card className="bg-white/60 backdrop-blur-lg border-white/40">
+              <CardHeader className="py-3"><CardTitle className="text-lg">Controlled Substance Register</CardTitle></CardHeader>
+              <CardContent className="p-3 md:p-4">
+                <RegisterReport data={register} error={registerError} onPick={setRegisterMedicineId} />
+              </CardContent>
+            </Card>
+          )}
+
+          {section === 'overrides' && (
+            <Card className="bg-white/60 backdrop-blur-lg border-white/40">
+              <CardHeader className="py-3"><CardTitle className="text-lg">Price Overrides by Cashier</CardTitle></CardHeader>
+              <CardContent className="p-3 md:p-4">
+                <OverridesReport data={overrides} error={overridesError} />
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </Rnd>
@@ -852,6 +1136,232 @@ function StatCard({
   );
 }
 
+/** VAT summary for the selected range (sales minus refunds) */
+function TaxSummary({ tax }: { tax: TaxTotals }) {
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <StatCard title="Taxable" value={money(tax.taxable)} />
+      <StatCard title="VAT 13%" value={money(tax.tax)} />
+      <StatCard title="Exempt" value={money(tax.exempt)} />
+    </div>
+  );
+}
+
+/** Revenue by payment method for the selected range (net of refunds) */
+function PaymentSummary({ payments }: { payments: PaymentTotal[] }) {
+  if (payments.length === 0) return null;
+  const total = payments.reduce((a, p) => a + Math.max(0, p.amount), 0);
+  return (
+    <div className="mt-3 rounded-xl border border-white/40 bg-white/60 p-3">
+      <div className="text-xs font-medium text-slate-600 uppercase tracking-wide mb-2">By payment method</div>
+      <div className="space-y-1.5">
+        {payments.map((p) => {
+          const pct = total > 0 ? Math.round((Math.max(0, p.amount) / total) * 100) : 0;
+          return (
+            <div key={p.method} className="flex items-center gap-2 text-[13px]">
+              <div className="w-24 shrink-0 text-slate-700">{p.label}</div>
+              <div className="flex-1 h-2 rounded-full bg-slate-200/70 overflow-hidden">
+                <div className="h-full rounded-full bg-blue-500/70" style={{ width: `${pct}%` }} />
+              </div>
+              <div className="w-28 text-right font-medium">{money(p.amount)}</div>
+              <div className="w-16 text-right text-xs text-slate-500">{p.count} sales</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** Credit owed by customers as of now, aged by the date of each credit sale (repayments clear the oldest first) */
+function ReceivablesReport({ data }: { data: ApiReceivables }) {
+  const { totals, items } = data;
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <StatCard title="Outstanding" value={money(totals.balance)} />
+        <StatCard title="0–30 days" value={money(totals.buckets.d0_30)} />
+        <StatCard title="31–60 days" value={money(totals.buckets.d31_60)} />
+        <StatCard title="60+ days" value={money(totals.buckets.d60plus)} />
+      </div>
+      <div className="rounded-lg border border-white/40 bg-white/60 overflow-hidden">
+        <div className="max-h-[42vh] overflow-auto">
+          <table className="min-w-[720px] w-full text-left text-[13px]">
+            <thead className="bg-white/70 sticky top-0 z-10">
+              <tr>
+                <Th>Customer</Th><Th className="text-right">Outstanding</Th><Th className="text-right">0–30</Th>
+                <Th className="text-right">31–60</Th><Th className="text-right">60+</Th><Th className="text-right">Limit</Th>
+                <Th>Oldest</Th><Th>Last paid</Th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.length === 0 ? (
+                <tr><td className="px-3 py-3 text-slate-500 text-center" colSpan={8}>Nobody owes anything 🎉</td></tr>
+              ) : items.map((r) => {
+                const overLimit = r.creditLimit != null && r.balance > r.creditLimit;
+                return (
+                  <tr key={r.customerId} className="odd:bg-white/50">
+                    <Td>
+                      <div className="font-medium">{r.name}</div>
+                      <div className="text-xs text-slate-500">{r.phone ?? '-'} · {r.openSales} open</div>
+                    </Td>
+                    <Td className="text-right font-semibold">{money(r.balance)}</Td>
+                    <Td className="text-right">{money(r.buckets.d0_30)}</Td>
+                    <Td className={`text-right ${r.buckets.d31_60 > 0 ? 'text-amber-600' : ''}`}>{money(r.buckets.d31_60)}</Td>
+                    <Td className={`text-right ${r.buckets.d60plus > 0 ? 'text-rose-600 font-medium' : ''}`}>{money(r.buckets.d60plus)}</Td>
+                    <Td className={`text-right ${overLimit ? 'text-rose-600 font-semibold' : 'text-slate-500'}`}>
+                      {r.creditLimit == null ? '-' : money(r.creditLimit)}
+                    </Td>
+                    <Td className="text-slate-500">{r.oldestAt ? new Date(r.oldestAt).toLocaleDateString() : '-'}</Td>
+                    <Td className="text-slate-500">{r.lastRepaymentAt ? new Date(r.lastRepaymentAt).toLocaleDateString() : '-'}</Td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <div className="text-xs text-slate-500">
+        {totals.customers} customer{totals.customers === 1 ? '' : 's'} · as of {new Date(data.asOf).toLocaleString()}
+      </div>
+    </div>
+  );
+}
+
+/** Narcotic / psychotropic dispensing register of one drug over the selected range, oldest entry first */
+function RegisterReport({
+  data,
+  error,
+  onPick,
+}: {
+  data: ApiNarcoticRegister | null;
+  error: string | null;
+  onPick: (medicineId: number) => void;
+}) {
+  if (error) return <div className="text-sm text-rose-600">{error}</div>;
+  if (!data) return <div className="text-sm text-slate-500">Loading…</div>;
+  if (data.medicines.length === 0) {
+    return <div className="text-sm text-slate-500">No scheduled medicines. Set a schedule on narcotic / psychotropic items in inventory.</div>;
+  }
+  const kindTone = {
+    DISPENSED: 'text-slate-700',
+    RETURNED: 'text-emerald-700',
+    VOIDED: 'text-amber-700',
+    RECEIVED: 'text-sky-700',
+    ADJUSTED: 'text-violet-700',
+  } as const;
+  const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+  return (
+    <div className="space-y-3">
+      <select
+        value={data.medicine?.id ?? ''}
+        onChange={(e) => onPick(Number(e.target.value))}
+        className="h-9 w-full md:w-80 rounded-md border border-white/40 bg-white/80 px-2 text-sm"
+      >
+        {data.medicines.map((m) => (
+          <option key={m.id} value={m.id}>{m.name} · {m.schedule.toLowerCase()}</option>
+        ))}
+      </select>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        <StatCard title="Opening" value={data.opening == null ? '-' : String(data.opening)} />
+        <StatCard title="Received" value={String(data.received)} />
+        <StatCard title="Dispensed" value={String(data.dispensed)} />
+        <StatCard title="Returned" value={String(data.returned)} />
+        <StatCard title="Adjusted" value={signed(data.adjusted)} />
+        <StatCard title="Closing" value={data.closing == null ? '-' : String(data.closing)} />
+      </div>
+      <div className="rounded-lg border border-white/40 bg-white/60 overflow-hidden">
+        <div className="max-h-[42vh] overflow-auto">
+          <table className="min-w-[820px] w-full text-left text-[13px]">
+            <thead className="bg-white/70 sticky top-0 z-10">
+              <tr>
+                <Th>Date</Th><Th>Entry</Th><Th>Batch</Th><Th className="text-right">Qty</Th><Th className="text-right">Balance</Th>
+                <Th>Patient</Th><Th>Prescriber</Th><Th>Sale</Th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.items.length === 0 ? (
+                <tr><td className="px-3 py-3 text-slate-500 text-center" colSpan={8}>No entries in this range.</td></tr>
+              ) : data.items.map((r) => (
+                <tr key={r.id} className="odd:bg-white/50">
+                  <Td className="text-slate-500">{new Date(r.at).toLocaleString()}</Td>
+                  <Td className={`text-xs font-medium ${kindTone[r.kind]}`}>{r.kind.toLowerCase()}</Td>
+                  <Td className="font-mono text-xs">{r.batchNo}</Td>
+                  <Td className="text-right">{signed(r.kind === 'DISPENSED' ? -r.qty : r.qty)}</Td>
+                  <Td className="text-right font-semibold">{r.balance}</Td>
+                  <Td>
+                    {r.patientName ?? '-'}
+                    {r.patientAge != null && <span className="text-xs text-slate-500"> · {r.patientAge}y</span>}
+                  </Td>
+                  <Td>
+                    {r.prescriberName ?? '-'}
+                    {r.nmcNumber && <div className="text-xs text-slate-500">NMC {r.nmcNumber}</div>}
+                  </Td>
+                  <Td className="text-slate-500">{r.saleId != null ? `#${r.saleId}` : '-'}</Td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <div className="text-xs text-slate-500">
+        {data.medicine?.name} · {data.from} to {data.to} · {data.items.length} entr{data.items.length === 1 ? 'y' : 'ies'}
+      </div>
+    </div>
+  );
+}
+
+function OverridesReport({ data, error }: { data: ApiPriceOverrides | null; error: string | null }) {
+  if (error) return <div className="text-sm text-rose-600">{error}</div>;
+  if (!data) return <div className="text-sm text-slate-500">Loading…</div>;
+  if (data.cashiers.length === 0) return <div className="text-sm text-slate-500">No price overrides from {data.from} to {data.to}.</div>;
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <StatCard title="Overrides" value={String(data.count)} />
+        <StatCard title="Below MRP" value={money(data.reduction)} />
+        <StatCard title="Cashiers" value={String(data.cashiers.length)} />
+      </div>
+      {data.cashiers.map((c) => (
+        <div key={c.cashier} className="rounded-lg border border-white/40 bg-white/60 overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 bg-white/70 text-sm">
+            <span className="font-medium text-slate-900">{c.cashier}</span>
+            <span className="text-slate-600">{c.count} override{c.count === 1 ? '' : 's'} · {money(c.reduction)} below MRP</span>
+          </div>
+          <div className="max-h-[36vh] overflow-auto">
+            <table className="min-w-[820px] w-full text-left text-[13px]">
+              <thead className="bg-white/70 sticky top-0 z-10">
+                <tr>
+                  <Th>Date</Th><Th>Sale</Th><Th>Item</Th><Th className="text-right">Qty</Th><Th className="text-right">MRP price</Th>
+                  <Th className="text-right">Sold at</Th><Th>Reason</Th><Th>Approved by</Th>
+                </tr>
+              </thead>
+              <tbody>
+                {c.items.map((r) => (
+                  <tr key={r.lineId} className={`odd:bg-white/50 ${r.voided ? 'text-slate-400 line-through' : ''}`}>
+                    <Td className="text-slate-500">{new Date(r.at).toLocaleString()}</Td>
+                    <Td className="text-slate-500">#{r.saleId}</Td>
+                    <Td>
+                      {r.name}
+                      <div className="text-xs text-slate-500 font-mono">{r.batchNo}</div>
+                    </Td>
+                    <Td className="text-right">{r.sellQty} {r.sellUnit.toLowerCase()}</Td>
+                    <Td className="text-right">{money(r.originalPrice)}</Td>
+                    <Td className="text-right font-semibold">{money(r.price)}</Td>
+                    <Td>{r.reason ?? '-'}</Td>
+                    <Td className="text-slate-600">{r.approver ?? '-'}</Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+      <div className="text-xs text-slate-500">{data.from} to {data.to} · voided sales struck through and left out of the totals</div>
+    </div>
+  );
+}
+
 function Th({ children, className = '' }: { children: React.ReactNode; className?: string }) {
   return <th className={`px-3 py-2 text-xs font-semibold text-slate-600 ${className}`}>{children}</th>;
 }
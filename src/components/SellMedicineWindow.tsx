@@ -2,14 +2,35 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Rnd } from 'react-rnd';
-import { Search, RefreshCw, QrCode, X, Trash2, Check, Minus, Plus } from 'lucide-react';
+import { Search, RefreshCw, QrCode, X, Trash2, Check, Minus, Plus, Undo2, Ban, Printer, FileText, Keyboard } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import PromotionsPanel from '@/components/PromotionsPanel';
+import CustomerPicker, { CustomerDetail } from '@/components/CustomerPicker';
+import type { CustomerSummary } from '@/components/CustomerPicker';
+import ParkedCarts from '@/components/ParkedCarts';
+import CashShiftBar from '@/components/CashShiftBar';
+import OfflineSyncBar from '@/components/OfflineSyncBar';
+import LearnBarcode from '@/components/LearnBarcode';
+import type { BarcodeMatch } from '@/components/LearnBarcode';
+import { parseGs1 } from '@/lib/scanner/gs1';
+import {
+  enqueueSale,
+  isUnreachable,
+  loadSnapshot,
+  medicinesFromSnapshot,
+  saveSnapshot,
+  searchSnapshot,
+  takeFromSnapshot,
+} from '@/lib/offline/pos';
+import type { OfflineBatch } from '@/lib/offline/pos';
+import PrescriptionPicker from '@/components/PrescriptionPicker';
+import type { PrescriptionSummary } from '@/components/PrescriptionPicker';
 
 /* ───────────────────────── Types ───────────────────────── */
 
-type Section = 'sell' | 'history';
+type Section = 'sell' | 'history' | 'promotions';
 
 export type SellMedicineWindowProps = {
   open: boolean;
@@ -24,6 +45,13 @@ export type SellMedicineWindowProps = {
 
 type ShelfAlloc = { shelfId: string; shelfName: string; qty: number; shelfRefId?: number | null };
 
+/* Stock is in base units (tablets / bottles); packs and strips convert with the medicine's pack facts */
+type SellUnit = 'PACK' | 'STRIP' | 'UNIT';
+type SellUnitOption = { unit: SellUnit; size: number; price: number };
+/** Controlled substance: needs a prescription, every sale goes in the register */
+type DrugSchedule = 'NARCOTIC' | 'PSYCHOTROPIC';
+const UNIT_LABELS: Record<SellUnit, string> = { PACK: 'Pack', STRIP: 'Strip', UNIT: 'Unit' };
+
 type Item = {
   id: string;                // batchNo
   name: string;
@@ -33,19 +61,133 @@ type Item = {
   purchasePrice: number;
   sellingPrice: number;
   supplierName: string | null;
-  qty: number;               // alias of qtyAvailable
+  qty: number;               // alias of qtyAvailable (base units)
   minQty: number;
   shelves: ShelfAlloc[];
+  prescriptionOnly: boolean;
+  schedule: DrugSchedule | null;
+  base: string;              // tablet | bottle | unit
+  units: SellUnitOption[];
 };
 
 type ApiListResponse = { items?: Partial<Item>[]; error?: string };
-type ApiItemResponse = { item?: Partial<Item>; error?: string };
-type ApiOkResponse = { ok?: boolean; error?: string };
+
+/* Sell by medicine: stock summed over sellable batches, batches picked FEFO at checkout */
+type MedicineStock = {
+  medicineId: number;
+  name: string;
+  qty: number;
+  batches: number;
+  price: number;             // of the batch FEFO picks first
+  base: string;
+  units: SellUnitOption[];
+  nextBatchNo: string;
+  nextExpiry: string | null;
+  prescriptionOnly: boolean;
+  schedule: DrugSchedule | null;
+};
+type ApiMedicines = { items?: MedicineStock[]; error?: string };
+type ApiOfflineSnapshot = { items?: OfflineBatch[]; savedAt?: string; error?: string };
+type SellBy = 'batch' | 'medicine';
+type ApiSaleCreated = {
+  ok?: boolean;
+  id?: number;
+  subtotal?: number;
+  discount?: number;
+  total?: number;
+  changeDue?: number;
+  replayed?: boolean; // the server had already recorded this checkout
+  error?: string;
+};
+
+/** One per checkout, resent on every retry of it so the server never records the sale twice */
+const newSaleKey = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `sale-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/* Payments (split tender) */
+type PayMethod = 'CASH' | 'CARD' | 'QR_WALLET' | 'CREDIT' | 'POINTS';
+type PayRow = { key: number; method: PayMethod; amount: string; reference: string }; // amount '' = the rest
+type ApiPayment = { method: PayMethod; amount: number; reference?: string | null };
+type SalePayment = ApiPayment & { tendered?: number | null; provider?: string | null };
+type Tender = { payments: ApiPayment[] | null; change: number; short: number; error: string | null };
+
+/* Discounts */
+type DiscountKind = 'PERCENT' | 'FIXED';
+type QuoteLine = {
+  id: string;                // batchNo
+  medicineId?: number;
+  pickedFefo?: boolean;      // batch chosen by the server for a sell-by-medicine line
+  expiryDate?: string | null;
+  qty?: number;
+  originalPrice?: number | null; // MRP price when the line's price was overridden
+  approval?: string | null;      // why checkout wants a supervisor for the override
+  gross: number;
+  discount: number;
+  discountRule: string | null;
+  billDiscount: number;
+  lineTotal: number;
+};
+/* Allergy / interaction warning from the quote; checkout needs an override reason for any */
+type SafetyWarning = { kind: 'ALLERGY' | 'INTERACTION'; medicines: string[]; detail: string };
+
+type ApiQuote = {
+  subtotal: number;
+  discount: number;
+  billDiscountRule: string | null;
+  total: number;
+  taxableAmount: number;
+  taxAmount: number;
+  exemptAmount: number;
+  lines: QuoteLine[];
+  warnings?: SafetyWarning[];
+  error?: string;
+};
 
 /* Sales (history) */
-type SaleLine = { id: string; name: string; price: number; qty: number; lineTotal: number };
-type Sale = { _id: string; total: number; lines: SaleLine[]; createdAt: string; createdBy?: string | null };
+type SaleLine = {
+  lineId?: number;           // SaleLine.id (needed for returns)
+  id: string;                // batchNo
+  name: string;
+  price: number;
+  qty: number;
+  discount?: number;
+  discountRule?: string | null;
+  billDiscount?: number;
+  lineTotal: number;
+  returnedQty?: number;
+};
+type Sale = {
+  _id: string;
+  subtotal?: number;
+  discount?: number;
+  billDiscountRule?: string | null;
+  total: number;
+  taxableAmount?: number;
+  taxAmount?: number;
+  exemptAmount?: number;
+  changeDue?: number;
+  payments?: SalePayment[];
+  refunded?: number;
+  voided?: { at: string; by: string | null; reason: string | null } | null;
+  lines: SaleLine[];
+  createdAt: string;
+  createdBy?: string | null;
+  customer?: { id: number; name: string; phone: string | null } | null;
+  safety?: { reason: string; warnings: SafetyWarning[] } | null;
+};
 type ApiSalesList = { items: Sale[]; totalCount: number; page: number; pages: number; error?: string };
+type RefundTender = { method: PayMethod; label: string; amount: number };
+type ApiReturnCreated = { ok?: boolean; id?: number; refund?: number; tenders?: RefundTender[]; error?: string };
+type ApiVoidResult = {
+  ok?: boolean;
+  id?: number;
+  notRestocked?: Array<{ name: string; batchNo: string; qty: number }>;
+  error?: string;
+};
+type SaleAction = 'view' | 'return' | 'void';
+type ShelfOption = { id: number; name: string };
 
 /* Extra shapes from API to avoid `any` */
 type PartialShelf = Partial<{
@@ -70,7 +212,11 @@ type UnknownItem = Partial<{
   minQty: number | string | null;
   qtyAvailable: number | string | null;
   reorderLevel: number | string | null;
+  prescriptionOnly: boolean;
+  schedule: DrugSchedule | null;
   shelves: PartialShelf[];
+  base: string;
+  units: SellUnitOption[];
   mrp: number | string | null;
   costPrice: number | string | null;
 }>;
@@ -82,6 +228,56 @@ const money = (n: number) => (Number.isFinite(n) ? n.toFixed(2) : '0.00');
 const errMsg = (e: unknown) => (e instanceof Error ? e.message : String(e ?? 'Unknown error'));
 const toDate = (s?: string | null) => (s ? new Date(s).toLocaleDateString() : '-');
 
+const PAY_LABELS: Record<PayMethod, string> = { CASH: 'Cash', CARD: 'Card', QR_WALLET: 'QR wallet', CREDIT: 'Credit', POINTS: 'Points' };
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/* what the cashier does with each part of a refund */
+const REFUND_ACTIONS: Record<PayMethod, string> = {
+  CASH: 'Hand back cash',
+  CARD: 'Refund to card',
+  QR_WALLET: 'Refund to QR wallet',
+  CREDIT: 'Taken off credit',
+  POINTS: 'Points given back worth',
+};
+const refundText = (tenders: RefundTender[]) =>
+  tenders.length ? tenders.map((t) => `${REFUND_ACTIONS[t.method]} ${money(t.amount)}`).join(' · ') : 'Nothing to refund.';
+
+/**
+ * Work out what to send as `payments` and what the cashier sees (change / short).
+ * A row with a blank amount takes whatever is left of the bill; a single blank cash row = exact cash.
+ */
+function planTender(rows: PayRow[], total: number): Tender {
+  const blanks = rows.filter((r) => r.amount.trim() === '');
+  if (blanks.length > 1) return { payments: null, change: 0, short: 0, error: 'Only one payment can be left blank.' };
+  if (rows.length === 1 && rows[0].method === 'CASH' && blanks.length === 1) {
+    return { payments: null, change: 0, short: 0, error: null };
+  }
+
+  const given = rows.filter((r) => r.amount.trim() !== '').reduce((a, r) => a + toNum(r.amount), 0);
+  const payments: ApiPayment[] = [];
+  for (const r of rows) {
+    const amount = r.amount.trim() === '' ? cents(Math.max(0, total - given)) : toNum(r.amount);
+    if (!Number.isFinite(amount) || amount < 0) return { payments: null, change: 0, short: 0, error: 'Invalid payment amount.' };
+    if (r.method === 'QR_WALLET' && !r.reference.trim()) {
+      return { payments: null, change: 0, short: 0, error: 'Enter the wallet transaction reference.' };
+    }
+    if (amount > 0) payments.push({ method: r.method, amount, reference: r.reference.trim() || null });
+  }
+
+  const nonCash = payments.filter((p) => p.method !== 'CASH').reduce((a, p) => a + p.amount, 0);
+  if (nonCash > total + 0.001) {
+    return { payments, change: 0, short: 0, error: 'Card/wallet/credit/points cannot exceed the total (no change on those).' };
+  }
+  const cashDue = total - nonCash;
+  const tendered = payments.filter((p) => p.method === 'CASH').reduce((a, p) => a + p.amount, 0);
+  return {
+    payments,
+    change: cents(Math.max(0, tendered - cashDue)),
+    short: cents(Math.max(0, cashDue - tendered)),
+    error: null,
+  };
+}
+
 function normalize(p?: Partial<Item> | UnknownItem | null): Item {
   const u = (p ?? {}) as UnknownItem;
   const rawShelves = Array.isArray(u.shelves) ? u.shelves : [];
@@ -110,6 +306,10 @@ function normalize(p?: Partial<Item> | UnknownItem | null): Item {
     qty,
     minQty: toNum(u.minQty ?? u.reorderLevel ?? 0),
     shelves,
+    prescriptionOnly: u.prescriptionOnly === true,
+    schedule: u.schedule ?? null,
+    base: u.base ?? 'unit',
+    units: Array.isArray(u.units) ? u.units : [],
   };
 }
 
@@ -122,6 +322,11 @@ function useDebounce<T>(v: T, delay = 350) {
   return s;
 }
 
+/* Keyboard billing: a USB (wedge) scanner types a whole code within milliseconds, people don't */
+const KB_MODE_KEY = 'sellKeyboardMode';
+const WEDGE_GAP_MS = 50;
+const WEDGE_MIN_CHARS = 6;
+
 /* Barcode Detector typing to avoid `any` */
 type BarcodeDetection = { rawValue?: string };
 type BarcodeDetectorInstance = { detect(video: HTMLVideoElement): Promise<BarcodeDetection[]> };
@@ -195,39 +400,232 @@ export default function SellMedicineWindow({
   const [q, setQ] = useState('');
   const dq = useDebounce(q);
 
+  /* offline: while the server can't be reached, lists come from the last stock snapshot and sales are queued */
+  const [offline, setOffline] = useState(false);
+  const [queuedTick, setQueuedTick] = useState(0); // wakes the sync bar after a sale is queued
+  const [syncedTick, setSyncedTick] = useState(0); // reloads the list after queued sales sync
+  const refreshSnapshot = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sales/offline', { credentials: 'include', cache: 'no-store' });
+      const data = (await res.json()) as ApiOfflineSnapshot;
+      if (res.ok) await saveSnapshot(data.items ?? []);
+    } catch {
+      // keep the previous snapshot
+    }
+  }, []);
+  const offlineStock = useCallback(async (): Promise<OfflineBatch[]> => {
+    setOffline(true);
+    const snap = await loadSnapshot().catch(() => null);
+    setMsg(
+      snap
+        ? `Offline — stock as of ${new Date(snap.savedAt).toLocaleString()}. Sales are queued.`
+        : 'Offline — no stock snapshot on this device yet.',
+    );
+    return snap ? searchSnapshot(snap.items, dq) : [];
+  }, [dq]);
+  const onSynced = useCallback(() => {
+    refreshSnapshot();
+    setSyncedTick((t) => t + 1);
+  }, [refreshSnapshot]);
+
   const fetchItems = React.useCallback(async () => {
     setMsg(null);
     setLoading(true);
+    let status = 0;
     try {
       const res = await fetch(`/api/inventory?q=${encodeURIComponent(dq)}`, { credentials: 'include' });
+      status = res.status;
       const data = (await res.json()) as ApiListResponse;
       if (!res.ok) throw new Error(data?.error ?? 'Failed to load');
       const normalized = (data.items ?? []).map(normalize);
       setItems(normalized);
+      setOffline(false);
       if (normalized.length === 0) setMsg('No results found.');
     } catch (e: unknown) {
+      if (isUnreachable(e, status, errMsg(e))) {
+        const stock = await offlineStock();
+        setItems(
+          stock.map((b) =>
+            normalize({ ...b, batchNumber: b.id, sellingPrice: b.units.find((u) => u.unit === 'UNIT')?.price ?? 0 }),
+          ),
+        );
+        return;
+      }
       setMsg(errMsg(e));
       setItems([]);
     } finally {
       setLoading(false);
     }
-  }, [dq]);
+  }, [dq, offlineStock]);
+
+  const [sellBy, setSellBy] = useState<SellBy>('batch');
+  const [medItems, setMedItems] = useState<MedicineStock[]>([]);
+  const fetchMedicines = React.useCallback(async () => {
+    setMsg(null);
+    setLoading(true);
+    let status = 0;
+    try {
+      const res = await fetch(`/api/sales/medicines?q=${encodeURIComponent(dq)}`, { credentials: 'include' });
+      status = res.status;
+      const data = (await res.json()) as ApiMedicines;
+      if (!res.ok) throw new Error(data?.error ?? 'Failed to load');
+      setMedItems(data.items ?? []);
+      setOffline(false);
+      if (!data.items?.length) setMsg('No sellable stock found.');
+    } catch (e: unknown) {
+      if (isUnreachable(e, status, errMsg(e))) {
+        setMedItems(medicinesFromSnapshot(await offlineStock()));
+        return;
+      }
+      setMsg(errMsg(e));
+      setMedItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [dq, offlineStock]);
+  const refreshList = sellBy === 'medicine' ? fetchMedicines : fetchItems;
 
   useEffect(() => {
-    if (section === 'sell') fetchItems();
-  }, [section, dq, fetchItems]);
+    if (section !== 'sell') return;
+    if (sellBy === 'medicine') fetchMedicines();
+    else fetchItems();
+  }, [section, dq, sellBy, fetchItems, fetchMedicines, syncedTick]);
+
+  useEffect(() => {
+    if (open) refreshSnapshot();
+  }, [open, refreshSnapshot]);
+
+  // offline: look for the server again when the browser says it is back, and every 30s
+  useEffect(() => {
+    if (!offline) return;
+    const retry = () => refreshList();
+    window.addEventListener('online', retry);
+    const t = setInterval(retry, 30_000);
+    return () => {
+      window.removeEventListener('online', retry);
+      clearInterval(t);
+    };
+  }, [offline, refreshList]);
 
   /* cart */
   type CartLine = {
-    id: string;       // batchNo
+    id: string;       // batchNo, or `med:<medicineId>` for a sell-by-medicine line
+    medicineId: number | null; // set = server picks the batches FEFO
     name: string;
-    price: number;
-    available: number;
-    qty: number;
+    price: number;    // per `unit`
+    available: number; // base units
+    base: string;
+    unit: SellUnit;
+    units: SellUnitOption[];
+    qty: number;      // in `unit`s
     shelves: ShelfAlloc[];
+    discType: DiscountKind;
+    discValue: string;  // '' = no manual line discount
+    overPrice: string;  // '' = sold at MRP; else the cashier's price per `unit` (no line discount then)
+    overReason: string;
+    prescriptionOnly: boolean;
+    schedule: DrugSchedule | null;
   };
   const [cart, setCart] = useState<CartLine[]>([]);
-  const cartTotal = useMemo(() => cart.reduce((a, c) => a + c.price * c.qty, 0), [cart]);
+  const [billType, setBillType] = useState<DiscountKind>('PERCENT');
+  const [billValue, setBillValue] = useState('');
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [prescription, setPrescription] = useState<PrescriptionSummary | null>(null);
+  const rxRequired = useMemo(() => cart.filter((l) => l.prescriptionOnly || l.schedule).map((l) => l.name), [cart]);
+  const cartGross = useMemo(() => cart.reduce((a, c) => a + c.price * c.qty, 0), [cart]);
+
+  /* what we send to /api/sales and /api/sales/quote */
+  const cartPayload = useMemo(() => {
+    const disc = (type: DiscountKind, v: string) => (toNum(v) > 0 ? { type, value: toNum(v) } : null);
+    const lineTerms = (l: CartLine) =>
+      toNum(l.overPrice) > 0
+        ? { discount: null, priceOverride: { price: toNum(l.overPrice), reason: l.overReason.trim() } }
+        : { discount: disc(l.discType, l.discValue) };
+    return {
+      lines: cart
+        .filter((l) => l.qty > 0)
+        .map((l) =>
+          l.medicineId != null
+            ? { medicineId: l.medicineId, qty: l.qty, unit: l.unit, ...lineTerms(l) }
+            : { id: l.id, qty: l.qty, unit: l.unit, ...lineTerms(l) },
+        ),
+      billDiscount: disc(billType, billValue),
+      customerId: customer?.id ?? null, // for the quote's allergy check
+    };
+  }, [cart, billType, billValue, customer]);
+
+  /* server-side pricing preview: promotions + discounts exactly as checkout will apply them */
+  const [quote, setQuote] = useState<ApiQuote | null>(null);
+  const [quoteErr, setQuoteErr] = useState<string | null>(null);
+  const quoteKey = useDebounce(JSON.stringify(cartPayload), 300);
+  useEffect(() => {
+    const payload = JSON.parse(quoteKey) as typeof cartPayload;
+    if (payload.lines.length === 0) {
+      setQuote(null);
+      setQuoteErr(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/sales/quote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: quoteKey,
+        });
+        const data = (await res.json()) as ApiQuote;
+        if (cancelled) return;
+        if (!res.ok) throw new Error(data?.error ?? 'Failed to price cart');
+        setQuote(data);
+        setQuoteErr(null);
+      } catch (e: unknown) {
+        if (cancelled) return;
+        setQuote(null);
+        setQuoteErr(errMsg(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteKey]);
+
+  // a quote is only shown while it still matches the cart on screen
+  const liveQuote = quote && quoteKey === JSON.stringify(cartPayload) ? quote : null;
+  /** the quoted line(s) for a cart line: one batch, or every batch FEFO picked for a medicine line */
+  const quoteParts = (l: CartLine) =>
+    liveQuote?.lines.filter((q) =>
+      l.medicineId != null ? q.pickedFefo && q.medicineId === l.medicineId : !q.pickedFefo && q.id === l.id,
+    ) ?? [];
+  const quoteLine = (l: CartLine): QuoteLine | null => {
+    const parts = quoteParts(l);
+    if (parts.length <= 1) return parts[0] ?? null;
+    const sum = (k: 'gross' | 'discount' | 'billDiscount' | 'lineTotal') => parts.reduce((a, p) => a + p[k], 0);
+    return {
+      id: l.id,
+      gross: sum('gross'),
+      discount: sum('discount'),
+      discountRule: parts.find((p) => p.discountRule)?.discountRule ?? null,
+      billDiscount: sum('billDiscount'),
+      lineTotal: sum('lineTotal'),
+    };
+  };
+  const cartTotal = liveQuote ? liveQuote.total : cartGross;
+  const warnings = liveQuote?.warnings ?? [];
+  const [safetyReason, setSafetyReason] = useState('');
+  // price overrides beyond the cashier's limit (or below cost) need a supervisor's PIN at checkout
+  const approvals = liveQuote?.lines.flatMap((q) => (q.approval ? [q.approval] : [])) ?? [];
+  const [overridePin, setOverridePin] = useState('');
+  /* split tender */
+  const newPayRow = (method: PayMethod = 'CASH'): PayRow => ({ key: Date.now() + Math.random(), method, amount: '', reference: '' });
+  const [payRows, setPayRows] = useState<PayRow[]>(() => [newPayRow()]);
+  const tender = useMemo(() => planTender(payRows, cartTotal), [payRows, cartTotal]);
+
+  /** line amount after its own discount (bill discount is shown in the totals) */
+  const lineNet = (l: CartLine) => {
+    const ql = quoteLine(l);
+    return ql ? ql.gross - ql.discount : l.qty * l.price;
+  };
 
   type Notice = { kind: 'success' | 'info' | 'error'; text: string };
   const [notice, setNotice] = useState<Notice | null>(null);
@@ -245,47 +643,160 @@ export default function SellMedicineWindow({
             ...prev,
             {
               id: it.id,
+              medicineId: null,
               name: it.name,
-              price: it.sellingPrice || 0,
+              price: it.units.find((u) => u.unit === 'UNIT')?.price ?? (it.sellingPrice || 0),
               available: it.qty || 0,
+              base: it.base,
+              unit: 'UNIT',
+              units: it.units,
               qty: it.qty > 0 ? 1 : 0,
               shelves: it.shelves || [],
+              discType: 'PERCENT',
+              discValue: '',
+              overPrice: '',
+              overReason: '',
+              prescriptionOnly: it.prescriptionOnly,
+              schedule: it.schedule,
             },
           ]
     );
     showNotice({ kind: 'info', text: `Added “${it.name}” to cart.` });
   }
+  function addMedicineToCart(m: MedicineStock) {
+    const id = `med:${m.medicineId}`;
+    setCart((prev) =>
+      prev.some((l) => l.id === id)
+        ? prev
+        : [
+            ...prev,
+            {
+              id,
+              medicineId: m.medicineId,
+              name: m.name,
+              price: m.price,
+              available: m.qty,
+              base: m.base,
+              unit: 'UNIT',
+              units: m.units,
+              qty: m.qty > 0 ? 1 : 0,
+              shelves: [],
+              discType: 'PERCENT',
+              discValue: '',
+              overPrice: '',
+              overReason: '',
+              prescriptionOnly: m.prescriptionOnly,
+              schedule: m.schedule,
+            },
+          ]
+    );
+    showNotice({ kind: 'info', text: `Added “${m.name}” to cart (earliest expiry first).` });
+  }
+  const unitSize = (l: CartLine) => l.units.find((u) => u.unit === l.unit)?.size ?? 1;
   const setLineQty = (id: string, qty: number) =>
-    setCart((prev) => prev.map((l) => (l.id === id ? { ...l, qty: Math.max(0, Math.min(qty, l.available)) } : l)));
+    setCart((prev) =>
+      prev.map((l) => (l.id === id ? { ...l, qty: Math.max(0, Math.min(qty, Math.floor(l.available / unitSize(l)))) } : l)),
+    );
+  /** switch pack / strip / unit: price follows, qty is clamped to what the stock covers */
+  const setLineUnit = (id: string, unit: SellUnit) =>
+    setCart((prev) =>
+      prev.map((l) => {
+        const opt = l.units.find((u) => u.unit === unit);
+        if (l.id !== id || !opt) return l;
+        const max = Math.floor(l.available / opt.size);
+        // an overridden price was per the old unit
+        return { ...l, unit, price: opt.price, overPrice: '', qty: Math.min(Math.max(l.qty, max > 0 ? 1 : 0), max) };
+      }),
+    );
+  const setLineDiscount = (id: string, patch: Partial<Pick<CartLine, 'discType' | 'discValue'>>) =>
+    setCart((prev) => prev.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+  const setLineOverride = (id: string, patch: Partial<Pick<CartLine, 'overPrice' | 'overReason'>>) =>
+    setCart((prev) => prev.map((l) => (l.id === id ? { ...l, ...patch } : l)));
   const removeLine = (id: string) => {
     const removed = cart.find((c) => c.id === id);
     setCart((prev) => prev.filter((l) => l.id !== id));
     if (removed) showNotice({ kind: 'info', text: `Removed “${removed.name}” from cart.` });
   };
-  const clearCart = () => {
+  const resetCart = () => {
     setCart([]);
+    setBillValue('');
+    setCustomer(null);
+    setPrescription(null);
+    setSafetyReason('');
+    setOverridePin('');
+  };
+  // idempotency key of the checkout body last submitted; kept until that body sells or changes
+  const saleKeyRef = useRef<{ body: string; key: string } | null>(null);
+
+  const clearCart = () => {
+    resetCart();
     showNotice({ kind: 'info', text: 'Cart cleared.' });
   };
 
+  /* park / resume: the server keeps the checkout body, the snapshot redraws this screen */
+  type ParkedSnapshot = {
+    lines: CartLine[];
+    billType: DiscountKind;
+    billValue: string;
+    customer: CustomerSummary | null;
+    prescription: PrescriptionSummary | null;
+  };
+  const parkPayload = () =>
+    cart.length === 0
+      ? null
+      : {
+          cart: { ...cartPayload, prescriptionId: prescription?.id ?? null },
+          snapshot: { lines: cart, billType, billValue, customer, prescription } satisfies ParkedSnapshot,
+        };
+  const onParked = (label: string) => {
+    resetCart();
+    setSellMsg(null);
+    showNotice({ kind: 'info', text: `Cart parked as “${label}”.` });
+    if (kbMode) focusSearch();
+  };
+  const onResume = (raw: unknown, label: string) => {
+    const snap = raw as Partial<ParkedSnapshot> | null;
+    // carts parked before price overrides existed lack the override fields
+    setCart(Array.isArray(snap?.lines) ? snap.lines.map((l) => ({ ...l, overPrice: l.overPrice ?? '', overReason: l.overReason ?? '' })) : []);
+    setBillType(snap?.billType ?? 'PERCENT');
+    setBillValue(snap?.billValue ?? '');
+    setCustomer(snap?.customer ?? null);
+    setPrescription(snap?.prescription ?? null);
+    setSellMsg(null);
+    showNotice({ kind: 'info', text: `Resumed “${label}”.` });
+  };
+
   /* sell */
   const [selling, setSelling] = useState(false);
   const [sellMsg, setSellMsg] = useState<{ kind: 'ok' | 'err'; text: string } | null>(null);
-
-  function subtractShelves(original: ShelfAlloc[], sellQty: number): ShelfAlloc[] | null {
-    let remaining = sellQty;
-    const result: ShelfAlloc[] = original.map((s) => ({ ...s }));
-    for (let i = 0; i < result.length && remaining > 0; i++) {
-      const available = Math.max(0, toNum(result[i].qty));
-      const take = Math.min(available, remaining);
-      result[i].qty = available - take;
-      remaining -= take;
-    }
-    if (remaining > 0) return null;
-    return result.filter((r) => r.qty > 0);
+  const [lastSaleId, setLastSaleId] = useState<number | null>(null);
+  const [shiftOpen, setShiftOpen] = useState(true);
+
+  /** Server unreachable: keep the checkout on this device for the sync bar to replay, and take its stock off the snapshot */
+  async function queueOffline(checkout: Record<string, unknown>, key: string) {
+    const soldAt = new Date().toISOString();
+    await enqueueSale({
+      key,
+      body: { ...checkout, idempotencyKey: key, offlineAt: soldAt },
+      createdAt: soldAt,
+      summary: {
+        lines: cart.map((l) => ({ name: l.name, qty: l.qty, unit: l.unit === 'UNIT' ? l.base : UNIT_LABELS[l.unit] })),
+        total: cartTotal,
+      },
+      status: 'PENDING',
+      error: null,
+      attempts: 0,
+    });
+    await takeFromSnapshot(
+      cart.map((l) =>
+        l.medicineId != null ? { medicineId: l.medicineId, qty: l.qty * unitSize(l) } : { batchNo: l.id, qty: l.qty * unitSize(l) },
+      ),
+    );
   }
 
   async function completeSale() {
     setSellMsg(null);
+    setLastSaleId(null);
     if (cart.length === 0) {
       const t = 'Cart is empty.';
       setSellMsg({ kind: 'err', text: t });
@@ -306,60 +817,127 @@ export default function SellMedicineWindow({
         return;
       }
     }
+    if (tender.error || tender.short > 0) {
+      const t = tender.error ?? `Payment short by ${money(tender.short)}.`;
+      setSellMsg({ kind: 'err', text: t });
+      showNotice({ kind: 'error', text: t });
+      return;
+    }
+    if (rxRequired.length > 0 && !prescription) {
+      const t = `Attach a prescription for ${rxRequired.join(', ')}.`;
+      setSellMsg({ kind: 'err', text: t });
+      showNotice({ kind: 'error', text: t });
+      return;
+    }
+    if (warnings.length > 0 && !safetyReason.trim()) {
+      const t = 'Review the safety warnings and enter an override reason.';
+      setSellMsg({ kind: 'err', text: t });
+      showNotice({ kind: 'error', text: t });
+      return;
+    }
+    const unexplained = cart.find((l) => toNum(l.overPrice) > 0 && !l.overReason.trim());
+    if (unexplained) {
+      const t = `Enter a reason for the price override on ${unexplained.name}.`;
+      setSellMsg({ kind: 'err', text: t });
+      showNotice({ kind: 'error', text: t });
+      return;
+    }
+    if (approvals.length > 0 && !overridePin) {
+      const t = `Supervisor PIN needed: ${approvals.join('; ')}.`;
+      setSellMsg({ kind: 'err', text: t });
+      showNotice({ kind: 'error', text: t });
+      return;
+    }
+    const onCredit = (tender.payments ?? []).filter((p) => p.method === 'CREDIT').reduce((a, p) => a + p.amount, 0);
+    if (onCredit > 0) {
+      // the server enforces both; checking here saves a round trip at the counter
+      const owes = customer?.balance ?? 0;
+      const t = !customer
+        ? 'Attach a customer to sell on credit.'
+        : customer.creditLimit != null && owes + onCredit > customer.creditLimit + 0.001
+        ? `Credit limit exceeded for ${customer.name}: owes ${money(owes)}, limit ${money(customer.creditLimit)}.`
+        : null;
+      if (t) {
+        setSellMsg({ kind: 'err', text: t });
+        showNotice({ kind: 'error', text: t });
+        return;
+      }
+    }
+    const onPoints = (tender.payments ?? []).filter((p) => p.method === 'POINTS').reduce((a, p) => a + p.amount, 0);
+    if (onPoints > 0) {
+      const t = !customer
+        ? 'Attach a customer to pay with loyalty points.'
+        : onPoints > (customer.pointsWorth ?? 0) + 0.001
+        ? `${customer.name}'s points are worth ${money(customer.pointsWorth ?? 0)}.`
+        : null;
+      if (t) {
+        setSellMsg({ kind: 'err', text: t });
+        showNotice({ kind: 'error', text: t });
+        return;
+      }
+    }
 
     setSelling(true);
     try {
-      // 1) Update inventory batches
-      for (const line of cart) {
-        const newShelves = subtractShelves(line.shelves, line.qty);
-        if (!newShelves) throw new Error(`Shelves do not have enough stock for ${line.name}.`);
-        const newQty = line.available - line.qty;
-
-        const res = await fetch('/api/inventory', {
-          method: 'PUT',
+      const checkout = {
+        ...cartPayload,
+        payments: tender.payments,
+        prescriptionId: prescription?.id ?? null,
+        safetyOverride: warnings.length > 0 ? safetyReason.trim() : null,
+        overridePin: approvals.length > 0 ? overridePin : null,
+      };
+      // a retry of the same checkout (double click, timeout) reuses its key
+      const body = JSON.stringify(checkout);
+      if (saleKeyRef.current?.body !== body) saleKeyRef.current = { body, key: newSaleKey() };
+      const idempotencyKey = saleKeyRef.current.key;
+
+      // Server decrements stock, prices the lines (discounts/promotions) and records the sale in one transaction
+      let res: Response | null = null;
+      let data: ApiSaleCreated = {};
+      try {
+        res = await fetch('/api/sales', {
+          method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
-          body: JSON.stringify({
-            id: line.id,
-            qty: newQty,
-            shelves: newShelves.map((s) => ({
-              shelfId: s.shelfId,
-              shelfName: s.shelfName,
-              qty: s.qty,
-              shelfRefId: s.shelfRefId ?? undefined,
-            })),
-          }),
+          body: JSON.stringify({ ...checkout, idempotencyKey }),
         });
-
-        const data = (await res.json()) as ApiOkResponse & ApiItemResponse;
-        const success = res.ok && (('item' in data && !!data.item) || data.ok === true);
-        const maybeErr = 'error' in data ? data.error : undefined;
-        if (!success) throw new Error(maybeErr ?? 'Failed to update inventory');
+        data = (await res.json().catch(() => ({}))) as ApiSaleCreated;
+      } catch (e: unknown) {
+        if (!isUnreachable(e)) throw e;
       }
-
-      // 2) Save the sale
-      const lines: SaleLine[] = cart.map((l) => ({
-        id: l.id,
-        name: l.name,
-        price: l.price,
-        qty: l.qty,
-        lineTotal: l.qty * l.price,
-      }));
-      const total = lines.reduce((a, x) => a + x.lineTotal, 0);
-
-      const r2 = await fetch('/api/sales', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ total, lines }),
-      });
-      const d2 = (await r2.json()) as ApiOkResponse;
-      if (!r2.ok || d2?.ok !== true) throw new Error(d2?.error ?? 'Failed to save sale');
+      if (!res || isUnreachable(null, res.status, data.error)) {
+        await queueOffline(checkout, idempotencyKey);
+        saleKeyRef.current = null;
+        setOffline(true);
+        setQueuedTick((t) => t + 1);
+        const t = `Offline — sale of ${money(cartTotal)} saved on this device. It will sync when the connection is back.`;
+        setSellMsg({ kind: 'ok', text: t });
+        showNotice({ kind: 'info', text: t });
+        setPayRows([newPayRow()]);
+        resetCart();
+        refreshList();
+        if (kbMode) focusSearch();
+        return;
+      }
+      if (!res.ok || data?.ok !== true) throw new Error(data?.error ?? 'Failed to save sale');
+      saleKeyRef.current = null;
 
       setSellMsg({ kind: 'ok', text: 'Sale completed.' });
-      showNotice({ kind: 'success', text: 'Sale completed and recorded.' });
+      setLastSaleId(data.id ?? null);
+      const saved = toNum(data.discount);
+      const change = toNum(data.changeDue);
+      showNotice({
+        kind: 'success',
+        text: `Sale #${data.id} ${data.replayed ? 'was already recorded' : 'recorded'}. Total: ${money(toNum(data.total))}${saved > 0 ? ` (saved ${money(saved)})` : ''}${
+          change > 0 ? ` · Change: ${money(change)}` : ''
+        }`,
+      });
+      if (change > 0) setSellMsg({ kind: 'ok', text: `Sale completed. Change due: ${money(change)}` });
+      setPayRows([newPayRow()]);
       clearCart();
-      fetchItems();
+      refreshList();
+      refreshSnapshot();
+      if (kbMode) focusSearch();
       if (section === 'history') await fetchHistory(1);
     } catch (e: unknown) {
       const t = errMsg(e);
@@ -373,10 +951,54 @@ export default function SellMedicineWindow({
   /* Scanner */
   const [scanOpen, setScanOpen] = useState(false);
   const [scanErr, setScanErr] = useState<string | null>(null);
+  const [learnCode, setLearnCode] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const frameRef = useRef<number | null>(null);
   const detectorRef = useRef<BarcodeDetectorInstance | null>(null);
 
+  /**
+   * Put a registry hit in the cart: its batch when the code names one (GS1 batch or a batch label)
+   * and it is sellable, else the medicine FEFO.
+   */
+  async function addScanned(m: BarcodeMatch, raw: string) {
+    if (m.batchNo) {
+      const res = await fetch(`/api/inventory?q=${encodeURIComponent(m.batchNo)}`, { credentials: 'include' });
+      const data = (await res.json()) as ApiListResponse;
+      const it = (data.items ?? []).map(normalize).find((i) => i.id === m.batchNo && i.qty > 0);
+      if (it) {
+        addToCart(it);
+        return;
+      }
+    }
+    const res = await fetch(`/api/sales/medicines?q=${encodeURIComponent(m.medicineName)}`, { credentials: 'include' });
+    const data = (await res.json()) as ApiMedicines;
+    if (!res.ok) throw new Error(data?.error ?? 'Failed to load');
+    const med = (data.items ?? []).find((i) => i.medicineId === m.medicineId);
+    if (!med) {
+      showNotice({ kind: 'error', text: `No sellable stock of “${m.medicineName}”.` });
+      return;
+    }
+    addMedicineToCart(med);
+    const lot = parseGs1(raw)?.batch;
+    if (lot) showNotice({ kind: 'info', text: `Batch ${lot} of this pack isn't in stock — added “${med.name}” earliest expiry first.` });
+  }
+
+  /** A scanned code: known → straight into the cart, unknown → offer to learn it */
+  async function onScanned(raw: string) {
+    try {
+      const res = await fetch(`/api/barcodes?code=${encodeURIComponent(raw)}`, { credentials: 'include' });
+      const data = (await res.json()) as { match?: BarcodeMatch | null; error?: string };
+      if (!res.ok) throw new Error(data?.error ?? 'Barcode lookup failed');
+      if (data.match) await addScanned(data.match, raw);
+      else setLearnCode(raw);
+    } catch (e: unknown) {
+      setQ(raw);
+      showNotice({ kind: 'error', text: errMsg(e) });
+    }
+  }
+  const onScannedRef = useRef(onScanned);
+  onScannedRef.current = onScanned;
+
   useEffect(() => {
     if (!scanOpen) return;
     let stream: MediaStream | null = null;
@@ -391,7 +1013,7 @@ export default function SellMedicineWindow({
         return;
       }
       try {
-        detectorRef.current = new BD({ formats: ['qr_code', 'ean_13', 'code_128', 'upc_a'] });
+        detectorRef.current = new BD({ formats: ['qr_code', 'data_matrix', 'ean_13', 'ean_8', 'code_128', 'upc_a'] });
       } catch {
         setScanErr('BarcodeDetector initialization failed.');
         return;
@@ -412,8 +1034,8 @@ export default function SellMedicineWindow({
             if (codes && codes.length) {
               const raw = String(codes[0]?.rawValue || '').trim();
               if (raw) {
-                setQ(raw);
                 setScanOpen(false);
+                onScannedRef.current(raw);
                 return;
               }
             }
@@ -444,6 +1066,132 @@ export default function SellMedicineWindow({
     };
   }, [scanOpen]);
 
+  /* Keyboard billing: arrows pick a result, Enter adds it and jumps to its qty, F-keys for the rest */
+  const [kbMode, setKbMode] = useState(false);
+  const kb = kbMode && !mobile;
+  const [pick, setPick] = useState(0);
+  const [parkSignal, setParkSignal] = useState(0);
+  const searchRef = useRef<HTMLInputElement | null>(null);
+  const discountRef = useRef<HTMLInputElement | null>(null);
+  const payRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const qtyRefs = useRef(new Map<string, HTMLInputElement>());
+  const qtyFocusRef = useRef<string | null>(null); // line to focus once it renders
+  const burstRef = useRef<number[]>([]); // keystroke times of the current burst in the search box
+  const resultCount = sellBy === 'medicine' ? medItems.length : items.length;
+
+  useEffect(() => {
+    setKbMode(localStorage.getItem(KB_MODE_KEY) === 'true');
+  }, []);
+  const toggleKbMode = () => {
+    localStorage.setItem(KB_MODE_KEY, String(!kbMode));
+    setKbMode(!kbMode);
+  };
+  const focusSearch = useCallback(() => {
+    searchRef.current?.focus();
+    searchRef.current?.select();
+  }, []);
+
+  useEffect(() => {
+    if (open && kb && section === 'sell') requestAnimationFrame(focusSearch);
+  }, [open, kb, section, focusSearch]);
+  useEffect(() => setPick(0), [items, medItems, sellBy]);
+  useEffect(() => {
+    if (kb) listRef.current?.querySelector('[data-picked="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [kb, pick, resultCount]);
+  useEffect(() => {
+    const id = qtyFocusRef.current;
+    const el = id ? qtyRefs.current.get(id) : null;
+    if (!el) return;
+    qtyFocusRef.current = null;
+    el.focus();
+    el.select();
+  }, [cart]);
+
+  const qtyRef = (id: string) => (el: HTMLInputElement | null) => {
+    if (el) qtyRefs.current.set(id, el);
+    else qtyRefs.current.delete(id);
+  };
+  /** After adding from the keyboard the cashier types the qty straight away */
+  function focusLineQty(id: string) {
+    const el = qtyRefs.current.get(id);
+    if (el) {
+      el.focus();
+      el.select();
+    } else qtyFocusRef.current = id;
+  }
+  function addPicked() {
+    if (sellBy === 'medicine') {
+      const m = medItems[pick];
+      if (!m || m.qty <= 0) return;
+      addMedicineToCart(m);
+      focusLineQty(`med:${m.medicineId}`);
+    } else {
+      const it = items[pick];
+      if (!it || it.qty <= 0) return;
+      addToCart(it);
+      focusLineQty(it.id);
+    }
+  }
+
+  function onSearchKey(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key.length === 1) {
+      const burst = burstRef.current;
+      if (burst.length && e.timeStamp - burst[burst.length - 1] > WEDGE_GAP_MS) burst.length = 0;
+      burst.push(e.timeStamp);
+      return;
+    }
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      const burst = burstRef.current.length;
+      burstRef.current = [];
+      // a wedge scanner's code + Enter: look it up like a camera scan
+      if (burst >= WEDGE_MIN_CHARS) {
+        const code = e.currentTarget.value.slice(-burst).trim();
+        setQ('');
+        onScannedRef.current(code);
+        return;
+      }
+      if (kb) addPicked();
+      return;
+    }
+    if (!kb) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setPick((p) => Math.max(0, Math.min(resultCount - 1, p + step)));
+    } else if (e.key === 'Escape' && q) {
+      e.preventDefault();
+      setQ('');
+    }
+  }
+  /** Enter / Esc in a cart qty: back to the search box for the next item */
+  function onQtyKey(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!kb || (e.key !== 'Enter' && e.key !== 'Escape')) return;
+    e.preventDefault();
+    setQ('');
+    focusSearch();
+  }
+  /** F2 search · F4 bill discount · F7 payment · F8 park · F9 complete; stray typing goes to the search box */
+  function onWindowKey(e: React.KeyboardEvent<HTMLDivElement>) {
+    if (!kb || section !== 'sell') return;
+    const act = (fn: () => void) => {
+      e.preventDefault();
+      fn();
+    };
+    if (e.key === 'F2') return act(focusSearch);
+    if (e.key === 'F4') return act(() => discountRef.current?.focus());
+    if (e.key === 'F7') return act(() => payRef.current?.focus());
+    if (e.key === 'F8') return act(() => setParkSignal((n) => n + 1));
+    if (e.key === 'F9') {
+      return act(() => {
+        if (!selling && cart.length > 0 && shiftOpen) completeSale();
+      });
+    }
+    const typing = /^(INPUT|TEXTAREA|SELECT)$/.test((e.target as HTMLElement).tagName);
+    if (!typing && e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) searchRef.current?.focus();
+  }
+
   /* History */
   const [hQ, setHQ] = useState('');
   const dHQ = useDebounce(hQ, 350);
@@ -453,6 +1201,7 @@ export default function SellMedicineWindow({
   const [page, setPage] = useState(1);
   const [pages, setPages] = useState(1);
   const [openSale, setOpenSale] = useState<Sale | null>(null);
+  const [detailCustomerId, setDetailCustomerId] = useState<number | null>(null);
 
   const fetchHistory = React.useCallback(async (p = 1) => {
     setHMsg(null);
@@ -477,6 +1226,142 @@ export default function SellMedicineWindow({
     if (section === 'history') fetchHistory(1);
   }, [section, dHQ, fetchHistory]);
 
+  /* Returns / void (against a sale from history) */
+  const [saleAction, setSaleAction] = useState<SaleAction>('view');
+  const [returnQty, setReturnQty] = useState<Record<number, number>>({});
+  const [returnShelfId, setReturnShelfId] = useState('');
+  const [returnReason, setReturnReason] = useState('');
+  const [returning, setReturning] = useState(false);
+  const [shelfOptions, setShelfOptions] = useState<ShelfOption[]>([]);
+
+  const returnable = (l: SaleLine) => Math.max(0, l.qty - (l.returnedQty ?? 0));
+  const refundPreview = useMemo(() => {
+    if (!openSale) return 0;
+    return openSale.lines.reduce((a, l) => {
+      const q = l.lineId != null ? returnQty[l.lineId] ?? 0 : 0;
+      return a + (l.qty > 0 ? (l.lineTotal / l.qty) * q : 0);
+    }, 0);
+  }, [openSale, returnQty]);
+
+  const canReturn = (s: Sale) => !s.voided && s.lines.some((l) => returnable(l) > 0);
+  const canVoid = (s: Sale) => !s.voided && !s.refunded && !s.lines.some((l) => (l.returnedQty ?? 0) > 0);
+
+  async function startAction(s: Sale, action: Exclude<SaleAction, 'view'>) {
+    setOpenSale(s);
+    setSaleAction(action);
+    setReturnQty({});
+    setReturnShelfId('');
+    setReturnReason('');
+    try {
+      const res = await fetch('/api/shelves', { credentials: 'include' });
+      const data = (await res.json()) as { items?: ShelfOption[] };
+      setShelfOptions(res.ok ? data.items ?? [] : []);
+    } catch {
+      setShelfOptions([]);
+    }
+  }
+
+  function closeSale() {
+    setOpenSale(null);
+    setSaleAction('view');
+  }
+
+  async function submitReturn() {
+    if (!openSale) return;
+    const lines = openSale.lines
+      .filter((l) => l.lineId != null && (returnQty[l.lineId] ?? 0) > 0)
+      .map((l) => ({
+        saleLineId: l.lineId as number,
+        qty: returnQty[l.lineId as number],
+        shelfId: returnShelfId ? Number(returnShelfId) : null,
+      }));
+    if (lines.length === 0) {
+      showNotice({ kind: 'error', text: 'Enter a quantity to return.' });
+      return;
+    }
+
+    setReturning(true);
+    try {
+      const res = await fetch('/api/sales/returns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ saleId: Number(openSale._id), reason: returnReason, lines }),
+      });
+      const data = (await res.json()) as ApiReturnCreated;
+      if (!res.ok || data?.ok !== true) throw new Error(data?.error ?? 'Failed to record return');
+
+      showNotice({ kind: 'success', text: `Return recorded. ${refundText(data.tenders ?? [])}` });
+      closeSale();
+      await fetchHistory(page);
+      if (returnShelfId) refreshList();
+    } catch (e: unknown) {
+      showNotice({ kind: 'error', text: errMsg(e) });
+    } finally {
+      setReturning(false);
+    }
+  }
+
+  async function submitVoid() {
+    if (!openSale) return;
+    if (!returnReason.trim()) {
+      showNotice({ kind: 'error', text: 'A reason is required to void a sale.' });
+      return;
+    }
+
+    setReturning(true);
+    try {
+      const res = await fetch('/api/sales/void', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          saleId: Number(openSale._id),
+          reason: returnReason,
+          shelfId: returnShelfId ? Number(returnShelfId) : null,
+        }),
+      });
+      const data = (await res.json()) as ApiVoidResult;
+      if (!res.ok || data?.ok !== true) throw new Error(data?.error ?? 'Failed to void sale');
+
+      const missing = data.notRestocked ?? [];
+      showNotice(
+        missing.length
+          ? {
+              kind: 'info',
+              text: `Sale #${data.id} voided. Not restocked (batch no longer exists): ${missing
+                .map((m) => `${m.name} (${m.batchNo}) × ${m.qty}`)
+                .join(', ')}.`,
+            }
+          : { kind: 'success', text: `Sale #${data.id} voided and stock restored.` },
+      );
+      closeSale();
+      await fetchHistory(page);
+      refreshList();
+    } catch (e: unknown) {
+      showNotice({ kind: 'error', text: errMsg(e) });
+    } finally {
+      setReturning(false);
+    }
+  }
+
+  /** Raw ESC/POS to the counter's thermal printer (RECEIPT_PRINTER on the server) */
+  async function printThermal(saleId: number | string) {
+    try {
+      const res = await fetch('/api/sales/receipt/escpos', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ saleId: Number(saleId) }),
+      });
+      const data = (await res.json()) as { ok?: boolean; printer?: string; error?: string };
+      if (!res.ok || data?.ok !== true) throw new Error(data?.error ?? 'Failed to print');
+      showNotice({ kind: 'success', text: `Receipt #${saleId} sent to ${data.printer}.` });
+    } catch (e: unknown) {
+      showNotice({ kind: 'error', text: errMsg(e) });
+    }
+  }
+
   /* ───────────────────── Early return AFTER hooks ───────────────────── */
   if (!open) return null;
 
@@ -517,18 +1402,25 @@ export default function SellMedicineWindow({
           <div className="window-content h-[calc(100%-48px-52px)] overflow-y-auto p-3">
             {section === 'sell' && (
               <>
+                <div className="mb-2 space-y-2">
+                  <CashShiftBar onChange={setShiftOpen} refreshKey={lastSaleId} />
+                  <OfflineSyncBar offline={offline} refreshKey={queuedTick} onSynced={onSynced} />
+                </div>
+
                 {/* search / actions */}
                 <div className="flex gap-2">
                   <div className="relative flex-1">
                     <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
                     <Input
+                      ref={searchRef}
                       value={q}
                       onChange={(e) => setQ(e.target.value)}
+                      onKeyDown={onSearchKey}
                       placeholder="Search by name, ID, or batch…"
                       className="pl-8 h-10 w-full"
                     />
                   </div>
-                  <Button variant="outline" className="h-10" onClick={fetchItems}>
+                  <Button variant="outline" className="h-10" onClick={refreshList}>
                     <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
                   </Button>
                   <Button className="h-10" onClick={() => setScanOpen(true)}>
@@ -536,9 +1428,19 @@ export default function SellMedicineWindow({
                   </Button>
                 </div>
 
+                <SellByToggle value={sellBy} onChange={setSellBy} className="mt-2" />
+
                 {/* list as compact cards (mobile) */}
                 <div className="mt-3 space-y-3">
-                  {items.length === 0 ? (
+                  {sellBy === 'medicine' ? (
+                    medItems.length === 0 ? (
+                      <div className="p-3 text-sm text-slate-600 rounded-xl border border-white/40 bg-white/70">
+                        {msg || 'No results'}
+                      </div>
+                    ) : (
+                      medItems.map((m) => <MedicineStockCard key={m.medicineId} m={m} onAdd={addMedicineToCart} />)
+                    )
+                  ) : items.length === 0 ? (
                     <div className="p-3 text-sm text-slate-600 rounded-xl border border-white/40 bg-white/70">
                       {msg || 'No results'}
                     </div>
@@ -577,8 +1479,9 @@ export default function SellMedicineWindow({
 
                 {/* cart (mobile) */}
                 <Card className="mt-4 bg-white/70 border-white/40">
-                  <CardHeader className="py-3">
+                  <CardHeader className="py-3 space-y-2">
                     <CardTitle className="text-base">Cart</CardTitle>
+                    <ParkedCarts payload={parkPayload} cartEmpty={cart.length === 0} onParked={onParked} onResume={onResume} />
                   </CardHeader>
                   <CardContent className="p-3">
                     {cart.length === 0 ? (
@@ -586,35 +1489,52 @@ export default function SellMedicineWindow({
                     ) : (
                       <div className="space-y-3">
                         {cart.map((l) => (
-                          <div key={l.id} className="flex items-center gap-2">
-                            <div className="flex-1">
-                              <div className="text-sm font-medium">{l.name}</div>
-                              <div className="text-xs text-slate-600">ID: {l.id} • In stock: {l.available}</div>
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setLineQty(l.id, l.qty - 1)}>
-                                <Minus className="h-4 w-4" />
-                              </Button>
-                              <Input
-                                value={String(l.qty)}
-                                onChange={(e) => setLineQty(l.id, toNum(e.target.value))}
-                                className="h-8 w-16 text-center"
-                                inputMode="numeric"
-                              />
-                              <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setLineQty(l.id, l.qty + 1)}>
-                                <Plus className="h-4 w-4" />
+                          <div key={l.id} className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <div className="flex-1">
+                                <div className="text-sm font-medium">
+                                  {l.name}
+                                  {(l.prescriptionOnly || l.schedule) && <RxBadge schedule={l.schedule} />}
+                                </div>
+                                <div className="text-xs text-slate-600">
+                                  {l.medicineId != null ? 'Batches: earliest expiry first' : `ID: ${l.id}`} • In stock: {l.available}{' '}
+                                  {baseLabel(l.base, l.available)}
+                                </div>
+                                {l.medicineId != null && <PickedBatches parts={quoteParts(l)} />}
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <UnitSelect line={l} onChange={setLineUnit} />
+                                <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setLineQty(l.id, l.qty - 1)}>
+                                  <Minus className="h-4 w-4" />
+                                </Button>
+                                <Input
+                                  value={String(l.qty)}
+                                  onChange={(e) => setLineQty(l.id, toNum(e.target.value))}
+                                  className="h-8 w-16 text-center"
+                                  inputMode="numeric"
+                                />
+                                <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setLineQty(l.id, l.qty + 1)}>
+                                  <Plus className="h-4 w-4" />
+                                </Button>
+                              </div>
+                              <div className="w-20 text-right text-sm font-medium">{money(lineNet(l))}</div>
+                              <Button size="icon" variant="destructive" className="h-8 w-8" onClick={() => removeLine(l.id)}>
+                                <Trash2 className="h-4 w-4" />
                               </Button>
                             </div>
-                            <div className="w-20 text-right text-sm font-medium">{money(l.qty * l.price)}</div>
-                            <Button size="icon" variant="destructive" className="h-8 w-8" onClick={() => removeLine(l.id)}>
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            <div className="flex flex-wrap items-start gap-2">
+                              {!toNum(l.overPrice) && <LineDiscountInput line={l} quoted={quoteLine(l)} onChange={setLineDiscount} />}
+                              <PriceOverrideInput line={l} quoted={quoteParts(l)} onChange={setLineOverride} />
+                            </div>
                           </div>
                         ))}
-                        <div className="pt-2 border-t border-white/40 flex items-center justify-between">
-                          <div className="text-sm">Total</div>
-                          <div className="text-base font-semibold">{money(cartTotal)}</div>
-                        </div>
+                        <CustomerPicker value={customer} onChange={setCustomer} />
+                        <PrescriptionPicker value={prescription} onChange={setPrescription} customer={customer} required={rxRequired} />
+                        <SafetyWarnings warnings={warnings} reason={safetyReason} onReason={setSafetyReason} />
+                        <OverrideApproval needs={approvals} pin={overridePin} onPin={setOverridePin} />
+                        <BillDiscountInput type={billType} value={billValue} onType={setBillType} onValue={setBillValue} />
+                        <CartTotals quote={liveQuote} error={quoteErr} total={cartTotal} />
+                        <TenderInput rows={payRows} onChange={setPayRows} tender={tender} newRow={newPayRow} pointsWorth={customer?.pointsWorth ?? null} />
                         {sellMsg && (
                           <div className={`text-sm ${sellMsg.kind === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>
                             {sellMsg.text}
@@ -624,9 +1544,18 @@ export default function SellMedicineWindow({
                           <Button variant="secondary" onClick={clearCart} disabled={selling}>
                             Clear
                           </Button>
-                          <Button onClick={completeSale} disabled={selling || cart.length === 0}>
+                          <Button
+                            onClick={completeSale}
+                            disabled={selling || cart.length === 0 || !shiftOpen}
+                            title={shiftOpen ? undefined : 'Open a cash shift first'}
+                          >
                             <Check className="h-4 w-4 mr-1" /> {selling ? 'Processing…' : 'Complete Sale'}
                           </Button>
+                          {lastSaleId && (
+                            <Button variant="outline" onClick={() => openReceipt(lastSaleId, '80mm')}>
+                              <Printer className="h-4 w-4 mr-1" /> Receipt
+                            </Button>
+                          )}
                         </div>
                       </div>
                     )}
@@ -678,7 +1607,11 @@ export default function SellMedicineWindow({
                                 <Td>
                                   {s.lines.reduce((a, l) => a + l.qty, 0)} ({s.lines.length} SKUs)
                                 </Td>
-                                <Td className="font-medium">{money(s.total)}</Td>
+                                <Td className="font-medium">
+                                  <span className={s.voided ? 'line-through text-slate-500' : ''}>{money(s.total)}</span>
+                                  {s.voided && <VoidBadge />}
+                                  <PaidWith payments={s.payments} />
+                                </Td>
                                 <Td>{s.createdBy ?? '-'}</Td>
                                 <Td className="text-right pr-3">
                                   <Button size="sm" className="h-8 px-2" onClick={() => setOpenSale(s)}>
@@ -727,12 +1660,14 @@ export default function SellMedicineWindow({
                 </CardContent>
               </Card>
             )}
+
+            {section === 'promotions' && <PromotionsPanel onNotice={(kind, text) => showNotice({ kind, text })} />}
           </div>
         </div>
 
         {/* bottom tabs */}
-        <div className="grid grid-cols-2 gap-1 border-t border-white/40 bg-white/70">
-          {(['sell', 'history'] as Section[]).map((s) => (
+        <div className="grid grid-cols-3 gap-1 border-t border-white/40 bg-white/70">
+          {(['sell', 'history', 'promotions'] as Section[]).map((s) => (
             <button
               key={s}
               onClick={() => setSection(s)}
@@ -809,10 +1744,10 @@ export default function SellMedicineWindow({
         </div>
       )}
 
-      <div className="window-content flex-1 min-h-0 grid grid-cols-[220px_1fr]">
+      <div className="window-content flex-1 min-h-0 grid grid-cols-[220px_1fr] outline-none" tabIndex={-1} onKeyDown={onWindowKey}>
         {/* left nav */}
         <div className="border-r border-white/25 bg-white/35 p-2">
-          {(['sell', 'history'] as Section[]).map((s) => (
+          {(['sell', 'history', 'promotions'] as Section[]).map((s) => (
             <button
               key={s}
               onClick={() => setSection(s)}
@@ -829,6 +1764,11 @@ export default function SellMedicineWindow({
         <div className="min-h-0 p-3 md:p-4 overflow-auto">
           {section === 'sell' && (
             <>
+              <div className="mb-3 space-y-2">
+                <CashShiftBar onChange={setShiftOpen} refreshKey={lastSaleId} />
+                <OfflineSyncBar offline={offline} refreshKey={queuedTick} onSynced={onSynced} />
+              </div>
+
               {/* Find */}
               <Card className="bg-white/60 backdrop-blur-lg border-white/40">
                 <CardHeader className="pb-2 pt-3 md:pt-4">
@@ -840,14 +1780,25 @@ export default function SellMedicineWindow({
                         <div className="relative flex-1">
                           <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
                           <Input
+                            ref={searchRef}
                             value={q}
                             onChange={(e) => setQ(e.target.value)}
+                            onKeyDown={onSearchKey}
                             placeholder="Search by name, ID, or batch…"
                             className="pl-8 h-10 w-full"
                           />
                         </div>
 
-                        <Button variant="outline" className="h-10 shrink-0" onClick={fetchItems} disabled={loading} title="Refresh">
+                        <Button
+                          variant={kbMode ? 'default' : 'outline'}
+                          className="h-10 shrink-0"
+                          onClick={toggleKbMode}
+                          title="Keyboard billing: arrows, Enter and F-keys"
+                        >
+                          <Keyboard className="h-4 w-4" />
+                        </Button>
+
+                        <Button variant="outline" className="h-10 shrink-0" onClick={refreshList} disabled={loading} title="Refresh">
                           <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
                         </Button>
 
@@ -855,6 +1806,12 @@ export default function SellMedicineWindow({
                           <QrCode className="h-4 w-4" />
                         </Button>
                       </div>
+                      <SellByToggle value={sellBy} onChange={setSellBy} className="mt-2" />
+                      {kb && (
+                        <div className="mt-1.5 text-[11px] text-slate-500">
+                          ↑↓ pick · Enter add, type qty, Enter back · F2 search · F4 discount · F7 payment · F8 park · F9 complete
+                        </div>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -862,16 +1819,30 @@ export default function SellMedicineWindow({
                 <CardContent className="p-3 md:p-4">
                   <div className="rounded-lg border border-white/40 bg-white/60 overflow-hidden">
                     {/* CARD GRID */}
-                    <div className="p-3 grid gap-3 sm:grid-cols-2">
+                    <div ref={listRef} className="p-3 grid gap-3 sm:grid-cols-2">
                       {loading ? (
                         <div className="col-span-full flex items-center justify-center py-8 text-slate-500">
                           <RefreshCw className="h-5 w-5 animate-spin mr-2" /> Loading…
                         </div>
+                      ) : sellBy === 'medicine' ? (
+                        medItems.length === 0 ? (
+                          <div className="col-span-full p-3 text-slate-600">{msg || 'No results'}</div>
+                        ) : (
+                          medItems.map((m, i) => (
+                            <MedicineStockCard key={m.medicineId} m={m} onAdd={addMedicineToCart} picked={kb && i === pick} />
+                          ))
+                        )
                       ) : items.length === 0 ? (
                         <div className="col-span-full p-3 text-slate-600">{msg || 'No results'}</div>
                       ) : (
-                        items.map((it) => (
-                          <div key={it.id} className="rounded-xl border border-white/50 bg-white/70 hover:bg-white/90 transition-colors shadow-sm">
+                        items.map((it, i) => (
+                          <div
+                            key={it.id}
+                            data-picked={kb && i === pick}
+                            className={`rounded-xl border border-white/50 bg-white/70 hover:bg-white/90 transition-colors shadow-sm ${
+                              kb && i === pick ? 'ring-2 ring-blue-400' : ''
+                            }`}
+                          >
                             <div className="p-4">
                               <div className="flex items-start justify-between">
                                 <div className="font-semibold text-slate-900">{it.name || '-'}</div>
@@ -909,8 +1880,15 @@ export default function SellMedicineWindow({
 
               {/* Cart */}
               <Card className="mt-4 bg-white/60 backdrop-blur-lg border-white/40">
-                <CardHeader className="py-3">
+                <CardHeader className="py-3 space-y-2">
                   <CardTitle className="text-lg">Cart</CardTitle>
+                  <ParkedCarts
+                    payload={parkPayload}
+                    cartEmpty={cart.length === 0}
+                    onParked={onParked}
+                    onResume={onResume}
+                    parkSignal={parkSignal}
+                  />
                 </CardHeader>
                 <CardContent className="p-3 md:p-4">
                   {cart.length === 0 ? (
@@ -927,6 +1905,7 @@ export default function SellMedicineWindow({
                                 <Th>In Stock</Th>
                                 <Th>Price</Th>
                                 <Th>Qty</Th>
+                                <Th>Discount</Th>
                                 <Th>Line Total</Th>
                                 <Th className="text-right pr-3">Remove</Th>
                               </tr>
@@ -934,18 +1913,30 @@ export default function SellMedicineWindow({
                             <tbody>
                               {cart.map((l) => (
                                 <tr key={l.id} className="odd:bg-white/50">
-                                  <Td>{l.id}</Td>
-                                  <Td>{l.name}</Td>
-                                  <Td>{l.available}</Td>
-                                  <Td>{money(l.price)}</Td>
+                                  <Td>{l.medicineId != null ? <span className="text-slate-500">FEFO</span> : l.id}</Td>
+                                  <Td>
+                                    {l.name}
+                                    {(l.prescriptionOnly || l.schedule) && <RxBadge schedule={l.schedule} />}
+                                    {l.medicineId != null && <PickedBatches parts={quoteParts(l)} />}
+                                  </Td>
+                                  <Td>
+                                    {l.available} {baseLabel(l.base, l.available)}
+                                  </Td>
+                                  <Td>
+                                    {money(l.price)}
+                                    <PriceOverrideInput line={l} quoted={quoteParts(l)} onChange={setLineOverride} />
+                                  </Td>
                                   <Td>
                                     <div className="flex items-center gap-1">
+                                      <UnitSelect line={l} onChange={setLineUnit} />
                                       <Button size="icon" variant="outline" className="h-8 w-8" onClick={() => setLineQty(l.id, l.qty - 1)}>
                                         <Minus className="h-4 w-4" />
                                       </Button>
                                       <Input
+                                        ref={qtyRef(l.id)}
                                         value={String(l.qty)}
                                         onChange={(e) => setLineQty(l.id, toNum(e.target.value))}
+                                        onKeyDown={onQtyKey}
                                         className="h-8 w-16 text-center"
                                         inputMode="numeric"
                                       />
@@ -954,7 +1945,16 @@ export default function SellMedicineWindow({
                                       </Button>
                                     </div>
                                   </Td>
-                                  <Td className="font-medium">{money(l.qty * l.price)}</Td>
+                                  <Td>
+                                    {toNum(l.overPrice) > 0 ? (
+                                      <span className="text-xs text-slate-500">n/a (price overridden)</span>
+                                    ) : (
+                                      <LineDiscountInput line={l} quoted={quoteLine(l)} onChange={setLineDiscount} />
+                                    )}
+                                  </Td>
+                                  <Td className="font-medium">
+                                    {money(lineNet(l))}
+                                  </Td>
                                   <Td className="text-right pr-3">
                                     <Button size="icon" variant="destructive" className="h-8 w-8" onClick={() => removeLine(l.id)}>
                                       <Trash2 className="h-4 w-4" />
@@ -967,9 +1967,37 @@ export default function SellMedicineWindow({
                         </div>
                       </div>
 
-                      <div className="mt-3 flex items-center justify-between">
-                        <div className="text-sm">Total</div>
-                        <div className="text-xl font-semibold">{money(cartTotal)}</div>
+                      <div className="mt-3 sm:w-96">
+                        <CustomerPicker value={customer} onChange={setCustomer} />
+                        <div className="mt-2">
+                          <PrescriptionPicker value={prescription} onChange={setPrescription} customer={customer} required={rxRequired} />
+                        </div>
+                      </div>
+                      {warnings.length > 0 && (
+                        <div className="mt-3">
+                          <SafetyWarnings warnings={warnings} reason={safetyReason} onReason={setSafetyReason} />
+                        </div>
+                      )}
+                      {approvals.length > 0 && (
+                        <div className="mt-3 sm:w-96">
+                          <OverrideApproval needs={approvals} pin={overridePin} onPin={setOverridePin} />
+                        </div>
+                      )}
+                      <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                        <BillDiscountInput type={billType} value={billValue} onType={setBillType} onValue={setBillValue} inputRef={discountRef} />
+                        <div className="sm:w-64">
+                          <CartTotals quote={liveQuote} error={quoteErr} total={cartTotal} large />
+                        </div>
+                      </div>
+                      <div className="mt-2">
+                        <TenderInput
+                          rows={payRows}
+                          onChange={setPayRows}
+                          tender={tender}
+                          newRow={newPayRow}
+                          pointsWorth={customer?.pointsWorth ?? null}
+                          inputRef={payRef}
+                        />
                       </div>
 
                       {sellMsg && (
@@ -982,9 +2010,18 @@ export default function SellMedicineWindow({
                         <Button variant="secondary" onClick={clearCart} disabled={selling}>
                           Clear
                         </Button>
-                        <Button onClick={completeSale} disabled={selling || cart.length === 0}>
+                        <Button
+                          onClick={completeSale}
+                          disabled={selling || cart.length === 0 || !shiftOpen}
+                          title={shiftOpen ? undefined : 'Open a cash shift first'}
+                        >
                           <Check className="h-4 w-4 mr-1" /> {selling ? 'Processing…' : 'Complete Sale'}
                         </Button>
+                        {lastSaleId && (
+                          <Button variant="outline" onClick={() => openReceipt(lastSaleId, '80mm')}>
+                            <Printer className="h-4 w-4 mr-1" /> Print receipt #{lastSaleId}
+                          </Button>
+                        )}
                       </div>
                     </>
                   )}
@@ -1040,17 +2077,44 @@ export default function SellMedicineWindow({
                           </tr>
                         ) : (
                           history.map((s) => (
-                            <tr key={s._id} className="odd:bg-white/50">
+                            <tr key={s._id} className={s.voided ? 'bg-rose-50/60 text-slate-500' : 'odd:bg-white/50'}>
                               <Td>{new Date(s.createdAt).toLocaleString()}</Td>
                               <Td>
                                 {s.lines.reduce((a, l) => a + l.qty, 0)} ({s.lines.length} SKUs)
                               </Td>
-                              <Td className="font-medium">{money(s.total)}</Td>
+                              <Td className="font-medium">
+                                <span className={s.voided ? 'line-through' : ''}>{money(s.total)}</span>
+                                {s.voided && <VoidBadge />}
+                                <PaidWith payments={s.payments} />
+                                {!!s.refunded && (
+                                  <div className="text-[11px] font-normal text-rose-600">−{money(s.refunded)} refunded</div>
+                                )}
+                              </Td>
                               <Td>{s.createdBy ?? '-'}</Td>
                               <Td className="text-right pr-3">
-                                <Button size="sm" className="h-8 px-2" onClick={() => setOpenSale(s)}>
-                                  View
-                                </Button>
+                                <div className="flex justify-end gap-1">
+                                  <Button size="sm" className="h-8 px-2" onClick={() => setOpenSale(s)}>
+                                    View
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-8 px-2"
+                                    onClick={() => startAction(s, 'return')}
+                                    disabled={!canReturn(s)}
+                                  >
+                                    <Undo2 className="h-4 w-4 mr-1" /> Return
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-8 px-2 text-rose-700"
+                                    onClick={() => startAction(s, 'void')}
+                                    disabled={!canVoid(s)}
+                                  >
+                                    <Ban className="h-4 w-4 mr-1" /> Void
+                                  </Button>
+                                </div>
                               </Td>
                             </tr>
                           ))
@@ -1094,6 +2158,8 @@ export default function SellMedicineWindow({
               </CardContent>
             </Card>
           )}
+
+          {section === 'promotions' && <PromotionsPanel onNotice={(kind, text) => showNotice({ kind, text })} />}
         </div>
       </div>
 
@@ -1114,20 +2180,48 @@ export default function SellMedicineWindow({
                 <video ref={videoRef} className="w-full rounded-md bg-black/60 aspect-video" />
               )}
               <p className="mt-2 text-xs text-slate-600">
-                Tip: We match scanned value to <b>ID / Batch / Name</b>.
+                Tip: Known barcodes go straight into the cart; you can teach unknown ones to the register.
               </p>
             </div>
           </div>
         </div>
       )}
 
+      {learnCode && (
+        <LearnBarcode
+          code={learnCode}
+          onClose={() => {
+            setQ(learnCode);
+            setLearnCode(null);
+          }}
+          onLearned={(m) => {
+            setLearnCode(null);
+            addScanned(m, learnCode).catch((e: unknown) => showNotice({ kind: 'error', text: errMsg(e) }));
+          }}
+        />
+      )}
+
       {/* Sale details modal (desktop) */}
       {openSale && (
         <div className="fixed inset-0 z-[160] bg-black/60 flex items-center justify-center">
           <div className="w-[92vw] max-w-[720px] bg-white/95 backdrop-blur rounded-xl border border-white/40 shadow-2xl overflow-hidden">
             <div className="flex items-center justify-between px-4 py-2 border-b border-white/40">
-              <div className="text-sm font-medium">Sale — {new Date(openSale.createdAt).toLocaleString()}</div>
-              <button onClick={() => setOpenSale(null)} className="rounded px-2 py-1 bg-white/70 border border-white/40 text-xs">
+              <div className="text-sm font-medium">
+                {saleAction === 'return' ? 'Return — ' : saleAction === 'void' ? 'Void — ' : 'Sale — '}
+                {new Date(openSale.createdAt).toLocaleString()}
+                {openSale.customer && (
+                  <button
+                    type="button"
+                    onClick={() => setDetailCustomerId(openSale.customer?.id ?? null)}
+                    className="ml-2 text-blue-700 hover:underline"
+                    title="Customer history"
+                  >
+                    · {openSale.customer.name}
+                    {openSale.customer.phone ? ` (${openSale.customer.phone})` : ''}
+                  </button>
+                )}
+              </div>
+              <button onClick={closeSale} className="rounded px-2 py-1 bg-white/70 border border-white/40 text-xs">
                 <X className="h-4 w-4 inline -mt-0.5 mr-1" /> Close
               </button>
             </div>
@@ -1140,7 +2234,10 @@ export default function SellMedicineWindow({
                       <Th>Name</Th>
                       <Th>Price</Th>
                       <Th>Qty</Th>
+                      <Th>Discount</Th>
                       <Th>Line Total</Th>
+                      <Th>Returned</Th>
+                      {saleAction === 'return' && <Th>Return Qty</Th>}
                     </tr>
                   </thead>
                   <tbody>
@@ -1150,23 +2247,631 @@ export default function SellMedicineWindow({
                         <Td>{l.name}</Td>
                         <Td>{money(l.price)}</Td>
                         <Td>{l.qty}</Td>
+                        <Td>
+                          {(l.discount ?? 0) + (l.billDiscount ?? 0) > 0 ? (
+                            <>
+                              −{money((l.discount ?? 0) + (l.billDiscount ?? 0))}
+                              {l.discountRule && <div className="text-[11px] text-slate-500">{l.discountRule}</div>}
+                            </>
+                          ) : (
+                            '-'
+                          )}
+                        </Td>
                         <Td className="font-medium">{money(l.lineTotal)}</Td>
+                        <Td>{l.returnedQty ?? 0}</Td>
+                        {saleAction === 'return' && (
+                          <Td>
+                            <Input
+                              value={String(l.lineId != null ? returnQty[l.lineId] ?? 0 : 0)}
+                              onChange={(e) => {
+                                if (l.lineId == null) return;
+                                const q = Math.max(0, Math.min(Math.trunc(toNum(e.target.value)), returnable(l)));
+                                setReturnQty((prev) => ({ ...prev, [l.lineId as number]: q }));
+                              }}
+                              className="h-8 w-16 text-center"
+                              inputMode="numeric"
+                              disabled={l.lineId == null || returnable(l) === 0}
+                            />
+                          </Td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+              {!!openSale.discount && (
+                <div className="mt-3 text-right text-sm text-slate-600">
+                  Subtotal: {money(openSale.subtotal ?? openSale.total)} • Discount: −{money(openSale.discount)}
+                  {openSale.billDiscountRule ? ` (incl. ${openSale.billDiscountRule})` : ''}
+                </div>
+              )}
               <div className="mt-3 text-right text-base font-semibold">Total: {money(openSale.total)}</div>
+              {(openSale.taxAmount ?? 0) > 0 && (
+                <div className="text-right text-xs text-slate-500">
+                  Taxable {money(openSale.taxableAmount ?? 0)} • VAT {money(openSale.taxAmount ?? 0)} • Exempt{' '}
+                  {money(openSale.exemptAmount ?? 0)}
+                </div>
+              )}
+              {!!openSale.payments?.length && (
+                <div className="mt-1 text-right text-xs text-slate-600 space-y-0.5">
+                  {openSale.payments.map((p, i) => (
+                    <div key={i}>
+                      {PAY_LABELS[p.method]}
+                      {p.provider ? ` (${p.provider})` : ''}
+                      {p.reference ? ` · Ref ${p.reference}` : ''}: {money(p.tendered ?? p.amount)}
+                    </div>
+                  ))}
+                  {!!openSale.changeDue && <div>Change: {money(openSale.changeDue)}</div>}
+                </div>
+              )}
+              {!!openSale.refunded && (
+                <div className="text-right text-sm text-rose-600">Refunded: {money(openSale.refunded)}</div>
+              )}
+              {openSale.voided && (
+                <div className="mt-2 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                  Voided {new Date(openSale.voided.at).toLocaleString()}
+                  {openSale.voided.by ? ` by ${openSale.voided.by}` : ''}
+                  {openSale.voided.reason ? ` — ${openSale.voided.reason}` : ''}
+                </div>
+              )}
+              {openSale.safety && (
+                <div className="mt-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                  Sold despite {openSale.safety.warnings.length} safety warning{openSale.safety.warnings.length === 1 ? '' : 's'}
+                  {' — '}
+                  {openSale.safety.reason}
+                  <ul className="mt-1 list-disc pl-5 text-xs">
+                    {openSale.safety.warnings.map((w, i) => (
+                      <li key={i}>
+                        {w.medicines.join(' + ')}: {w.detail}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {saleAction !== 'view' ? (
+                <div className="mt-3 space-y-2">
+                  <div className="flex gap-2">
+                    <select
+                      value={returnShelfId}
+                      onChange={(e) => setReturnShelfId(e.target.value)}
+                      className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm"
+                    >
+                      <option value="">{saleAction === 'void' ? 'Back to the batch’s shelf' : 'Don’t restock'}</option>
+                      {shelfOptions.map((sh) => (
+                        <option key={sh.id} value={String(sh.id)}>
+                          Restock to {sh.name}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      value={returnReason}
+                      onChange={(e) => setReturnReason(e.target.value)}
+                      placeholder={saleAction === 'void' ? 'Reason (required)' : 'Reason (optional)'}
+                      className="h-9 flex-1"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm">
+                      {saleAction === 'return' ? (
+                        <>Value returned: <span className="font-semibold">{money(refundPreview)}</span></>
+                      ) : (
+                        <>All {openSale.lines.reduce((a, l) => a + l.qty, 0)} units go back to stock.</>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="secondary" onClick={() => setSaleAction('view')} disabled={returning}>
+                        Cancel
+                      </Button>
+                      {saleAction === 'return' ? (
+                        <Button onClick={submitReturn} disabled={returning || refundPreview <= 0}>
+                          <Undo2 className="h-4 w-4 mr-1" /> {returning ? 'Processing…' : 'Record Return'}
+                        </Button>
+                      ) : (
+                        <Button variant="destructive" onClick={submitVoid} disabled={returning || !returnReason.trim()}>
+                          <Ban className="h-4 w-4 mr-1" /> {returning ? 'Processing…' : 'Void Sale'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="mt-3 flex flex-wrap justify-end gap-2">
+                  <div className="mr-auto flex gap-2">
+                    <Button variant="outline" onClick={() => openReceipt(openSale._id, '80mm')} title="Reprint on the receipt printer">
+                      <Printer className="h-4 w-4 mr-1" /> 80mm
+                    </Button>
+                    <Button variant="outline" onClick={() => openReceipt(openSale._id, 'a5')} title="Print an A5 invoice">
+                      <Printer className="h-4 w-4 mr-1" /> A5
+                    </Button>
+                    <Button variant="outline" onClick={() => openReceipt(openSale._id, 'a5', 'pdf')} title="Open the A5 invoice as PDF">
+                      <FileText className="h-4 w-4 mr-1" /> PDF
+                    </Button>
+                    <Button variant="outline" onClick={() => printThermal(openSale._id)} title="Send ESC/POS to the thermal printer">
+                      <Printer className="h-4 w-4 mr-1" /> Thermal
+                    </Button>
+                  </div>
+                  <Button variant="outline" onClick={() => startAction(openSale, 'return')} disabled={!canReturn(openSale)}>
+                    <Undo2 className="h-4 w-4 mr-1" /> Return items
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="text-rose-700"
+                    onClick={() => startAction(openSale, 'void')}
+                    disabled={!canVoid(openSale)}
+                  >
+                    <Ban className="h-4 w-4 mr-1" /> Void sale
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         </div>
       )}
+
+      {detailCustomerId != null && <CustomerDetail customerId={detailCustomerId} onClose={() => setDetailCustomerId(null)} />}
     </Rnd>
   );
 }
 
 /* ───────────────────── Small bits ───────────────────── */
 
+/** Receipt in a new tab: HTML opens the print dialog, PDF is shown inline. */
+function openReceipt(saleId: number | string, format: 'a5' | '80mm', as: 'html' | 'pdf' = 'html') {
+  const qs = new URLSearchParams({ saleId: String(saleId), format, as });
+  if (as === 'html') qs.set('print', '1');
+  window.open(`/api/sales/receipt?${qs.toString()}`, '_blank', 'noopener');
+}
+
+type DiscountLine = { id: string; discType: DiscountKind; discValue: string };
+
+function DiscountTypeSelect({ value, onChange }: { value: DiscountKind; onChange: (v: DiscountKind) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as DiscountKind)}
+      className="h-8 rounded-md border border-slate-200 bg-white px-1 text-xs"
+    >
+      <option value="PERCENT">%</option>
+      <option value="FIXED">Amt</option>
+    </select>
+  );
+}
+
+function LineDiscountInput({
+  line,
+  quoted,
+  onChange,
+}: {
+  line: DiscountLine;
+  quoted: QuoteLine | null;
+  onChange: (id: string, patch: Partial<Pick<DiscountLine, 'discType' | 'discValue'>>) => void;
+}) {
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <DiscountTypeSelect value={line.discType} onChange={(v) => onChange(line.id, { discType: v })} />
+        <Input
+          value={line.discValue}
+          onChange={(e) => onChange(line.id, { discValue: e.target.value })}
+          placeholder="0"
+          className="h-8 w-16 text-center"
+          inputMode="decimal"
+        />
+      </div>
+      {quoted && quoted.discount > 0 && (
+        <div className="mt-0.5 text-[11px] text-emerald-700">
+          −{money(quoted.discount)} {quoted.discountRule ? `· ${quoted.discountRule}` : ''}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BillDiscountInput({
+  type,
+  value,
+  onType,
+  onValue,
+  inputRef,
+}: {
+  type: DiscountKind;
+  value: string;
+  onType: (v: DiscountKind) => void;
+  onValue: (v: string) => void;
+  inputRef?: React.Ref<HTMLInputElement>;
+}) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      Bill discount
+      <DiscountTypeSelect value={type} onChange={onType} />
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => onValue(e.target.value)}
+        placeholder="0"
+        className="h-8 w-20 text-center"
+        inputMode="decimal"
+      />
+    </div>
+  );
+}
+
+function CartTotals({
+  quote,
+  error,
+  total,
+  large = false,
+}: {
+  quote: ApiQuote | null;
+  error: string | null;
+  total: number;
+  large?: boolean;
+}) {
+  return (
+    <div className="pt-2 border-t border-white/40 space-y-1">
+      {quote && quote.discount > 0 && (
+        <>
+          <div className="flex items-center justify-between text-sm text-slate-600">
+            <span>Subtotal</span>
+            <span>{money(quote.subtotal)}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm text-emerald-700">
+            <span>Discounts{quote.billDiscountRule ? ` (incl. ${quote.billDiscountRule})` : ''}</span>
+            <span>−{money(quote.discount)}</span>
+          </div>
+        </>
+      )}
+      <div className="flex items-center justify-between">
+        <div className="text-sm">Total</div>
+        <div className={`${large ? 'text-xl' : 'text-base'} font-semibold`}>{money(total)}</div>
+      </div>
+      {quote && quote.taxAmount > 0 && (
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>incl. VAT on {money(quote.taxableAmount)}</span>
+          <span>{money(quote.taxAmount)}</span>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-600">{error}</div>}
+    </div>
+  );
+}
+
+function TenderInput({
+  rows,
+  onChange,
+  tender,
+  newRow,
+  pointsWorth,
+  inputRef,
+}: {
+  rows: PayRow[];
+  onChange: (rows: PayRow[]) => void;
+  tender: Tender;
+  newRow: (method?: PayMethod) => PayRow;
+  pointsWorth: number | null; // attached customer's points as tender; null = no customer
+  inputRef?: React.Ref<HTMLInputElement>; // first amount
+}) {
+  const patch = (key: number, p: Partial<PayRow>) => onChange(rows.map((r) => (r.key === key ? { ...r, ...p } : r)));
+  return (
+    <div className="pt-2 border-t border-white/40 space-y-1.5">
+      {rows.map((r, i) => (
+        <div key={r.key} className="flex items-center gap-1.5 text-sm">
+          <select
+            value={r.method}
+            onChange={(e) => patch(r.key, { method: e.target.value as PayMethod })}
+            className="h-8 w-24 rounded-md border border-slate-200 bg-white px-1 text-xs"
+          >
+            {(Object.keys(PAY_LABELS) as PayMethod[]).map((m) => (
+              <option key={m} value={m}>
+                {PAY_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <Input
+            ref={i === 0 ? inputRef : undefined}
+            value={r.amount}
+            onChange={(e) => patch(r.key, { amount: e.target.value })}
+            placeholder={r.method === 'CASH' ? 'Tendered' : 'Rest'}
+            className="h-8 w-24 text-right"
+            inputMode="decimal"
+          />
+          {r.method === 'POINTS' ? (
+            <span className="min-w-0 flex-1 truncate text-xs text-slate-500">
+              {pointsWorth == null ? 'Attach a customer' : `up to ${money(pointsWorth)}`}
+            </span>
+          ) : r.method !== 'CASH' && (
+            <Input
+              value={r.reference}
+              onChange={(e) => patch(r.key, { reference: e.target.value })}
+              placeholder={r.method === 'QR_WALLET' ? 'Txn ref *' : 'Ref'}
+              className="h-8 min-w-0 flex-1"
+            />
+          )}
+          {rows.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(rows.filter((x) => x.key !== r.key))}
+              className="rounded p-1 text-slate-500 hover:bg-black/5"
+              title="Remove payment"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => onChange([...rows, newRow(rows.some((r) => r.method === 'CASH') ? 'CARD' : 'CASH')])}
+          className="text-xs text-blue-700 hover:underline"
+        >
+          + Split payment
+        </button>
+        {tender.error ? (
+          <span className="text-xs text-rose-600">{tender.error}</span>
+        ) : tender.short > 0 ? (
+          <span className="font-medium text-rose-600">Short {money(tender.short)}</span>
+        ) : tender.change > 0 ? (
+          <span className="font-semibold text-emerald-700">Change {money(tender.change)}</span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function SellByToggle({ value, onChange, className = '' }: { value: SellBy; onChange: (v: SellBy) => void; className?: string }) {
+  return (
+    <div className={`inline-flex rounded-md border border-white/50 bg-white/60 p-0.5 text-xs ${className}`}>
+      {(['batch', 'medicine'] as SellBy[]).map((v) => (
+        <button
+          key={v}
+          type="button"
+          onClick={() => onChange(v)}
+          className={`rounded px-2 py-1 ${value === v ? 'bg-white font-medium shadow-sm' : 'text-slate-600'}`}
+        >
+          {v === 'batch' ? 'By batch' : 'By medicine (FEFO)'}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** One medicine in sell-by-medicine mode; the server picks the batches when the sale is priced */
+function MedicineStockCard({
+  m,
+  onAdd,
+  picked = false,
+}: {
+  m: MedicineStock;
+  onAdd: (m: MedicineStock) => void;
+  picked?: boolean; // keyboard selection
+}) {
+  return (
+    <div
+      data-picked={picked}
+      className={`rounded-xl border border-white/50 bg-white/70 hover:bg-white/90 transition-colors shadow-sm p-3 ${
+        picked ? 'ring-2 ring-blue-400' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="font-semibold text-slate-900">
+          {m.name}
+          {(m.prescriptionOnly || m.schedule) && <RxBadge schedule={m.schedule} />}
+        </div>
+        <span className="text-[11px] px-2 py-0.5 rounded-full border bg-emerald-50 text-emerald-700 border-emerald-200">
+          {m.qty} sellable
+        </span>
+      </div>
+      <div className="mt-1 text-[13px] text-slate-700">
+        Price: {money(m.price)} • {m.batches} batch{m.batches === 1 ? '' : 'es'} • next: {m.nextBatchNo}
+        {m.nextExpiry ? ` (exp ${m.nextExpiry})` : ''}
+      </div>
+      <Button size="sm" className="w-full mt-2" onClick={() => onAdd(m)} disabled={m.qty <= 0}>
+        Add to cart
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Allergy (red, blocks checkout) and interaction (amber) warnings for the cart. Either kind needs
+ * the pharmacist's override reason, which is saved on the sale.
+ */
+function SafetyWarnings({
+  warnings,
+  reason,
+  onReason,
+}: {
+  warnings: SafetyWarning[];
+  reason: string;
+  onReason: (v: string) => void;
+}) {
+  if (warnings.length === 0) return null;
+  const allergy = warnings.some((w) => w.kind === 'ALLERGY');
+  return (
+    <div
+      className={`rounded-md border px-3 py-2 text-sm space-y-1.5 ${
+        allergy ? 'border-rose-300 bg-rose-50 text-rose-800' : 'border-amber-300 bg-amber-50 text-amber-800'
+      }`}
+    >
+      <div className="font-medium">
+        {allergy ? 'Allergy warning — sale blocked unless a pharmacist overrides it' : 'Interaction warning'}
+      </div>
+      <ul className="list-disc pl-5 text-xs space-y-0.5">
+        {warnings.map((w, i) => (
+          <li key={i}>
+            <b>{w.kind === 'ALLERGY' ? 'Allergy' : 'Interaction'}:</b> {w.medicines.join(' + ')} — {w.detail}
+          </li>
+        ))}
+      </ul>
+      <Input
+        value={reason}
+        onChange={(e) => onReason(e.target.value.slice(0, 300))}
+        placeholder={allergy ? 'Pharmacist override reason (required to sell)' : 'Acknowledge: reason / counselling given'}
+        className="h-8 bg-white/90"
+      />
+    </div>
+  );
+}
+
+/**
+ * The cashier's own price for a cart line (per the selected unit, below the MRP) and why.
+ * Collapsed to a link until used; shows the MRP it replaces once the quote comes back.
+ */
+function PriceOverrideInput({
+  line,
+  quoted,
+  onChange,
+}: {
+  line: { id: string; overPrice: string; overReason: string };
+  quoted: QuoteLine[];
+  onChange: (id: string, patch: { overPrice?: string; overReason?: string }) => void;
+}) {
+  const [open, setOpen] = useState(line.overPrice !== '');
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="block text-[11px] text-slate-500 underline underline-offset-2">
+        Override price
+      </button>
+    );
+  }
+  const mrp = quoted.find((q) => q.originalPrice != null)?.originalPrice;
+  const need = quoted.find((q) => q.approval)?.approval;
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center gap-1">
+        <Input
+          value={line.overPrice}
+          onChange={(e) => onChange(line.id, { overPrice: e.target.value })}
+          placeholder="New price"
+          className="h-8 w-20 text-center"
+          inputMode="decimal"
+          autoFocus
+        />
+        <Input
+          value={line.overReason}
+          onChange={(e) => onChange(line.id, { overReason: e.target.value.slice(0, 200) })}
+          placeholder="Reason"
+          className="h-8 w-32"
+        />
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-8 w-8"
+          title="Back to the MRP price"
+          onClick={() => {
+            onChange(line.id, { overPrice: '', overReason: '' });
+            setOpen(false);
+          }}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {mrp != null && <div className="text-[11px] text-slate-500">MRP {money(mrp)}</div>}
+      {need && <div className="text-[11px] text-amber-700">Needs supervisor: {need}</div>}
+    </div>
+  );
+}
+
+/** Supervisor PIN for price overrides below cost or beyond the cashier's limit */
+function OverrideApproval({ needs, pin, onPin }: { needs: string[]; pin: string; onPin: (v: string) => void }) {
+  if (needs.length === 0) return null;
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 space-y-1.5">
+      <div className="font-medium">Supervisor approval needed</div>
+      <ul className="list-disc pl-5 text-xs space-y-0.5">
+        {needs.map((n, i) => (
+          <li key={i}>{n}</li>
+        ))}
+      </ul>
+      <Input
+        type="password"
+        value={pin}
+        onChange={(e) => onPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+        placeholder="Supervisor PIN"
+        className="h-8 w-40 bg-white/90"
+        inputMode="numeric"
+        autoComplete="off"
+      />
+    </div>
+  );
+}
+
+/** Which batches checkout will take for a sell-by-medicine line (from the live quote) */
+function PickedBatches({ parts }: { parts: QuoteLine[] }) {
+  if (parts.length === 0) return null;
+  return (
+    <div className="text-[11px] text-slate-500">
+      {parts.map((p) => `${p.id} ×${p.qty ?? 0}${p.expiryDate ? ` (exp ${p.expiryDate})` : ''}`).join(', ')}
+    </div>
+  );
+}
+
+const baseLabel = (base: string, n: number) => (base === 'unit' ? '' : `${base}${n === 1 ? '' : 's'}`);
+
+/** Pack / strip / unit picker for a cart line; hidden when the medicine has no pack facts */
+function UnitSelect({
+  line,
+  onChange,
+}: {
+  line: { id: string; unit: SellUnit; units: SellUnitOption[]; base: string };
+  onChange: (id: string, unit: SellUnit) => void;
+}) {
+  if (line.units.length <= 1) return null;
+  return (
+    <select
+      value={line.unit}
+      onChange={(e) => onChange(line.id, e.target.value as SellUnit)}
+      className="h-8 rounded-md border border-white/40 bg-white/90 px-1 text-xs"
+      title="Sell by"
+    >
+      {line.units.map((u) => (
+        <option key={u.unit} value={u.unit}>
+          {u.unit === 'UNIT' && line.base !== 'unit' ? line.base[0].toUpperCase() + line.base.slice(1) : UNIT_LABELS[u.unit]}
+          {u.unit !== 'UNIT' && ` (${u.size})`} · {money(u.price)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/** Prescription only; scheduled (controlled) medicines say which schedule, as they also go in the register */
+function RxBadge({ schedule }: { schedule?: DrugSchedule | null }) {
+  if (schedule) {
+    return (
+      <span
+        className="ml-1.5 rounded bg-rose-100 px-1 py-0.5 align-middle text-[10px] font-semibold text-rose-800"
+        title="Controlled substance: prescription required, recorded in the register"
+      >
+        {schedule === 'NARCOTIC' ? 'Narcotic' : 'Psychotropic'}
+      </span>
+    );
+  }
+  return (
+    <span className="ml-1.5 rounded bg-amber-100 px-1 py-0.5 align-middle text-[10px] font-semibold text-amber-800" title="Prescription only">
+      Rx
+    </span>
+  );
+}
+
+function PaidWith({ payments }: { payments?: SalePayment[] }) {
+  if (!payments?.length) return null;
+  return (
+    <div className="text-[11px] font-normal text-slate-500">
+      {Array.from(new Set(payments.map((p) => PAY_LABELS[p.method]))).join(' + ')}
+    </div>
+  );
+}
+
+function VoidBadge() {
+  return (
+    <span className="ml-2 rounded-full border border-rose-200 bg-rose-50 px-2 py-0.5 text-[10px] font-semibold text-rose-700 no-underline">
+      VOID
+    </span>
+  );
+}
+
 function Th({ children, className = '' }: { children: React.ReactNode; className?: string }) {
   return <th className={`px-3 py-2 text-xs font-semibold text-slate-600 ${className}`}>{children}</th>;
 }
@@ -3,7 +3,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import Image from 'next/image';
 import Select, { MultiValue, StylesConfig, ThemeConfig } from 'react-select';
-import { User, UserPlus, Search, LifeBuoy, LogOut, Mail, MessageCircle, Phone } from 'lucide-react';
+import { User, UserPlus, Search, LifeBuoy, LogOut, Mail, MessageCircle, Phone, Store } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -12,7 +12,7 @@ import { Rnd } from 'react-rnd';
 /* ----------------------------------------------------------------------------
    Types
 ---------------------------------------------------------------------------- */
-type Section = 'profile' | 'createUser' | 'support';
+type Section = 'profile' | 'createUser' | 'pharmacy' | 'support';
 
 type Role = { id: number; name: string };
 type Perm = { id: number; name: string; description?: string };
@@ -22,6 +22,21 @@ type Option = { value: string; label: string; description?: string };
 
 type ApiResp<T> = { error?: string } & T;
 
+type PharmacyInfo = {
+  id: number;
+  name: string;
+  address: string | null;
+  pan: string | null;
+  parkedCartTtlMinutes: number;
+  priceOverrideLimit: number;
+  loyaltyEarnRate: number;
+  loyaltyPointValue: number;
+  loyaltyExpiryDays: number | null;
+};
+
+/* loyalty settings as typed; expiryDays '' = points never lapse */
+type LoyaltyDraft = { earnRate: string; pointValue: string; expiryDays: string };
+
 type Props = {
   zIndex?: number;
   initialPos?: { x: number; y: number };
@@ -346,6 +361,101 @@ export default function SettingsWindow({
     }
   }
 
+  /* ---------------- Pharmacy (receipt header) state ---------------- */
+  const [phName, setPhName] = useState('');
+  const [phAddress, setPhAddress] = useState('');
+  const [phPan, setPhPan] = useState('');
+  const [phParkTtl, setPhParkTtl] = useState('120');
+  const [phOverrideLimit, setPhOverrideLimit] = useState('10');
+  const [phLoyalty, setPhLoyalty] = useState<LoyaltyDraft>({ earnRate: '0', pointValue: '1', expiryDays: '365' });
+  const [phBusy, setPhBusy] = useState(false);
+  const [phMsg, setPhMsg] = useState<{ kind: 'ok' | 'err'; text: string } | null>(null);
+
+  const fillPharmacy = (p: PharmacyInfo | null | undefined) => {
+    setPhName(p?.name ?? '');
+    setPhAddress(p?.address ?? '');
+    setPhPan(p?.pan ?? '');
+    setPhParkTtl(String(p?.parkedCartTtlMinutes ?? 120));
+    setPhOverrideLimit(String(p?.priceOverrideLimit ?? 10));
+    setPhLoyalty({
+      earnRate: String(p?.loyaltyEarnRate ?? 0),
+      pointValue: String(p?.loyaltyPointValue ?? 1),
+      expiryDays: p ? (p.loyaltyExpiryDays == null ? '' : String(p.loyaltyExpiryDays)) : '365',
+    });
+  };
+
+  useEffect(() => {
+    (async () => {
+      const data = await safeJson<{ item?: PharmacyInfo | null }>(fetch('/api/pharmacy', { cache: 'no-store' }));
+      fillPharmacy(data?.item);
+    })();
+  }, []);
+
+  async function submitPharmacy() {
+    setPhMsg(null);
+    if (!phName.trim()) {
+      setPhMsg({ kind: 'err', text: 'Pharmacy name is required.' });
+      return;
+    }
+    if (phPan.trim() && !/^\d{9}$/.test(phPan.trim())) {
+      setPhMsg({ kind: 'err', text: 'PAN must be 9 digits.' });
+      return;
+    }
+    const parkTtl = Number(phParkTtl);
+    if (!Number.isInteger(parkTtl) || parkTtl < 5 || parkTtl > 7 * 24 * 60) {
+      setPhMsg({ kind: 'err', text: 'Parked carts must expire after 5 minutes to 7 days.' });
+      return;
+    }
+    const overrideLimit = Number(phOverrideLimit);
+    if (!Number.isInteger(overrideLimit) || overrideLimit < 0 || overrideLimit > 100) {
+      setPhMsg({ kind: 'err', text: 'Price override limit must be 0 to 100%.' });
+      return;
+    }
+    const earnRate = Number(phLoyalty.earnRate || 0);
+    const pointValue = Number(phLoyalty.pointValue);
+    const expiryDays = phLoyalty.expiryDays.trim() ? Number(phLoyalty.expiryDays) : null;
+    if (!Number.isFinite(earnRate) || earnRate < 0 || earnRate > 100) {
+      setPhMsg({ kind: 'err', text: 'Points earned per unit spent must be 0 to 100.' });
+      return;
+    }
+    if (!Number.isFinite(pointValue) || pointValue <= 0 || pointValue > 1000) {
+      setPhMsg({ kind: 'err', text: 'Point value must be more than 0.' });
+      return;
+    }
+    if (expiryDays !== null && (!Number.isInteger(expiryDays) || expiryDays < 1 || expiryDays > 3650)) {
+      setPhMsg({ kind: 'err', text: 'Points expiry must be 1 to 3650 days (blank = never).' });
+      return;
+    }
+    setPhBusy(true);
+    try {
+      const data = await safeJson<{ item?: PharmacyInfo }>(
+        fetch('/api/pharmacy', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            name: phName,
+            address: phAddress,
+            pan: phPan,
+            parkedCartTtlMinutes: parkTtl,
+            priceOverrideLimit: overrideLimit,
+            loyaltyEarnRate: earnRate,
+            loyaltyPointValue: pointValue,
+            loyaltyExpiryDays: expiryDays,
+          }),
+        })
+      );
+      if (!data || data.error) {
+        setPhMsg({ kind: 'err', text: data?.error ?? 'Save failed' });
+        return;
+      }
+      fillPharmacy(data.item);
+      setPhMsg({ kind: 'ok', text: 'Pharmacy details saved. They appear on every receipt.' });
+    } finally {
+      setPhBusy(false);
+    }
+  }
+
   /* ---------------- Support state ---------------- */
   const [supportSubject, setSupportSubject] = useState('');
   const [supportMessage, setSupportMessage] = useState('');
@@ -572,6 +682,29 @@ export default function SettingsWindow({
             </div>
           )}
 
+          {section === 'pharmacy' && (
+            <div className="mx-auto w-full max-w-[320px]">
+              <div className="rounded-2xl bg-white/75 border border-slate-200/70 backdrop-blur-xl p-4 space-y-4">
+                <h3 className="text-[15px] font-semibold text-slate-900">Pharmacy</h3>
+                <PharmacyFields
+                  name={phName} setName={setPhName}
+                  address={phAddress} setAddress={setPhAddress}
+                  pan={phPan} setPan={setPhPan}
+                  parkTtl={phParkTtl} setParkTtl={setPhParkTtl}
+                  overrideLimit={phOverrideLimit} setOverrideLimit={setPhOverrideLimit}
+                  loyalty={phLoyalty} setLoyalty={setPhLoyalty}
+                />
+                {phMsg && (
+                  <p className={`text-sm ${phMsg.kind === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{phMsg.text}</p>
+                )}
+                <Button className="h-9 bg-blue-600 hover:bg-blue-700 text-white" onClick={submitPharmacy} disabled={phBusy}>
+                  {phBusy ? 'Saving…' : 'Save'}
+                </Button>
+                <SupervisorPinField />
+              </div>
+            </div>
+          )}
+
           {section === 'support' && (
             <div className="mx-auto w-full max-w-[360px]">
               <div className="rounded-2xl bg-white/75 border border-slate-200/70 backdrop-blur-xl p-4 space-y-4">
@@ -641,9 +774,10 @@ export default function SettingsWindow({
           className="fixed left-0 right-0 bottom-0 border-t border-slate-200/60 bg-white/80 backdrop-blur-xl"
           style={{ paddingBottom: 'calc(env(safe-area-inset-bottom,0) + 8px)' }}
         >
-          <div className="mx-auto max-w-lg grid grid-cols-3 gap-1 px-4 py-2">
+          <div className="mx-auto max-w-lg grid grid-cols-4 gap-1 px-4 py-2">
             <TabButton active={section === 'profile'} onClick={() => setSection('profile')} icon={<User className="h-5 w-5" />} label="Profile" />
             <TabButton active={section === 'createUser'} onClick={() => setSection('createUser')} icon={<UserPlus className="h-5 w-5" />} label="Create" />
+            <TabButton active={section === 'pharmacy'} onClick={() => setSection('pharmacy')} icon={<Store className="h-5 w-5" />} label="Pharmacy" />
             <TabButton active={section === 'support'} onClick={() => setSection('support')} icon={<LifeBuoy className="h-5 w-5" />} label="Support" />
           </div>
         </nav>
@@ -771,6 +905,7 @@ export default function SettingsWindow({
             {[
               { key: 'profile', label: 'Profile', icon: <User className="w-5 h-5" /> },
               { key: 'createUser', label: 'Create User', icon: <UserPlus className="w-5 h-5" /> },
+              { key: 'pharmacy', label: 'Pharmacy', icon: <Store className="w-5 h-5" /> },
               { key: 'support', label: 'Contact & Support', icon: <LifeBuoy className="w-5 h-5" /> },
             ].map((item) => {
               const active = section === (item.key as Section);
@@ -927,6 +1062,34 @@ export default function SettingsWindow({
             </div>
           )}
 
+          {section === 'pharmacy' && (
+            <div className="max-w-xl">
+              <div className="rounded-2xl bg-white/40 border border-white/35 backdrop-blur-2xl p-6 space-y-4">
+                <div>
+                  <h3 className="text-xl font-semibold text-slate-900">Pharmacy</h3>
+                  <p className="text-xs text-slate-600">Printed at the top of every receipt. With a PAN set, receipts print as tax invoices.</p>
+                </div>
+                <PharmacyFields
+                  name={phName} setName={setPhName}
+                  address={phAddress} setAddress={setPhAddress}
+                  pan={phPan} setPan={setPhPan}
+                  parkTtl={phParkTtl} setParkTtl={setPhParkTtl}
+                  overrideLimit={phOverrideLimit} setOverrideLimit={setPhOverrideLimit}
+                  loyalty={phLoyalty} setLoyalty={setPhLoyalty}
+                />
+                {phMsg && (
+                  <p className={`text-sm ${phMsg.kind === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{phMsg.text}</p>
+                )}
+                <div className="flex gap-2 flex-wrap">
+                  <Button className="h-9 bg-blue-600 hover:bg-blue-700 text-white" onClick={submitPharmacy} disabled={phBusy}>
+                    {phBusy ? 'Saving…' : 'Save Changes'}
+                  </Button>
+                </div>
+                <SupervisorPinField />
+              </div>
+            </div>
+          )}
+
           {section === 'support' && (
             <div className="max-w-3xl">
               <div className="rounded-2xl bg-white/40 border border-white/35 backdrop-blur-2xl p-6 space-y-6">
@@ -1029,3 +1192,153 @@ function TabButton({
     </button>
   );
 }
+
+function PharmacyFields({
+  name, setName, address, setAddress, pan, setPan, parkTtl, setParkTtl, overrideLimit, setOverrideLimit, loyalty, setLoyalty,
+}: {
+  name: string; setName: (v: string) => void;
+  address: string; setAddress: (v: string) => void;
+  pan: string; setPan: (v: string) => void;
+  parkTtl: string; setParkTtl: (v: string) => void;
+  overrideLimit: string; setOverrideLimit: (v: string) => void;
+  loyalty: LoyaltyDraft; setLoyalty: (v: LoyaltyDraft) => void;
+}) {
+  const decimal = (v: string) => v.replace(/[^\d.]/g, '').slice(0, 9);
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label className="text-slate-700 text-xs">Pharmacy Name</Label>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. City Pharmacy" className="h-10" />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-slate-700 text-xs">Address</Label>
+        <Input value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Street, City" className="h-10" />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-slate-700 text-xs">PAN / VAT No.</Label>
+        <Input
+          value={pan}
+          onChange={(e) => setPan(e.target.value.replace(/\D/g, '').slice(0, 9))}
+          inputMode="numeric"
+          placeholder="9 digits"
+          className="h-10"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-slate-700 text-xs">Parked carts expire after (minutes)</Label>
+        <Input
+          value={parkTtl}
+          onChange={(e) => setParkTtl(e.target.value.replace(/\D/g, '').slice(0, 5))}
+          inputMode="numeric"
+          placeholder="120"
+          className="h-10"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-slate-700 text-xs">Cashiers may cut prices by up to (%)</Label>
+        <Input
+          value={overrideLimit}
+          onChange={(e) => setOverrideLimit(e.target.value.replace(/\D/g, '').slice(0, 3))}
+          inputMode="numeric"
+          placeholder="10"
+          className="h-10"
+        />
+        <p className="text-[11px] text-slate-500">Deeper cuts, or any price below cost, need a supervisor PIN.</p>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-slate-700 text-xs">Loyalty points earned per 1 spent</Label>
+        <Input
+          value={loyalty.earnRate}
+          onChange={(e) => setLoyalty({ ...loyalty, earnRate: decimal(e.target.value) })}
+          inputMode="decimal"
+          placeholder="0 = off, 0.01 = 1 point per 100"
+          className="h-10"
+        />
+        <p className="text-[11px] text-slate-500">Prescription-only medicines never earn points.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-slate-700 text-xs">One point is worth</Label>
+          <Input
+            value={loyalty.pointValue}
+            onChange={(e) => setLoyalty({ ...loyalty, pointValue: decimal(e.target.value) })}
+            inputMode="decimal"
+            placeholder="1"
+            className="h-10"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-slate-700 text-xs">Points expire after (days)</Label>
+          <Input
+            value={loyalty.expiryDays}
+            onChange={(e) => setLoyalty({ ...loyalty, expiryDays: e.target.value.replace(/\D/g, '').slice(0, 4) })}
+            inputMode="numeric"
+            placeholder="Never"
+            className="h-10"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ----------------------------------------------------------------------------
+   Supervisor PIN (approves price overrides at a cashier's till)
+---------------------------------------------------------------------------- */
+function SupervisorPinField() {
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ kind: 'ok' | 'err'; text: string } | null>(null);
+
+  async function save(value: string | null) {
+    setMsg(null);
+    if (value !== null && !/^\d{6,8}$/.test(value)) {
+      setMsg({ kind: 'err', text: 'PIN must be 6 to 8 digits.' });
+      return;
+    }
+    setBusy(true);
+    try {
+      const data = await safeJson<{ hasPin?: boolean }>(
+        fetch('/api/auth/pin', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ pin: value }),
+        })
+      );
+      if (!data || data.error) {
+        setMsg({ kind: 'err', text: data?.error ?? 'Save failed' });
+        return;
+      }
+      setPin('');
+      setMsg({ kind: 'ok', text: data.hasPin ? 'Supervisor PIN saved.' : 'Supervisor PIN removed.' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-1 border-t border-slate-200/70 pt-3">
+      <Label className="text-slate-700 text-xs">Your supervisor PIN</Label>
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+          inputMode="numeric"
+          autoComplete="new-password"
+          placeholder="6–8 digits"
+          className="h-9"
+        />
+        <Button variant="outline" className="h-9" onClick={() => save(pin)} disabled={busy || !pin}>
+          Set
+        </Button>
+        <Button variant="outline" className="h-9" onClick={() => save(null)} disabled={busy}>
+          Clear
+        </Button>
+      </div>
+      <p className="text-[11px] text-slate-500">Typed at a till to approve a price override. Needs the OVERRIDE_PRICES permission.</p>
+      {msg && <p className={`text-sm ${msg.kind === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{msg.text}</p>}
+    </div>
+  );
+}
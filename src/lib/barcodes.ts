@@ -0,0 +1,103 @@
+// src/lib/barcodes.ts
+import type { Prisma } from '@prisma/client';
+import { sellableBatchWhere } from '@/lib/sales/fefo';
+import { parseGs1 } from '@/lib/scanner/gs1';
+
+type Db = Prisma.TransactionClient;
+
+/** GS1 check digit: weights 3,1,3,… from the right, excluding the check digit itself */
+export function isValidGtin(digits: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(digits)) return false;
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Registry key of a scanned code. EAN-8 / UPC-A / EAN-13 / GTIN-14 with a valid check digit are
+ * the same product number and become GTIN-14 (zero-padded), as does the (01) GTIN of a GS1
+ * DataMatrix; anything else (in-house labels, QR text) is kept as scanned, minus whitespace.
+ */
+export function normalizeBarcode(raw: string): string {
+  const gtin = parseGs1(raw)?.gtin;
+  if (gtin) return gtin;
+  const code = raw.replace(/[\r\n\t]/g, '').trim();
+  return isValidGtin(code) ? code.padStart(14, '0') : code;
+}
+
+export type BarcodeMatch = {
+  id: number;
+  code: string;
+  medicineId: number;
+  medicineName: string;
+  batchNo: string | null; // the batch to sell, when it is this pharmacy's and still sellable
+};
+
+/**
+ * What a scanned code is, or null when it isn't in the user's registry yet. A GS1 code's own batch (10)
+ * wins over the batch linked in the registry, so scanning a pack sells exactly that pack's batch.
+ */
+export async function lookupBarcode(db: Db, userId: number, raw: string): Promise<BarcodeMatch | null> {
+  const code = normalizeBarcode(raw);
+  if (!code) return null;
+  const hit = await db.barcode.findUnique({
+    where: { userId_code: { userId, code } },
+    include: { medicine: { select: { name: true } } },
+  });
+  if (!hit) return null;
+
+  const lot = parseGs1(raw)?.batch ?? null;
+  const batch =
+    lot || hit.batchId
+      ? await db.inventoryBatch.findFirst({
+          where: {
+            ...(lot ? { batchNo: lot, medicineId: hit.medicineId } : { id: hit.batchId ?? undefined }),
+            ...sellableBatchWhere(userId),
+          },
+          select: { batchNo: true },
+        })
+      : null;
+  return { id: hit.id, code: hit.code, medicineId: hit.medicineId, medicineName: hit.medicine.name, batchNo: batch?.batchNo ?? null };
+}
+
+/**
+ * Teach the user's registry a code: link it to a medicine, or to one of the user's batches (which
+ * also fixes the medicine). A code that is already known is re-linked — that is how a wrong mapping
+ * gets corrected. Throws "... not found" for an unknown medicine or batch.
+ */
+export async function learnBarcode(
+  db: Db,
+  userId: number,
+  input: { code: string; medicineId?: number | null; batchNo?: string | null; createdBy: string | null },
+) {
+  const code = normalizeBarcode(input.code);
+  if (!code) throw new Error('Barcode is empty');
+
+  let medicineId = input.medicineId ?? null;
+  let batchId: number | null = null;
+  if (input.batchNo) {
+    const batch = await db.inventoryBatch.findFirst({
+      where: { userId, batchNo: input.batchNo },
+      select: { id: true, medicineId: true },
+    });
+    if (!batch) throw new Error(`Batch ${input.batchNo} not found`);
+    if (medicineId != null && medicineId !== batch.medicineId) {
+      throw new Error(`Batch ${input.batchNo} is not a batch of medicine ${medicineId}`);
+    }
+    medicineId = batch.medicineId;
+    batchId = batch.id;
+  } else if (medicineId == null) {
+    throw new Error('Pick the medicine (or batch) this barcode belongs to');
+  } else if (!(await db.medicine.findUnique({ where: { id: medicineId }, select: { id: true } }))) {
+    throw new Error(`Medicine ${medicineId} not found`);
+  }
+
+  return db.barcode.upsert({
+    where: { userId_code: { userId, code } },
+    create: { userId, code, medicineId, batchId, createdBy: input.createdBy },
+    update: { medicineId, batchId, createdBy: input.createdBy },
+  });
+}
@@ -0,0 +1,226 @@
+// src/lib/offline/pos.ts
+// Offline support for the sell screen: the last stock snapshot and the queue of sales completed
+// while the server was unreachable, both in IndexedDB. Browser only, apart from the types.
+
+import type { SellUnitOption } from '@/lib/sales/units';
+
+/** A sellable batch as cached for offline selling; GET /api/sales/offline returns these in FEFO order */
+export type OfflineBatch = {
+  id: string; // batchNo
+  medicineId: number;
+  name: string;
+  expiryDate: string | null;
+  qty: number; // base units
+  prescriptionOnly: boolean;
+  schedule: 'NARCOTIC' | 'PSYCHOTROPIC' | null;
+  base: string;
+  units: SellUnitOption[];
+};
+
+/** Sell-by-medicine row built from the snapshot, same shape as GET /api/sales/medicines */
+export type OfflineMedicine = {
+  medicineId: number;
+  name: string;
+  qty: number;
+  batches: number;
+  price: number;
+  base: string;
+  units: SellUnitOption[];
+  nextBatchNo: string;
+  nextExpiry: string | null;
+  prescriptionOnly: boolean;
+  schedule: OfflineBatch['schedule'];
+};
+
+/**
+ * A sale completed offline. `body` is the POST /api/sales body including its idempotency key, so
+ * replaying it any number of times records it once, and `offlineAt` (when it was sold), so it is
+ * dated and put in the shift of that time rather than of the sync. The server refusing it (stock sold elsewhere
+ * meanwhile, shift closed, ...) makes it a CONFLICT for the reconciliation list.
+ */
+export type QueuedSale = {
+  key: string;
+  body: Record<string, unknown>;
+  createdAt: string;
+  summary: { lines: Array<{ name: string; qty: number; unit: string }>; total: number };
+  status: 'PENDING' | 'CONFLICT';
+  error: string | null;
+  attempts: number;
+};
+
+export type SyncResult = { synced: number; conflicts: number; pending: number; reachable: boolean };
+
+const DB_NAME = 'pharmacy-pos';
+const SNAPSHOT = 'snapshot';
+const QUEUE = 'queue';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SNAPSHOT)) db.createObjectStore(SNAPSHOT);
+      if (!db.objectStoreNames.contains(QUEUE)) db.createObjectStore(QUEUE, { keyPath: 'key' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = op(db.transaction(store, mode).objectStore(store));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/* ───────────── snapshot ───────────── */
+
+export async function saveSnapshot(items: OfflineBatch[]): Promise<void> {
+  await run(SNAPSHOT, 'readwrite', (s) => s.put({ items, savedAt: new Date().toISOString() }, 'batches'));
+}
+
+export async function loadSnapshot(): Promise<{ items: OfflineBatch[]; savedAt: string } | null> {
+  return (await run<{ items: OfflineBatch[]; savedAt: string } | undefined>(SNAPSHOT, 'readonly', (s) => s.get('batches'))) ?? null;
+}
+
+/** Batches matching a search the way /api/inventory does (name or batch number) */
+export function searchSnapshot(items: OfflineBatch[], q: string): OfflineBatch[] {
+  const needle = q.trim().toLowerCase();
+  return needle
+    ? items.filter((b) => b.name.toLowerCase().includes(needle) || b.id.toLowerCase().includes(needle))
+    : items;
+}
+
+/** Stock per medicine with the FEFO batch's price and expiry (snapshot batches are FEFO ordered) */
+export function medicinesFromSnapshot(items: OfflineBatch[]): OfflineMedicine[] {
+  const byMedicine = new Map<number, OfflineMedicine>();
+  for (const b of items) {
+    if (b.qty <= 0) continue;
+    const row = byMedicine.get(b.medicineId);
+    if (row) {
+      row.qty += b.qty;
+      row.batches += 1;
+      continue;
+    }
+    byMedicine.set(b.medicineId, {
+      medicineId: b.medicineId,
+      name: b.name,
+      qty: b.qty,
+      batches: 1,
+      price: b.units.find((u) => u.unit === 'UNIT')?.price ?? 0,
+      base: b.base,
+      units: b.units,
+      nextBatchNo: b.id,
+      nextExpiry: b.expiryDate,
+      prescriptionOnly: b.prescriptionOnly,
+      schedule: b.schedule,
+    });
+  }
+  return Array.from(byMedicine.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Take a queued sale's units off the snapshot (a batch, or a medicine's batches FEFO) so the next offline sale sees them gone */
+export async function takeFromSnapshot(lines: Array<{ batchNo?: string; medicineId?: number; qty: number }>): Promise<void> {
+  const snap = await loadSnapshot();
+  if (!snap) return;
+  for (const l of lines) {
+    let remaining = l.qty;
+    for (const b of snap.items) {
+      if (remaining <= 0) break;
+      if (l.batchNo != null ? b.id !== l.batchNo : b.medicineId !== l.medicineId) continue;
+      const take = Math.min(b.qty, remaining);
+      b.qty -= take;
+      remaining -= take;
+    }
+  }
+  await run(SNAPSHOT, 'readwrite', (s) => s.put(snap, 'batches'));
+}
+
+/* ───────────── queue ───────────── */
+
+export async function enqueueSale(sale: QueuedSale): Promise<void> {
+  await run(QUEUE, 'readwrite', (s) => s.put(sale));
+}
+
+export async function listQueue(): Promise<QueuedSale[]> {
+  const all = await run<QueuedSale[]>(QUEUE, 'readonly', (s) => s.getAll());
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function updateQueued(sale: QueuedSale): Promise<void> {
+  await run(QUEUE, 'readwrite', (s) => s.put(sale));
+}
+
+export async function removeQueued(key: string): Promise<void> {
+  await run(QUEUE, 'readwrite', (s) => s.delete(key));
+}
+
+/* ───────────── connectivity + replay ───────────── */
+
+/** The server (or its database) can't be reached, as opposed to it refusing the request */
+export function isUnreachable(e: unknown, status?: number, message?: string): boolean {
+  if (e instanceof TypeError) return true; // fetch network failure
+  if (status === 502 || status === 503 || status === 504) return true;
+  return status === 500 && /Can't reach database|Timed out fetching a new connection|ECONNREFUSED/i.test(message ?? '');
+}
+
+/**
+ * Replay PENDING sales oldest first. Accepted ones leave the queue; ones the server refuses
+ * (4xx) become CONFLICTs with its reason. Stops at the first sign the server is still
+ * unreachable, so order is kept. Safe to run concurrently: keys make replays idempotent.
+ */
+export async function syncQueue(): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, pending: 0, reachable: true };
+  for (const sale of await listQueue()) {
+    if (sale.status !== 'PENDING') {
+      result.conflicts += 1;
+      continue;
+    }
+    if (!result.reachable) {
+      result.pending += 1;
+      continue;
+    }
+    let status = 0;
+    let error = '';
+    try {
+      const res = await fetch('/api/sales', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ offlineAt: sale.createdAt, ...sale.body }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (res.ok && data.ok) {
+        await removeQueued(sale.key);
+        result.synced += 1;
+        continue;
+      }
+      status = res.status;
+      error = data.error ?? `HTTP ${res.status}`;
+    } catch (e: unknown) {
+      if (!isUnreachable(e)) throw e;
+      result.reachable = false;
+      result.pending += 1;
+      continue;
+    }
+
+    if (isUnreachable(null, status, error)) {
+      result.reachable = false;
+      result.pending += 1;
+    } else if (status >= 400 && status < 500) {
+      await updateQueued({ ...sale, status: 'CONFLICT', error, attempts: sale.attempts + 1 });
+      result.conflicts += 1;
+    } else {
+      await updateQueued({ ...sale, error, attempts: sale.attempts + 1 }); // server error: try again later
+      result.pending += 1;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,44 @@
+// src/lib/permissions.ts
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getAuthFromReq } from '@/lib/auth';
+
+export type Actor = { kind: 'admin' | 'user'; id: number; email: string; permissions: Set<string> };
+
+/**
+ * Who is calling, with the union of permissions from all of their roles. Only the verified auth
+ * cookie grants permissions. Outside production the x-user-id header (dev/testing, same as the
+ * sales routes) still names a User so sales show who rang them up, but with no permissions: the
+ * header is not authenticated, so nothing it claims may authorize anything.
+ */
+export async function resolveActor(req: NextRequest): Promise<Actor | null> {
+  const claims = await getAuthFromReq(req);
+  if (claims) {
+    const admin = await prisma.admin.findUnique({
+      where: { id: claims.id },
+      include: { roles: { include: { role: { include: { permissions: { select: { name: true } } } } } } },
+    });
+    if (admin) {
+      const permissions = new Set(admin.roles.flatMap((r) => r.role.permissions.map((p) => p.name)));
+      return { kind: 'admin', id: admin.id, email: admin.email, permissions };
+    }
+  }
+
+  const hdr = process.env.NODE_ENV !== 'production' ? req.headers.get('x-user-id') : null;
+  if (hdr && /^\d+$/.test(hdr)) {
+    const user = await prisma.user.findUnique({ where: { id: Number(hdr) }, select: { id: true, email: true } });
+    if (user) return { kind: 'user', id: user.id, email: user.email, permissions: new Set() };
+  }
+
+  return null;
+}
+
+/** Resolve the actor and make sure they hold `permission`. Throws `Unauthorized` / `Forbidden` errors. */
+export async function requirePermission(req: NextRequest, permission: string): Promise<Actor> {
+  const actor = await resolveActor(req);
+  if (!actor) throw new Error('Unauthorized: sign in first.');
+  if (!actor.permissions.has(permission)) {
+    throw new Error(`Forbidden: ${permission} permission required.`);
+  }
+  return actor;
+}
@@ -0,0 +1,97 @@
+// src/lib/receipts/data.ts
+import { prisma } from '@/lib/prisma';
+import { PAYMENT_LABELS } from '@/lib/sales/payments';
+
+export type ReceiptFormat = 'a5' | '80mm';
+
+export type ReceiptLine = {
+  name: string;
+  batchNo: string;
+  expiryDate: string | null; // yyyy-mm-dd
+  qty: number;               // in `unit`s
+  unit: string | null;       // e.g. "strip of 10"; null = single tablets / bottles
+  price: number;             // per unit sold
+  discount: number; // line + share of bill discount
+  lineTotal: number;
+  taxClass: string;
+  taxRate: number;
+  taxAmount: number;
+};
+
+/** Everything a receipt/invoice shows, already resolved to plain values. */
+export type ReceiptData = {
+  pharmacy: { name: string; address: string | null; pan: string | null };
+  saleId: number;
+  createdAt: Date;
+  cashier: string | null; // acting admin/user recorded on the sale
+  customer: { name: string; phone: string | null } | null;
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  taxAmount: number;
+  exemptAmount: number;
+  total: number;
+  payments: Array<{ label: string; amount: number; tendered: number | null; reference: string | null }>;
+  changeDue: number;
+  refunded: number;
+  voided: { at: Date; by: string | null; reason: string | null } | null;
+};
+
+export const isReceiptFormat = (v: unknown): v is ReceiptFormat => v === 'a5' || v === '80mm';
+
+/** Load a sale with its pharmacy header and batch expiries. Throws "Sale X not found". */
+export async function loadReceipt(userId: number, saleId: number): Promise<ReceiptData> {
+  const sale = await prisma.sale.findFirst({
+    where: { id: saleId, userId },
+    include: {
+      lines: { orderBy: { id: 'asc' }, include: { batch: { select: { expiryDate: true } } } },
+      returns: { select: { refund: true } },
+      payments: { orderBy: { id: 'asc' } },
+      customer: { select: { name: true, phone: true } },
+    },
+  });
+  if (!sale) throw new Error(`Sale ${saleId} not found`);
+
+  const pharmacy = await prisma.pharmacy.findFirst({ where: { userId }, orderBy: { id: 'asc' } });
+
+  return {
+    pharmacy: {
+      name: pharmacy?.name ?? 'Pharmacy',
+      address: pharmacy?.address ?? null,
+      pan: pharmacy?.pan ?? null,
+    },
+    saleId: sale.id,
+    createdAt: sale.createdAt,
+    cashier: sale.cashier, // who rang it up; older sales have none and print no cashier line
+    customer: sale.customer ? { name: sale.customer.name, phone: sale.customer.phone } : null,
+    lines: sale.lines.map((l) => ({
+      name: l.name,
+      batchNo: l.batchNo,
+      expiryDate: l.batch?.expiryDate?.toISOString().slice(0, 10) ?? null,
+      qty: l.sellQty,
+      unit: l.sellUnit === 'UNIT' ? null : `${l.sellUnit.toLowerCase()} of ${l.qty / l.sellQty}`,
+      price: Number(l.price),
+      discount: Number(l.discount) + Number(l.billDiscount),
+      lineTotal: Number(l.lineTotal),
+      taxClass: l.taxClass,
+      taxRate: Number(l.taxRate),
+      taxAmount: Number(l.taxAmount),
+    })),
+    subtotal: Number(sale.subtotal),
+    discount: Number(sale.discount),
+    taxableAmount: Number(sale.taxableAmount),
+    taxAmount: Number(sale.taxAmount),
+    exemptAmount: Number(sale.exemptAmount),
+    total: Number(sale.total),
+    payments: sale.payments.map((p) => ({
+      label: p.provider ? `${PAYMENT_LABELS[p.method]} (${p.provider})` : PAYMENT_LABELS[p.method],
+      amount: Number(p.amount),
+      tendered: p.tendered == null ? null : Number(p.tendered),
+      reference: p.reference ?? null,
+    })),
+    changeDue: Number(sale.changeDue),
+    refunded: sale.returns.reduce((a, r) => a + Number(r.refund), 0),
+    voided: sale.voidedAt ? { at: sale.voidedAt, by: sale.voidedBy, reason: sale.voidReason } : null,
+  };
+}
@@ -0,0 +1,72 @@
+// src/lib/receipts/escpos.ts
+import type { ReceiptData } from './data';
+import { receiptMoney } from './html';
+import { receiptTextRows } from './text';
+
+/** Thermal roll width in mm. Font A is 12 dots wide: 384 dots → 32 cols, 576 dots → 48 cols. */
+export type PaperWidth = 58 | 80;
+
+export const PAPER_COLS: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+
+export const isPaperWidth = (v: unknown): v is PaperWidth => v === 58 || v === 80;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/* Raw ESC/POS commands (Epson TM-series; also what most generic 58/80mm printers accept) */
+export const escpos = {
+  init: () => [ESC, 0x40],
+  codePage437: () => [ESC, 0x74, 0x00],
+  align: (a: 'left' | 'center' | 'right') => [ESC, 0x61, a === 'left' ? 0 : a === 'center' ? 1 : 2],
+  bold: (on: boolean) => [ESC, 0x45, on ? 1 : 0],
+  /** GS ! — 0x00 normal, 0x01 double height (keeps the column count) */
+  size: (doubleHeight: boolean) => [GS, 0x21, doubleHeight ? 0x01 : 0x00],
+  feed: (lines: number) => [ESC, 0x64, Math.max(0, Math.min(255, lines))],
+  /** GS V 66 n — feed n dots then partial cut */
+  cut: () => [GS, 0x56, 0x42, 0x03],
+  /** GS ( k — model 2 QR, module size 1–16, error correction M */
+  qr: (data: string, moduleSize = 5) => {
+    const bytes = Array.from(Buffer.from(data, 'latin1'));
+    const len = bytes.length + 3;
+    return [
+      ...[GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00],
+      ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, Math.max(1, Math.min(16, moduleSize))],
+      ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31],
+      ...[GS, 0x28, 0x6b, len & 0xff, (len >> 8) & 0xff, 0x31, 0x50, 0x30, ...bytes],
+      ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30],
+    ];
+  },
+};
+
+/** What the receipt QR encodes: enough to look the invoice up again or verify it by hand. */
+export function receiptQrPayload(r: ReceiptData): string {
+  const parts = [
+    `inv=${r.saleId}`,
+    `date=${r.createdAt.toISOString().slice(0, 10)}`,
+    `total=${receiptMoney(r.total)}`,
+    r.taxAmount > 0 ? `vat=${receiptMoney(r.taxAmount)}` : '',
+    r.pharmacy.pan ? `pan=${r.pharmacy.pan}` : '',
+  ];
+  return parts.filter(Boolean).join(';');
+}
+
+/**
+ * Encode a receipt as raw ESC/POS bytes: same layout as the PDF (text.ts), then a QR code,
+ * a few blank lines and a partial cut.
+ */
+export function encodeReceiptEscPos(r: ReceiptData, width: PaperWidth = 80): Buffer {
+  const out: number[] = [...escpos.init(), ...escpos.codePage437()];
+
+  for (const row of receiptTextRows(r, PAPER_COLS[width])) {
+    out.push(...escpos.align(row.center ? 'center' : 'left'));
+    out.push(...escpos.bold(!!row.bold));
+    out.push(...escpos.size(!!row.big));
+    out.push(...Buffer.from(row.text, 'latin1'), LF);
+  }
+
+  out.push(...escpos.size(false), ...escpos.bold(false), ...escpos.align('center'));
+  out.push(...escpos.qr(receiptQrPayload(r), width === 58 ? 4 : 6), LF);
+  out.push(...escpos.align('left'), ...escpos.feed(4), ...escpos.cut());
+  return Buffer.from(out);
+}
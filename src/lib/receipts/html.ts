@@ -0,0 +1,108 @@
+// src/lib/receipts/html.ts
+import type { ReceiptData, ReceiptFormat } from './data';
+
+export const esc = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const receiptMoney = (n: number) => n.toFixed(2);
+
+/** "Tax Invoice" only when the pharmacy is registered (has a PAN); otherwise a plain receipt. */
+export const receiptTitle = (r: ReceiptData) => (r.pharmacy.pan ? 'TAX INVOICE' : 'RECEIPT');
+
+/** Server-local date/time (the till and the server share a timezone in a single-shop setup) */
+export const receiptWhen = (d: Date) =>
+  d.toLocaleString('en-GB', { year: 'numeric', month: 'short', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const PAGE: Record<ReceiptFormat, { size: string; width: string; font: string }> = {
+  a5: { size: 'A5', width: '128mm', font: '11px' },
+  '80mm': { size: '80mm auto', width: '72mm', font: '11px' },
+};
+
+/**
+ * Self-contained printable document (no app CSS). `autoPrint` opens the print dialog once loaded.
+ * A5 gets a full table; 80mm stacks batch/expiry under each item to fit the roll.
+ */
+export function renderReceiptHtml(r: ReceiptData, format: ReceiptFormat, autoPrint = false): string {
+  const page = PAGE[format];
+  const narrow = format === '80mm';
+
+  const items = r.lines
+    .map((l) => {
+      const meta = `Batch ${esc(l.batchNo)}${l.expiryDate ? ` · Exp ${l.expiryDate}` : ''}${l.unit ? ` · per ${l.unit}` : ''}${
+        l.taxRate > 0 ? ` · VAT ${l.taxRate}%` : ''
+      }`;
+      const disc = l.discount > 0 ? `<div class="muted">Discount −${receiptMoney(l.discount)}</div>` : '';
+      if (narrow) {
+        return `<tr><td colspan="3"><b>${esc(l.name)}</b><div class="muted">${meta}</div>${disc}</td></tr>
+<tr><td>${l.qty} × ${receiptMoney(l.price)}</td><td></td><td class="r">${receiptMoney(l.lineTotal)}</td></tr>`;
+      }
+      return `<tr><td><b>${esc(l.name)}</b>${l.unit ? `<div class="muted">per ${l.unit}</div>` : ''}${disc}</td><td>${esc(l.batchNo)}</td><td>${l.expiryDate ?? '-'}</td>
+<td class="r">${l.qty}</td><td class="r">${receiptMoney(l.price)}</td><td class="r">${
+        l.taxRate > 0 ? `${l.taxRate}%` : 'Exempt'
+      }</td><td class="r">${receiptMoney(l.lineTotal)}</td></tr>`;
+    })
+    .join('\n');
+
+  const head = narrow
+    ? ''
+    : '<tr><th>Item</th><th>Batch</th><th>Expiry</th><th class="r">Qty</th><th class="r">Rate</th><th class="r">VAT</th><th class="r">Amount</th></tr>';
+
+  const totals: Array<[string, number]> = [['Subtotal', r.subtotal]];
+  if (r.discount > 0) totals.push(['Discount', -r.discount]);
+  if (r.taxAmount > 0) {
+    totals.push(['Taxable amount', r.taxableAmount]);
+    totals.push(['VAT 13%', r.taxAmount]);
+  }
+  if (r.exemptAmount > 0) totals.push(['Exempt amount', r.exemptAmount]);
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${receiptTitle(r)} #${r.saleId}</title>
+<style>
+  @page { size: ${page.size}; margin: ${narrow ? '3mm' : '8mm'}; }
+  body { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: ${page.font}; color: #000; margin: 0; }
+  .sheet { width: ${page.width}; margin: 0 auto; padding: 4mm 0; }
+  h1 { font-size: 15px; margin: 0; text-align: center; }
+  .c { text-align: center; } .r { text-align: right; } .muted { color: #444; font-size: 10px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 6px; }
+  th, td { padding: 2px 0; vertical-align: top; } th { text-align: left; border-bottom: 1px solid #000; }
+  td + td, th + th { padding-left: 6px; }
+  .rule { border-top: 1px dashed #000; margin: 6px 0; }
+  .total td { font-weight: bold; font-size: 13px; }
+  .void { border: 2px solid #000; text-align: center; font-weight: bold; padding: 2px; margin: 6px 0; }
+  @media screen { body { background: #eee; } .sheet { background: #fff; padding: 6mm; margin: 12px auto; } }
+</style></head>
+<body><div class="sheet">
+  <h1>${esc(r.pharmacy.name)}</h1>
+  ${r.pharmacy.address ? `<div class="c">${esc(r.pharmacy.address)}</div>` : ''}
+  ${r.pharmacy.pan ? `<div class="c">PAN: ${esc(r.pharmacy.pan)}</div>` : ''}
+  <div class="c" style="margin-top:4px"><b>${receiptTitle(r)}</b></div>
+  <div class="rule"></div>
+  <div>Invoice #: ${r.saleId}</div>
+  <div>Date: ${receiptWhen(r.createdAt)}</div>
+  ${r.cashier ? `<div>Cashier: ${esc(r.cashier)}</div>` : ''}
+  ${r.customer ? `<div>Customer: ${esc(r.customer.name)}${r.customer.phone ? ` (${esc(r.customer.phone)})` : ''}</div>` : ''}
+  ${r.voided ? `<div class="void">VOID${r.voided.reason ? ` — ${esc(r.voided.reason)}` : ''}</div>` : ''}
+  <table>${head}
+${items}
+  </table>
+  <div class="rule"></div>
+  <table>
+${totals.map(([k, v]) => `<tr><td>${k}</td><td class="r">${receiptMoney(v)}</td></tr>`).join('\n')}
+<tr class="total"><td>TOTAL</td><td class="r">${receiptMoney(r.total)}</td></tr>
+${r.payments
+  .map(
+    (p) =>
+      `<tr><td>${esc(p.label)}${p.reference ? ` <span class="muted">Ref ${esc(p.reference)}</span>` : ''}</td><td class="r">${receiptMoney(
+        p.tendered ?? p.amount,
+      )}</td></tr>`,
+  )
+  .join('\n')}
+${r.changeDue > 0 ? `<tr><td>Change</td><td class="r">${receiptMoney(r.changeDue)}</td></tr>` : ''}
+${r.refunded > 0 ? `<tr><td>Refunded</td><td class="r">−${receiptMoney(r.refunded)}</td></tr>` : ''}
+  </table>
+  <div class="rule"></div>
+  <div class="c">Prices include VAT where applicable. Thank you!</div>
+</div>
+${autoPrint ? '<script>window.addEventListener("load",function(){window.print();});</script>' : ''}
+</body></html>`;
+}
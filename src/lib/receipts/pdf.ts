@@ -0,0 +1,80 @@
+// src/lib/receipts/pdf.ts
+import type { ReceiptData, ReceiptFormat } from './data';
+import { receiptTextRows } from './text';
+import type { TextRow } from './text';
+
+/*
+ * Minimal PDF 1.4 writer for text-only receipts. Uses the built-in Courier fonts
+ * (every glyph is 0.6em wide), so the monospace layout from text.ts lines up exactly
+ * and no font embedding or PDF dependency is needed.
+ */
+
+const MM = 72 / 25.4;
+
+const LAYOUT: Record<ReceiptFormat, { width: number; height?: number; margin: number; size: number; cols: number }> = {
+  a5: { width: 148 * MM, height: 210 * MM, margin: 36, size: 9, cols: 64 },
+  '80mm': { width: 80 * MM, margin: 12, size: 8, cols: 42 }, // height grows with the receipt
+};
+
+const pdfText = (s: string) => s.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+function pageContent(rows: TextRow[], l: (typeof LAYOUT)[ReceiptFormat], pageHeight: number): string {
+  const lead = l.size * 1.35;
+  const usable = l.width - 2 * l.margin;
+  let y = pageHeight - l.margin - l.size;
+  const ops: string[] = [];
+  for (const row of rows) {
+    const big = row.big ? l.size + 3 : l.size;
+    const size = row.text.length * 0.6 * big <= usable ? big : l.size;
+    const w = row.text.length * 0.6 * size;
+    const x = row.center ? l.margin + Math.max(0, (usable - w) / 2) : l.margin;
+    if (size > l.size) y -= size - l.size;
+    ops.push(`BT /${row.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${pdfText(row.text)}) Tj ET`);
+    y -= lead;
+  }
+  return ops.join('\n');
+}
+
+/** Render a receipt as a PDF document. A5 paginates; 80mm is one page as long as the receipt. */
+export function renderReceiptPdf(r: ReceiptData, format: ReceiptFormat): Buffer {
+  const l = LAYOUT[format];
+  const rows = receiptTextRows(r, l.cols);
+  const lead = l.size * 1.35;
+  const bigExtra = rows.filter((x) => x.big).length * 3;
+
+  const pages: Array<{ height: number; rows: TextRow[] }> = [];
+  if (l.height) {
+    const perPage = Math.max(1, Math.floor((l.height - 2 * l.margin - bigExtra) / lead));
+    for (let i = 0; i < rows.length; i += perPage) pages.push({ height: l.height, rows: rows.slice(i, i + perPage) });
+  } else {
+    pages.push({ height: rows.length * lead + bigExtra + 2 * l.margin, rows });
+  }
+
+  // objects: 1 catalog, 2 page tree, 3/4 fonts, then a page + content stream pair per page
+  const objects: string[] = [];
+  const kids = pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ');
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>');
+  pages.forEach((p, i) => {
+    const stream = pageContent(p.rows, l, p.height);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${l.width.toFixed(2)} ${p.height.toFixed(2)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let out = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(out, 'latin1'));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out, 'latin1');
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, 'latin1');
+}
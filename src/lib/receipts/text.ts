@@ -0,0 +1,121 @@
+// src/lib/receipts/text.ts
+import type { ReceiptData } from './data';
+import { receiptMoney, receiptTitle, receiptWhen } from './html';
+
+/** One printed row of a fixed-width (monospace) receipt. */
+export type TextRow = { text: string; bold?: boolean; center?: boolean; big?: boolean };
+
+const ascii = (s: string) =>
+  s
+    .replace(/[−–—]/g, '-')
+    .replace(/×/g, 'x')
+    .replace(/·/g, '-')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+/** Word-wrap to `width` columns, hard-breaking words that are longer than a line. */
+export function wrap(s: string, width: number): string[] {
+  const out: string[] = [];
+  let line = '';
+  for (const word of ascii(s).split(/\s+/).filter(Boolean)) {
+    let w = word;
+    while (w.length > width) {
+      if (line) out.push(line);
+      out.push(w.slice(0, width));
+      w = w.slice(width);
+      line = '';
+    }
+    if (!line) line = w;
+    else if (line.length + 1 + w.length <= width) line += ` ${w}`;
+    else {
+      out.push(line);
+      line = w;
+    }
+  }
+  if (line) out.push(line);
+  return out.length ? out : [''];
+}
+
+/** left text and right text on one line, right-aligned to `width` */
+export const lr = (left: string, right: string, width: number) => {
+  const r = ascii(right);
+  const l = ascii(left).slice(0, Math.max(0, width - r.length - 1));
+  return l + ' '.repeat(Math.max(1, width - l.length - r.length)) + r;
+};
+
+const cell = (s: string, w: number, right = false) => {
+  const t = ascii(s).slice(0, w);
+  return right ? t.padStart(w) : t.padEnd(w);
+};
+
+/**
+ * Lay a receipt out in `cols` monospace columns. Wide layouts (≥ 60 cols, A5) get a table;
+ * narrow ones (thermal rolls) stack batch/expiry under each item.
+ */
+export function receiptTextRows(r: ReceiptData, cols: number): TextRow[] {
+  const rows: TextRow[] = [];
+  const rule = (ch = '-') => rows.push({ text: ch.repeat(cols) });
+  const push = (text: string, opts: Omit<TextRow, 'text'> = {}) => rows.push({ text, ...opts });
+
+  for (const t of wrap(r.pharmacy.name, cols)) push(t, { bold: true, center: true, big: true });
+  if (r.pharmacy.address) for (const t of wrap(r.pharmacy.address, cols)) push(t, { center: true });
+  if (r.pharmacy.pan) push(`PAN: ${r.pharmacy.pan}`, { center: true });
+  push(receiptTitle(r), { bold: true, center: true });
+  rule();
+  push(lr(`Invoice #: ${r.saleId}`, receiptWhen(r.createdAt), cols));
+  if (r.cashier) push(`Cashier: ${ascii(r.cashier)}`);
+  if (r.customer) push(`Customer: ${ascii(r.customer.name)}${r.customer.phone ? ` (${r.customer.phone})` : ''}`);
+  if (r.voided) push(`*** VOID${r.voided.reason ? ` - ${r.voided.reason}` : ''} ***`, { bold: true, center: true });
+  rule();
+
+  if (cols >= 60) {
+    const nameW = cols - 44;
+    push(
+      cell('Item', nameW) + cell('Batch', 11) + cell('Expiry', 10) + cell('Qty', 4, true) +
+        cell('Rate', 9, true) + cell('Amount', 10, true),
+      { bold: true },
+    );
+    for (const l of r.lines) {
+      const names = wrap(l.name, nameW - 1);
+      push(
+        cell(names[0], nameW) + cell(l.batchNo, 11) + cell(l.expiryDate ?? '-', 10) + cell(String(l.qty), 4, true) +
+          cell(receiptMoney(l.price), 9, true) + cell(receiptMoney(l.lineTotal), 10, true),
+      );
+      for (const more of names.slice(1)) push(more);
+      const notes = [
+        l.unit ? `per ${l.unit}` : '',
+        l.discount > 0 ? `Discount -${receiptMoney(l.discount)}` : '',
+        l.taxRate > 0 ? `VAT ${l.taxRate}%` : '',
+      ]
+        .filter(Boolean)
+        .join(', ');
+      if (notes) push(`  ${notes}`);
+    }
+  } else {
+    for (const l of r.lines) {
+      for (const t of wrap(l.name, cols)) push(t, { bold: true });
+      push(`  Batch ${l.batchNo}${l.expiryDate ? ` Exp ${l.expiryDate}` : ''}${l.taxRate > 0 ? ` VAT ${l.taxRate}%` : ''}`);
+      if (l.discount > 0) push(`  Discount -${receiptMoney(l.discount)}`);
+      push(lr(`  ${l.qty}${l.unit ? ` ${l.unit}` : ''} x ${receiptMoney(l.price)}`, receiptMoney(l.lineTotal), cols));
+    }
+  }
+
+  rule();
+  push(lr('Subtotal', receiptMoney(r.subtotal), cols));
+  if (r.discount > 0) push(lr('Discount', `-${receiptMoney(r.discount)}`, cols));
+  if (r.taxAmount > 0) {
+    push(lr('Taxable amount', receiptMoney(r.taxableAmount), cols));
+    push(lr('VAT 13%', receiptMoney(r.taxAmount), cols));
+  }
+  if (r.exemptAmount > 0) push(lr('Exempt amount', receiptMoney(r.exemptAmount), cols));
+  push(lr('TOTAL', receiptMoney(r.total), cols), { bold: true });
+  for (const p of r.payments) {
+    push(lr(p.label, receiptMoney(p.tendered ?? p.amount), cols));
+    if (p.reference) push(`  Ref ${p.reference}`);
+  }
+  if (r.changeDue > 0) push(lr('Change', receiptMoney(r.changeDue), cols));
+  if (r.refunded > 0) push(lr('Refunded', `-${receiptMoney(r.refunded)}`, cols));
+  rule();
+  for (const t of wrap('Prices include VAT where applicable.', cols)) push(t, { center: true });
+  push('Thank you!', { center: true });
+  return rows;
+}
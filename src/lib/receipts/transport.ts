@@ -0,0 +1,75 @@
+// src/lib/receipts/transport.ts
+import net from 'node:net';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/** Where raw printer bytes go. `send` resolves once the job is fully handed over. */
+export type PrinterTransport = {
+  describe: string;
+  send: (bytes: Buffer, jobName: string) => Promise<void>;
+};
+
+/**
+ * Raw TCP ("JetDirect", port 9100) — what network thermal printers listen on.
+ * Any TCP listener works, so a local `net.createServer` can stand in for the printer.
+ */
+export function tcpTransport(host: string, port = 9100, timeoutMs = 5000): PrinterTransport {
+  return {
+    describe: `tcp://${host}:${port}`,
+    send: (bytes) =>
+      new Promise<void>((resolve, reject) => {
+        const socket = net.createConnection({ host, port });
+        const fail = (e: Error) => {
+          socket.destroy();
+          reject(new Error(`Printer ${host}:${port} unreachable: ${e.message}`));
+        };
+        socket.setTimeout(timeoutMs, () => fail(new Error('timed out')));
+        socket.once('error', fail);
+        socket.once('connect', () => socket.end(bytes));
+        socket.once('close', (hadError) => {
+          if (!hadError) resolve();
+        });
+      }),
+  };
+}
+
+/** Save each job as `<dir>/<jobName>.bin` (spool folder, `copy /b` to a USB printer, or debugging). */
+export function fileTransport(dir: string): PrinterTransport {
+  return {
+    describe: `file://${dir}`,
+    send: async (bytes, jobName) => {
+      await fs.mkdir(dir, { recursive: true });
+      const safe = jobName.replace(/[^\w.-]/g, '_');
+      await fs.writeFile(path.join(dir, `${safe}.bin`), bytes);
+    },
+  };
+}
+
+/**
+ * Parse a printer target: `tcp://host[:port]` or `file:///abs/dir` (also a bare path).
+ * Throws "Invalid printer target" for anything else.
+ */
+export function transportFromUrl(target: string): PrinterTransport {
+  const t = target.trim();
+  if (/^tcp:\/\//i.test(t)) {
+    const u = new URL(t);
+    const port = u.port ? Number(u.port) : 9100;
+    if (!u.hostname || !Number.isInteger(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid printer target: ${target}`);
+    }
+    return tcpTransport(u.hostname, port);
+  }
+  if (/^file:\/\//i.test(t)) return fileTransport(decodeURIComponent(new URL(t).pathname));
+  if (t.startsWith('/') || /^[A-Za-z]:[\\/]/.test(t)) return fileTransport(t);
+  throw new Error(`Invalid printer target: ${target}`);
+}
+
+/**
+ * The shop's receipt printer, from RECEIPT_PRINTER (server-side only, so the API
+ * can't be pointed at arbitrary hosts or paths). Throws if it isn't set.
+ */
+export function configuredTransport(): PrinterTransport {
+  const target = process.env.RECEIPT_PRINTER;
+  if (!target) throw new Error('Receipt printer not configured. Set RECEIPT_PRINTER=tcp://host:9100 or a folder path.');
+  return transportFromUrl(target);
+}
@@ -0,0 +1,117 @@
+// src/lib/receipts/zreport.ts
+import type { ZReport } from '@/types/reports';
+import { esc, receiptMoney, receiptWhen } from './html';
+
+const row = (label: string, value: string, strong = false) =>
+  `<tr${strong ? ' class="total"' : ''}><td>${label}</td><td class="r">${value}</td></tr>`;
+
+/** Printable Z-report (80mm roll, also fine on A4). `autoPrint` opens the print dialog once loaded. */
+export function renderZReportHtml(r: ZReport, pharmacyName: string, autoPrint = false): string {
+  const c = r.cash;
+  const signed = (n: number) => (n < 0 ? `−${receiptMoney(-n)}` : receiptMoney(n));
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Z-report shift #${r.shiftId}</title>
+<style>
+  @page { size: 80mm auto; margin: 3mm; }
+  body { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 11px; color: #000; margin: 0; }
+  .sheet { width: 72mm; margin: 0 auto; padding: 4mm 0; }
+  h1 { font-size: 15px; margin: 0; text-align: center; } h2 { font-size: 12px; margin: 8px 0 2px; }
+  .c { text-align: center; } .r { text-align: right; } .muted { color: #444; font-size: 10px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 1px 0; vertical-align: top; } td + td { padding-left: 6px; }
+  .rule { border-top: 1px dashed #000; margin: 6px 0; }
+  .total td { font-weight: bold; }
+  @media screen { body { background: #eee; } .sheet { background: #fff; padding: 6mm; margin: 12px auto; } }
+</style></head>
+<body><div class="sheet">
+  <h1>${esc(pharmacyName)}</h1>
+  <div class="c"><b>Z-REPORT</b> · Shift #${r.shiftId}${r.closedAt ? '' : ' (OPEN)'}</div>
+  <div class="rule"></div>
+  <div>Cashier: ${esc(r.cashier ?? '-')}</div>
+  <div>Opened: ${receiptWhen(new Date(r.openedAt))}${r.openedBy ? ` by ${esc(r.openedBy)}` : ''}</div>
+  ${r.closedAt ? `<div>Closed: ${receiptWhen(new Date(r.closedAt))}${r.closedBy ? ` by ${esc(r.closedBy)}` : ''}</div>` : ''}
+
+  <h2>Sales</h2>
+  <table>
+${row('Sales', String(r.sales.count))}
+${row('Gross', receiptMoney(r.sales.gross))}
+${row('Line discounts', `−${receiptMoney(r.discounts.line)}`)}
+${row('Bill discounts', `−${receiptMoney(r.discounts.bill)}`)}
+${row('Net sales', receiptMoney(r.sales.total), true)}
+${row('of which VAT', receiptMoney(r.sales.tax))}
+${r.payments.map((p) => row(`${esc(p.label)} (${p.count})`, receiptMoney(p.amount))).join('\n')}
+  </table>
+
+  <h2>Returns &amp; voids</h2>
+  <table>
+${row(`Returns (${r.returns.count})`, `−${receiptMoney(r.returns.refund)}`)}
+${row(`Voids (${r.voids.count})`, `−${receiptMoney(r.voids.total)}`)}
+${r.repayments.cash + r.repayments.other > 0 ? row('Credit repayments', receiptMoney(r.repayments.cash + r.repayments.other)) : ''}
+  </table>
+
+  ${
+    r.byCashier.length > 1
+      ? `<h2>By cashier</h2>
+  <table>
+${r.byCashier
+  .map((k) =>
+    [
+      row(`<b>${esc(k.cashier)}</b>`, ''),
+      row(`Sales (${k.sales.count})`, receiptMoney(k.sales.total)),
+      k.sales.discounts ? row('Discounts', `−${receiptMoney(k.sales.discounts)}`) : '',
+      row('Cash taken', receiptMoney(k.sales.cash)),
+      k.returns.count ? row(`Returns (${k.returns.count})`, `−${receiptMoney(k.returns.refund)}`) : '',
+      k.voids.count ? row(`Voids (${k.voids.count})`, `−${receiptMoney(k.voids.total)}`) : '',
+    ].join('\n'),
+  )
+  .join('\n')}
+  </table>`
+      : ''
+  }
+
+  ${
+    r.movements.length
+      ? `<h2>Cash in / out</h2>
+  <table>
+${r.movements
+  .map((m) => row(`${m.kind === 'CASH_IN' ? 'In' : 'Out'}: ${esc(m.reason)}`, `${m.kind === 'CASH_IN' ? '' : '−'}${receiptMoney(m.amount)}`))
+  .join('\n')}
+  </table>`
+      : ''
+  }
+
+  <h2>Cash drawer</h2>
+  <table>
+${row('Opening float', receiptMoney(c.openingFloat))}
+${row('Cash sales', receiptMoney(c.sales))}
+${c.repayments ? row('Cash repayments', receiptMoney(c.repayments)) : ''}
+${c.cashIn ? row('Cash in', receiptMoney(c.cashIn)) : ''}
+${c.cashOut ? row('Cash out', `−${receiptMoney(c.cashOut)}`) : ''}
+${c.refunds ? row('Cash refunds', `−${receiptMoney(c.refunds)}`) : ''}
+${c.voids ? row('Voided cash sales', `−${receiptMoney(c.voids)}`) : ''}
+${row('Expected cash', receiptMoney(c.expected), true)}
+${c.counted != null ? row('Counted cash', receiptMoney(c.counted), true) : ''}
+${c.variance != null ? row(c.variance < 0 ? 'Short' : c.variance > 0 ? 'Over' : 'Variance', signed(c.variance), true) : ''}
+  </table>
+  ${r.note ? `<div class="muted">Note: ${esc(r.note)}</div>` : ''}
+
+  <h2>Sales list</h2>
+  <table>
+${r.sales.list
+  .map((s) =>
+    row(
+      `#${s.id} ${new Date(s.at).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })} <span class="muted">${esc(
+        s.methods.join('+'),
+      )}${s.voided ? ' VOID' : ''}${r.byCashier.length > 1 && s.cashier ? ` ${esc(s.cashier)}` : ''}</span>`,
+      receiptMoney(s.total),
+    ),
+  )
+  .join('\n')}
+  </table>
+  <div class="rule"></div>
+  <div class="c muted">Printed ${receiptWhen(new Date())}</div>
+</div>
+${autoPrint ? '<script>window.addEventListener("load",function(){window.print();});</script>' : ''}
+</body></html>`;
+}
@@ -0,0 +1,188 @@
+// src/lib/sales/credit.ts
+import { Prisma } from '@prisma/client';
+import type { AgingBuckets } from '@/types/reports';
+import { money2 } from './discounts';
+import { lockCustomer } from './locks';
+import type { RefundPart } from './payments';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+type Db = Prisma.TransactionClient;
+
+export type CreditInvoice = {
+  saleId: number;
+  createdAt: Date;
+  credit: number;      // put on credit at checkout, less what returns took off it
+  outstanding: number; // what is still owed after repayments (oldest sale paid first)
+  ageDays: number;
+};
+
+export type Receivable = {
+  customerId: number;
+  credit: number;
+  repaid: number;
+  balance: number;
+  buckets: AgingBuckets;
+  invoices: CreditInvoice[]; // open ones only, oldest first
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Age one customer's credit: repayments settle the oldest credit sales first, whatever
+ * is left on each sale falls in a bucket by its age. Overpayment is ignored (balance ≥ 0).
+ */
+export function ageReceivable(
+  customerId: number,
+  credits: Array<{ saleId: number; createdAt: Date; credit: Decimal }>,
+  repaid: Decimal,
+  now = new Date(),
+): Receivable {
+  const sorted = [...credits].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.saleId - b.saleId);
+  const buckets: AgingBuckets = { d0_30: 0, d31_60: 0, d60plus: 0 };
+  const invoices: CreditInvoice[] = [];
+  let unapplied = repaid;
+  let credit = new D(0);
+  let balance = new D(0);
+
+  for (const c of sorted) {
+    credit = credit.add(c.credit);
+    const applied = D.min(unapplied, c.credit);
+    unapplied = unapplied.sub(applied);
+    const left = c.credit.sub(applied);
+    if (left.lte(0)) continue;
+
+    balance = balance.add(left);
+    const ageDays = Math.max(0, Math.floor((now.getTime() - c.createdAt.getTime()) / DAY));
+    const key: keyof AgingBuckets = ageDays <= 30 ? 'd0_30' : ageDays <= 60 ? 'd31_60' : 'd60plus';
+    buckets[key] = Number(money2(new D(buckets[key]).add(left)));
+    invoices.push({
+      saleId: c.saleId,
+      createdAt: c.createdAt,
+      credit: Number(c.credit),
+      outstanding: Number(left),
+      ageDays,
+    });
+  }
+
+  return {
+    customerId,
+    credit: Number(credit),
+    repaid: Number(repaid),
+    balance: Number(balance),
+    buckets,
+    invoices,
+  };
+}
+
+/**
+ * Receivables for the given customers (or all of the user's customers with credit history).
+ * Credit = CREDIT tender on non-voided sales, less the CREDIT part of returns on that sale.
+ */
+export async function loadReceivables(
+  db: Db,
+  userId: number,
+  customerIds?: number[],
+  now = new Date(),
+): Promise<Receivable[]> {
+  const customerFilter = customerIds ? { in: customerIds } : { not: null };
+
+  const [sales, repayments] = await Promise.all([
+    db.sale.findMany({
+      where: { userId, voidedAt: null, customerId: customerFilter, payments: { some: { method: 'CREDIT' } } },
+      select: {
+        id: true,
+        createdAt: true,
+        total: true,
+        customerId: true,
+        payments: { where: { method: 'CREDIT' }, select: { amount: true } },
+        returns: { select: { payments: { where: { method: 'CREDIT' }, select: { amount: true } } } },
+      },
+    }),
+    db.creditRepayment.groupBy({
+      by: ['customerId'],
+      where: { userId, customerId: customerIds ? { in: customerIds } : undefined },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const credits = new Map<number, Array<{ saleId: number; createdAt: Date; credit: Decimal }>>();
+  for (const s of sales) {
+    if (s.customerId == null) continue;
+    const onCredit = s.payments.reduce((a, p) => a.add(p.amount), new D(0));
+    const takenOff = s.returns.flatMap((r) => r.payments).reduce((a, p) => a.add(p.amount), new D(0));
+    const credit = money2(D.max(0, onCredit.sub(takenOff)));
+    const list = credits.get(s.customerId) ?? [];
+    list.push({ saleId: s.id, createdAt: s.createdAt, credit });
+    credits.set(s.customerId, list);
+  }
+
+  const repaid = new Map<number, Decimal>(repayments.map((r) => [r.customerId, r._sum.amount ?? new D(0)]));
+  const ids = customerIds ?? [...new Set([...credits.keys(), ...repaid.keys()])];
+  return ids.map((id) => ageReceivable(id, credits.get(id) ?? [], repaid.get(id) ?? new D(0), now));
+}
+
+/** Outstanding balance of one customer */
+export async function customerBalance(db: Db, userId: number, customerId: number): Promise<Decimal> {
+  const [r] = await loadReceivables(db, userId, [customerId]);
+  return new D(r.balance);
+}
+
+/**
+ * Checkout guard for credit tender: the sale needs a customer, and their balance plus this
+ * sale's credit may not go over their limit (no limit set = unlimited). The customer row is
+ * locked first, so parallel credit sales to them are checked one after the other.
+ * Throws "Payment: ..." (bad request) or "Credit limit exceeded ..." (conflict).
+ */
+export async function assertCreditAllowed(
+  db: Db,
+  userId: number,
+  customerId: number | null,
+  newCredit: Decimal,
+): Promise<void> {
+  if (newCredit.lte(0)) return;
+  if (customerId === null) throw new Error('Payment: credit sales need a customer attached');
+
+  await lockCustomer(db, customerId);
+  const customer = await db.customer.findFirst({
+    where: { id: customerId, userId },
+    select: { name: true, creditLimit: true },
+  });
+  if (!customer) throw new Error(`Customer ${customerId} not found`);
+  if (customer.creditLimit == null) return;
+
+  const balance = await customerBalance(db, userId, customerId);
+  if (balance.add(newCredit).gt(customer.creditLimit)) {
+    throw new Error(
+      `Credit limit exceeded for ${customer.name}: owes ${balance.toFixed(2)}, this sale adds ` +
+        `${newCredit.toFixed(2)}, limit ${customer.creditLimit.toFixed(2)}`,
+    );
+  }
+}
+
+/**
+ * The credit part of a return can only come off what the customer still owes: once they have
+ * repaid, the rest of it is handed back in cash. The customer row is locked first.
+ */
+export async function capCreditRefund(
+  db: Db,
+  userId: number,
+  customerId: number | null,
+  parts: RefundPart[],
+): Promise<RefundPart[]> {
+  const credit = parts.find((p) => p.method === 'CREDIT');
+  if (!credit || customerId === null) return parts;
+
+  await lockCustomer(db, customerId);
+  const owed = D.max(0, await customerBalance(db, userId, customerId));
+  if (credit.amount.lte(owed)) return parts;
+
+  const excess = credit.amount.sub(owed);
+  const cash = parts.find((p) => p.method === 'CASH');
+  const out = parts
+    .map((p) =>
+      p.method === 'CREDIT' ? { ...p, amount: owed } : p.method === 'CASH' ? { ...p, amount: p.amount.add(excess) } : p,
+    )
+    .filter((p) => p.amount.gt(0));
+  return cash ? out : [{ method: 'CASH', amount: excess }, ...out];
+}
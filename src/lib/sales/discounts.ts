@@ -0,0 +1,123 @@
+// src/lib/sales/discounts.ts
+import { Prisma } from '@prisma/client';
+import type { Promotion } from '@prisma/client';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+
+export type DiscountInput = { type: 'PERCENT' | 'FIXED'; value: number };
+
+/** What a line ends up with: the single best discount (no stacking) and the rule behind it. */
+export type LineDiscount = { amount: Decimal; rule: string | null; promotionId: number | null };
+
+/** Facts about the batch being sold that promotions can match on. */
+export type LineFacts = {
+  medicineId: number;
+  manufacturer: string | null;
+  expiryDate: Date | null;
+};
+
+export const money2 = (d: Decimal) => d.toDecimalPlaces(2, D.ROUND_HALF_UP);
+
+const fmt = (d: DiscountInput) => (d.type === 'PERCENT' ? `${d.value}%` : `Rs ${d.value.toFixed(2)}`);
+
+/** null when valid, otherwise a message */
+export function validateDiscount(d: unknown): string | null {
+  if (d == null) return null;
+  const x = d as Partial<DiscountInput>;
+  if ((x.type !== 'PERCENT' && x.type !== 'FIXED') || typeof x.value !== 'number' || !Number.isFinite(x.value)) {
+    return 'Discount must be { type: PERCENT | FIXED, value }';
+  }
+  if (x.value < 0) return 'Discount cannot be negative';
+  if (x.type === 'PERCENT' && x.value > 100) return 'Percentage discount cannot exceed 100';
+  return null;
+}
+
+/** Manual line discount: PERCENT of the line, FIXED = amount off the whole line. Capped at the line. */
+function manualAmount(gross: Decimal, d: DiscountInput): Decimal {
+  const raw = d.type === 'PERCENT' ? gross.mul(d.value).div(100) : new D(d.value);
+  return money2(D.min(raw, gross));
+}
+
+/** Is the promotion live and does it match this line? */
+export function promotionApplies(p: Promotion, facts: LineFacts, now: Date): boolean {
+  if (!p.isActive) return false;
+  if (p.startsAt && p.startsAt > now) return false;
+  if (p.endsAt && p.endsAt < now) return false;
+
+  switch (p.scope) {
+    case 'ALL':
+      return true;
+    case 'MEDICINE':
+      return p.medicineId != null && p.medicineId === facts.medicineId;
+    case 'MANUFACTURER':
+      return (
+        !!p.manufacturer &&
+        !!facts.manufacturer &&
+        p.manufacturer.trim().toLowerCase() === facts.manufacturer.trim().toLowerCase()
+      );
+    case 'EXPIRING': {
+      if (!facts.expiryDate || p.expiringWithinDays == null) return false;
+      const days = (facts.expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
+      return days >= 0 && days <= p.expiringWithinDays;
+    }
+    default:
+      return false;
+  }
+}
+
+/** Promotion discount: PERCENT of the line, FIXED = amount off per unit. Capped at the line. */
+function promotionAmount(p: Promotion, gross: Decimal, qty: number): Decimal {
+  const raw = p.discountType === 'PERCENT' ? gross.mul(p.value).div(100) : p.value.mul(qty);
+  return money2(D.min(raw, gross));
+}
+
+/**
+ * Pick the best discount for one line among the cashier's manual discount and every
+ * matching promotion. Ties keep the manual discount so the cashier's intent is recorded.
+ */
+export function bestLineDiscount(
+  gross: Decimal,
+  qty: number,
+  facts: LineFacts,
+  manual: DiscountInput | null | undefined,
+  promotions: Promotion[],
+  now: Date,
+): LineDiscount {
+  let best: LineDiscount = { amount: new D(0), rule: null, promotionId: null };
+
+  if (manual && manual.value > 0) {
+    best = { amount: manualAmount(gross, manual), rule: `Line discount ${fmt(manual)}`, promotionId: null };
+  }
+  for (const p of promotions) {
+    if (!promotionApplies(p, facts, now)) continue;
+    const amount = promotionAmount(p, gross, qty);
+    if (amount.gt(best.amount)) best = { amount, rule: `Promotion: ${p.name}`, promotionId: p.id };
+  }
+  return best;
+}
+
+/**
+ * Spread a bill-level discount over the lines in proportion to their net amount.
+ * The last line takes the rounding remainder so the shares always add up.
+ */
+export function allocateBillDiscount(
+  nets: Decimal[],
+  bill: DiscountInput | null | undefined,
+): { shares: Decimal[]; rule: string | null } {
+  const zero = nets.map(() => new D(0));
+  if (!bill || bill.value <= 0) return { shares: zero, rule: null };
+
+  const base = nets.reduce((a, n) => a.add(n), new D(0));
+  if (base.lte(0)) return { shares: zero, rule: null };
+
+  const total = manualAmount(base, bill);
+  const shares: Decimal[] = [];
+  let given = new D(0);
+  nets.forEach((n, i) => {
+    const share = i === nets.length - 1 ? total.sub(given) : money2(total.mul(n).div(base));
+    shares.push(share);
+    given = given.add(share);
+  });
+  return { shares, rule: `Bill discount ${fmt(bill)}` };
+}
@@ -0,0 +1,67 @@
+// src/lib/sales/fefo.ts
+import { Prisma } from '@prisma/client';
+
+type Db = Prisma.TransactionClient;
+
+export const BATCH_WITH_MEDICINE = { medicine: { include: { facts: true } } } satisfies Prisma.InventoryBatchInclude;
+export type BatchWithMedicine = Prisma.InventoryBatchGetPayload<{ include: typeof BATCH_WITH_MEDICINE }>;
+
+/** Start of the (UTC) day: a batch expiring today can still be sold today. */
+const startOfDay = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+/** Batches that may be sold: ACTIVE, in stock and not past their expiry date */
+export const sellableBatchWhere = (userId: number, now = new Date()): Prisma.InventoryBatchWhereInput => ({
+  userId,
+  status: 'ACTIVE',
+  qtyAvailable: { gt: 0 },
+  OR: [{ expiryDate: null }, { expiryDate: { gte: startOfDay(now) } }],
+});
+
+/** Pick order: soonest expiry first, batches without an expiry last, then oldest stock */
+export const FEFO_ORDER: Prisma.InventoryBatchOrderByWithRelationInput[] = [
+  { expiryDate: { sort: 'asc', nulls: 'last' } },
+  { createdAt: 'asc' },
+  { id: 'asc' },
+];
+
+/**
+ * First-expiry-first-out: split `qty` of a medicine across its sellable batches, soonest expiry
+ * first (batches without an expiry last, then oldest stock). Skips EXPIRED/DEPLETED batches and
+ * anything past its expiry date. `claimed` is stock already taken by other lines of the same cart.
+ * Throws "Insufficient stock ..." when the unexpired stock doesn't cover `qty`.
+ */
+export async function pickBatchesFefo(
+  db: Db,
+  userId: number,
+  medicineId: number,
+  qty: number,
+  claimed: Map<number, number>,
+  now = new Date(),
+): Promise<Array<{ batch: BatchWithMedicine; qty: number }>> {
+  const batches = await db.inventoryBatch.findMany({
+    where: { ...sellableBatchWhere(userId, now), medicineId },
+    orderBy: FEFO_ORDER,
+    include: BATCH_WITH_MEDICINE,
+  });
+
+  const picks: Array<{ batch: BatchWithMedicine; qty: number }> = [];
+  let remaining = qty;
+  for (const b of batches) {
+    if (remaining <= 0) break;
+    const free = b.qtyAvailable - (claimed.get(b.id) ?? 0);
+    const take = Math.min(free, remaining);
+    if (take <= 0) continue;
+    picks.push({ batch: b, qty: take });
+    claimed.set(b.id, (claimed.get(b.id) ?? 0) + take);
+    remaining -= take;
+  }
+
+  if (remaining > 0) {
+    const name =
+      batches[0]?.medicine?.name ??
+      (await db.medicine.findUnique({ where: { id: medicineId }, select: { name: true } }))?.name;
+    if (!name) throw new Error(`Medicine ${medicineId} not found`);
+    throw new Error(`Insufficient stock for ${name}. Unexpired available: ${qty - remaining}`);
+  }
+  return picks;
+}
@@ -0,0 +1,25 @@
+// src/lib/sales/locks.ts
+import type { Prisma } from '@prisma/client';
+
+type Db = Prisma.TransactionClient;
+
+/*
+ * Row locks for read-check-write steps inside a transaction (Postgres runs them read committed):
+ * the second of two concurrent callers waits here until the first commits, then reads its writes.
+ */
+
+/** Lock a sale, e.g. before checking what is still returnable on it */
+export async function lockSale(db: Db, saleId: number): Promise<void> {
+  await db.$queryRaw`SELECT "id" FROM "public"."Sale" WHERE "id" = ${saleId} FOR UPDATE`;
+}
+
+/** Lock a customer, e.g. before checking their credit balance or loyalty points against a sale */
+export async function lockCustomer(db: Db, customerId: number): Promise<void> {
+  await db.$queryRaw`SELECT "id" FROM "public"."Customer" WHERE "id" = ${customerId} FOR UPDATE`;
+}
+
+/** Lock one medicine's controlled-substance register for a user, before reading its last balance */
+export async function lockRegister(db: Db, userId: number, medicineId: number): Promise<void> {
+  // no register row to lock before the first entry: a transaction-scoped advisory lock instead
+  await db.$executeRaw`SELECT pg_advisory_xact_lock(${userId}::int, ${medicineId}::int)`;
+}
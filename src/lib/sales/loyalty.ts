@@ -0,0 +1,214 @@
+// src/lib/sales/loyalty.ts
+import { Prisma } from '@prisma/client';
+import { lockCustomer } from './locks';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+type Db = Prisma.TransactionClient;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_POINTS_EXPIRY_DAYS = 365;
+
+export type LoyaltySettings = {
+  earnRate: Decimal;         // points per currency unit spent; 0 = nothing is earned
+  pointValue: Decimal;       // currency one point pays for
+  expiryDays: number | null; // null = points never lapse
+};
+
+/** The loyalty programme from the pharmacy settings (off until an earn rate is saved) */
+export async function loyaltySettings(db: Db, userId: number): Promise<LoyaltySettings> {
+  const p = await db.pharmacy.findFirst({
+    where: { userId },
+    orderBy: { id: 'asc' },
+    select: { loyaltyEarnRate: true, loyaltyPointValue: true, loyaltyExpiryDays: true },
+  });
+  return {
+    earnRate: p?.loyaltyEarnRate ?? new D(0),
+    pointValue: p?.loyaltyPointValue ?? new D(1),
+    expiryDays: p ? p.loyaltyExpiryDays : DEFAULT_POINTS_EXPIRY_DAYS,
+  };
+}
+
+const expiryFrom = (s: LoyaltySettings, now: Date) => (s.expiryDays == null ? null : new Date(now.getTime() + s.expiryDays * DAY));
+
+/** Medicines among `medicineIds` whose sales earn points: prescription-only and scheduled ones don't */
+export async function medicinesEarningPoints(db: Db, medicineIds: number[]): Promise<Set<number>> {
+  const rows = await db.medicine.findMany({
+    where: { id: { in: Array.from(new Set(medicineIds)) }, prescriptionOnly: false, schedule: null },
+    select: { id: true },
+  });
+  return new Set(rows.map((m) => m.id));
+}
+
+/**
+ * Lapsed points not yet written off. Points are spent oldest first, so whatever has been
+ * debited (redeemed, reversed, expired) eats the lapsed credits before the live ones.
+ */
+export function lapsedPoints(entries: Array<{ points: number; expiresAt: Date | null }>, now = new Date()): number {
+  const lapsed = entries.reduce((a, e) => (e.points > 0 && e.expiresAt && e.expiresAt <= now ? a + e.points : a), 0);
+  const debited = entries.reduce((a, e) => (e.points < 0 ? a - e.points : a), 0);
+  return Math.max(0, lapsed - debited);
+}
+
+/** Spendable points of the given customers (lapsed points left out, nothing written) */
+export async function loadPointBalances(
+  db: Db,
+  userId: number,
+  customerIds: number[],
+  now = new Date(),
+): Promise<Map<number, number>> {
+  const entries = await db.loyaltyEntry.findMany({
+    where: { userId, customerId: { in: customerIds } },
+    select: { customerId: true, points: true, expiresAt: true },
+  });
+  return new Map(
+    customerIds.map((id) => {
+      const own = entries.filter((e) => e.customerId === id);
+      return [id, own.reduce((a, e) => a + e.points, 0) - lapsedPoints(own, now)];
+    }),
+  );
+}
+
+/** Write off one customer's lapsed points (an EXPIRED entry) and return what they can spend */
+export async function expirePoints(db: Db, userId: number, customerId: number, now = new Date()): Promise<number> {
+  const entries = await db.loyaltyEntry.findMany({
+    where: { userId, customerId },
+    select: { points: true, expiresAt: true },
+  });
+  const lapsed = lapsedPoints(entries, now);
+  if (lapsed > 0) {
+    await db.loyaltyEntry.create({ data: { userId, customerId, kind: 'EXPIRED', points: -lapsed, createdAt: now } });
+  }
+  return entries.reduce((a, e) => a + e.points, 0) - lapsed;
+}
+
+type SaleForPoints = {
+  id: number;
+  customerId: number | null;
+  total: Decimal;
+  lines: Array<{ lineTotal: Decimal; earnsPoints: boolean }>;
+  payments: Array<{ method: string; amount: Decimal }>;
+};
+
+const pointsTender = (sale: SaleForPoints) =>
+  sale.payments.filter((p) => p.method === 'POINTS').reduce((a, p) => a.add(p.amount), new D(0));
+
+/**
+ * Loyalty side of a checkout, after the sale is written: POINTS tender is taken off the
+ * customer's balance (whole points, rounded up), and the customer earns `earnRate` points per
+ * currency unit of the point-earning lines, on the part of the bill not paid with points. The
+ * customer is locked first, so two tills can't both spend the same balance. Throws "Payment: ..." (bad request) or "Not enough loyalty points ..." (conflict).
+ */
+export async function recordSalePoints(
+  db: Db,
+  userId: number,
+  sale: SaleForPoints,
+  createdBy: string | null,
+  now = new Date(),
+): Promise<{ earned: number; redeemed: number }> {
+  const redeemAmount = pointsTender(sale);
+  if (sale.customerId === null) {
+    if (redeemAmount.gt(0)) throw new Error('Payment: points need a customer attached');
+    return { earned: 0, redeemed: 0 };
+  }
+  const customerId = sale.customerId;
+  await lockCustomer(db, customerId);
+  const settings = await loyaltySettings(db, userId);
+
+  let redeemed = 0;
+  if (redeemAmount.gt(0)) {
+    if (settings.pointValue.lte(0)) throw new Error('Payment: points cannot be redeemed (point value is 0)');
+    redeemed = redeemAmount.div(settings.pointValue).ceil().toNumber();
+    const balance = await expirePoints(db, userId, customerId, now);
+    if (balance < redeemed) {
+      throw new Error(`Not enough loyalty points: the customer has ${balance}, this payment needs ${redeemed}`);
+    }
+    await db.loyaltyEntry.create({
+      data: { userId, customerId, kind: 'REDEEMED', points: -redeemed, saleId: sale.id, createdBy, createdAt: now },
+    });
+  }
+
+  const eligible = sale.lines.reduce((a, l) => (l.earnsPoints ? a.add(l.lineTotal) : a), new D(0));
+  const paidShare = sale.total.gt(0) ? sale.total.sub(redeemAmount).div(sale.total) : new D(0);
+  const earned = settings.earnRate.gt(0) ? eligible.mul(paidShare).mul(settings.earnRate).floor().toNumber() : 0;
+  if (earned > 0) {
+    await db.loyaltyEntry.create({
+      data: {
+        userId,
+        customerId,
+        kind: 'EARNED',
+        points: earned,
+        expiresAt: expiryFrom(settings, now),
+        saleId: sale.id,
+        createdBy,
+        createdAt: now,
+      },
+    });
+  }
+  return { earned, redeemed };
+}
+
+/**
+ * Loyalty side of a return or void, after it is written. Earned points are taken back in the
+ * proportion of the point-earning lines returned so far (all of them once voided), but never
+ * below a zero balance; redeemed points are given back, as fresh points, in the proportion of the
+ * POINTS tender that returns so far sent back (see splitRefund). Running totals keep repeated partial returns from drifting.
+ */
+export async function reverseSalePoints(
+  db: Db,
+  userId: number,
+  saleId: number,
+  input: { returnId: number | null; createdBy: string | null },
+  now = new Date(),
+): Promise<void> {
+  const sale = await db.sale.findFirst({
+    where: { id: saleId, userId },
+    select: {
+      customerId: true,
+      voidedAt: true,
+      lines: { select: { lineTotal: true, earnsPoints: true, returnLines: { select: { amount: true } } } },
+      payments: { where: { method: 'POINTS' }, select: { amount: true } },
+      returns: { select: { payments: { where: { method: 'POINTS' }, select: { amount: true } } } },
+    },
+  });
+  if (!sale || sale.customerId === null) return;
+  const customerId = sale.customerId;
+  await lockCustomer(db, customerId);
+
+  const entries = await db.loyaltyEntry.groupBy({
+    by: ['kind'],
+    where: { userId, customerId, saleId },
+    _sum: { points: true },
+  });
+  const sumOf = (kind: string) => entries.find((e) => e.kind === kind)?._sum.points ?? 0;
+  const earned = sumOf('EARNED');
+  const redeemed = -sumOf('REDEEMED');
+  if (earned === 0 && redeemed === 0) return;
+
+  const share = (part: Decimal, whole: Decimal) => (sale.voidedAt ? new D(1) : whole.gt(0) ? D.min(part.div(whole), 1) : new D(0));
+  const base = { userId, customerId, saleId, returnId: input.returnId, createdBy: input.createdBy, createdAt: now };
+
+  const pointsPaid = sale.payments.reduce((a, p) => a.add(p.amount), new D(0));
+  const pointsBack = sale.returns.flatMap((r) => r.payments).reduce((a, p) => a.add(p.amount), new D(0));
+  const giveBack = new D(redeemed).mul(share(pointsBack, pointsPaid)).round().toNumber() - sumOf('REFUNDED');
+  if (giveBack > 0) {
+    const settings = await loyaltySettings(db, userId);
+    await db.loyaltyEntry.create({
+      data: { ...base, kind: 'REFUNDED', points: giveBack, expiresAt: expiryFrom(settings, now) },
+    });
+  }
+
+  const earning = sale.lines.filter((l) => l.earnsPoints);
+  const eligible = earning.reduce((a, l) => a.add(l.lineTotal), new D(0));
+  const returned = earning.reduce((a, l) => l.returnLines.reduce((b, r) => b.add(r.amount), a), new D(0));
+  const due = new D(earned).mul(share(returned, eligible)).round().toNumber() + sumOf('REVERSED');
+  if (due > 0) {
+    const takeBack = Math.min(due, Math.max(0, await expirePoints(db, userId, customerId, now)));
+    if (takeBack > 0) await db.loyaltyEntry.create({ data: { ...base, kind: 'REVERSED', points: -takeBack } });
+  }
+}
+
+/** What `points` are worth as tender, to the cent below */
+export const pointsWorth = (points: number, s: LoyaltySettings): number =>
+  Number(new D(Math.max(0, points)).mul(s.pointValue).toDecimalPlaces(2, D.ROUND_DOWN));
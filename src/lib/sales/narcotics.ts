@@ -0,0 +1,104 @@
+// src/lib/sales/narcotics.ts
+import type { DrugSchedule, NarcoticEntryKind, Prisma } from '@prisma/client';
+import { lockRegister } from './locks';
+
+type Db = Prisma.TransactionClient;
+
+export const DRUG_SCHEDULES: DrugSchedule[] = ['NARCOTIC', 'PSYCHOTROPIC'];
+
+export const isDrugSchedule = (v: unknown): v is DrugSchedule =>
+  typeof v === 'string' && (DRUG_SCHEDULES as string[]).includes(v);
+
+/** Stock leaving (DISPENSED) or coming in (RETURNED / VOIDED / RECEIVED); an ADJUSTED qty carries its own sign */
+const direction = (kind: NarcoticEntryKind) => (kind === 'DISPENSED' ? -1 : 1);
+
+/**
+ * Write register entries for the scheduled medicines among `lines`; other lines are ignored.
+ * Call it after the stock has moved. The running balance is the register's own: the medicine's
+ * last entry moved by this entry's qty, so parked-cart holds never shift it; receipts and stock
+ * edits are entries of their own (RECEIVED / ADJUSTED). A medicine's first entry opens from its
+ * on-hand stock (held units included) before this movement. Each medicine's register is locked
+ * while its entries are written. Patient and prescriber are copied from the prescription.
+ */
+export async function recordNarcoticMovement(
+  db: Db,
+  userId: number,
+  input: {
+    kind: NarcoticEntryKind;
+    saleId: number | null;
+    prescriptionId: number | null;
+    createdBy: string | null;
+    lines: Array<{ medicineId: number; batchNo: string; qty: number }>;
+  },
+): Promise<void> {
+  const scheduled = await db.medicine.findMany({
+    where: { id: { in: Array.from(new Set(input.lines.map((l) => l.medicineId))) }, schedule: { not: null } },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  });
+  if (scheduled.length === 0) return;
+  const ids = scheduled.map((m) => m.id);
+  const lines = input.lines.filter((l) => ids.includes(l.medicineId) && l.qty !== 0);
+
+  const balance = new Map<number, number>();
+  for (const id of ids) {
+    await lockRegister(db, userId, id);
+    const last = await db.narcoticEntry.findFirst({
+      where: { userId, medicineId: id },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: { balance: true },
+    });
+    if (last) balance.set(id, last.balance);
+  }
+
+  const opening = ids.filter((id) => !balance.has(id));
+  const [onHand, held, rx] = await Promise.all([
+    opening.length
+      ? db.inventoryBatch.groupBy({
+          by: ['medicineId'],
+          where: { userId, medicineId: { in: opening } },
+          _sum: { qtyAvailable: true },
+        })
+      : [],
+    opening.length
+      ? db.parkedCartReservation.findMany({
+          where: { batch: { userId, medicineId: { in: opening } } },
+          select: { qty: true, batch: { select: { medicineId: true } } },
+        })
+      : [],
+    input.prescriptionId !== null
+      ? db.prescription.findFirst({
+          where: { id: input.prescriptionId, userId },
+          select: { patientName: true, patientAge: true, prescriberName: true, nmcNumber: true },
+        })
+      : null,
+  ]);
+  for (const id of opening) {
+    const stock =
+      (onHand.find((r) => r.medicineId === id)?._sum.qtyAvailable ?? 0) +
+      held.filter((h) => h.batch.medicineId === id).reduce((a, h) => a + h.qty, 0);
+    const moved = lines.filter((l) => l.medicineId === id).reduce((a, l) => a + l.qty, 0);
+    balance.set(id, stock - direction(input.kind) * moved);
+  }
+
+  const rows: Prisma.NarcoticEntryCreateManyInput[] = lines.map((l) => {
+    const after = (balance.get(l.medicineId) ?? 0) + direction(input.kind) * l.qty;
+    balance.set(l.medicineId, after);
+    return {
+      userId,
+      medicineId: l.medicineId,
+      batchNo: l.batchNo,
+      kind: input.kind,
+      qty: l.qty,
+      balance: after,
+      saleId: input.saleId,
+      prescriptionId: input.prescriptionId,
+      patientName: rx?.patientName ?? null,
+      patientAge: rx?.patientAge ?? null,
+      prescriberName: rx?.prescriberName ?? null,
+      nmcNumber: rx?.nmcNumber ?? null,
+      createdBy: input.createdBy,
+    };
+  });
+  await db.narcoticEntry.createMany({ data: rows });
+}
@@ -0,0 +1,108 @@
+// src/lib/sales/overrides.ts
+import bcrypt from 'bcryptjs';
+import type { Prisma } from '@prisma/client';
+import type { Actor } from '@/lib/permissions';
+import { prisma } from '@/lib/prisma';
+import type { PricedLine } from './pricing';
+
+type Db = Prisma.TransactionClient;
+
+/** Holders approve any price override themselves, or for a cashier with their PIN */
+export const OVERRIDE_PERMISSION = 'OVERRIDE_PRICES';
+export const DEFAULT_OVERRIDE_LIMIT_PERCENT = 10;
+
+export const MAX_PIN_FAILURES = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+
+export const isOverridePin = (v: unknown): v is string => typeof v === 'string' && /^\d{6,8}$/.test(v);
+
+/** How far below the MRP (in %) a cashier may override a price alone, from the pharmacy settings */
+export async function priceOverrideLimit(db: Db, userId: number): Promise<number> {
+  const p = await db.pharmacy.findFirst({
+    where: { userId },
+    orderBy: { id: 'asc' },
+    select: { priceOverrideLimit: true },
+  });
+  return p?.priceOverrideLimit ?? DEFAULT_OVERRIDE_LIMIT_PERCENT;
+}
+
+/** Why an overridden line needs a supervisor (below cost, or more than `limit`% off), null if it doesn't */
+export function overrideApprovalNeed(l: PricedLine, limit: number): string | null {
+  if (!l.originalPrice || l.originalPrice.lte(0)) return null;
+  const perSellUnit = l.sellQty > 0 ? l.qty / l.sellQty : 1;
+  if (l.unitCost && l.price.lt(l.unitCost.mul(perSellUnit))) return `${l.name} below cost`;
+  const off = l.originalPrice.sub(l.price).div(l.originalPrice).mul(100);
+  return off.gt(limit) ? `${l.name} ${off.toFixed(1)}% below MRP (limit ${limit}%)` : null;
+}
+
+/**
+ * The supervisor (admin, or this pharmacy's user) holding OVERRIDE_PRICES whose PIN this is.
+ * Wrong PINs are counted per till and cashier; after MAX_PIN_FAILURES in a row PIN approval is
+ * locked for PIN_LOCKOUT_MINUTES. The count goes through the root client rather than `db` so the
+ * rollback of the failed checkout doesn't take it back. Throws "Supervisor PIN ...".
+ */
+async function supervisorByPin(db: Db, userId: number, cashier: string, pin: string): Promise<string> {
+  const key = { userId_cashier: { userId, cashier } };
+  const now = new Date();
+  const attempts = await prisma.pinAttempt.findUnique({ where: key });
+  if (attempts?.lockedUntil && attempts.lockedUntil > now) {
+    const minutes = Math.ceil((attempts.lockedUntil.getTime() - now.getTime()) / 60_000);
+    throw new Error(`Supervisor PIN locked after too many wrong PINs: try again in ${minutes} min.`);
+  }
+
+  const where = {
+    pinHash: { not: null },
+    roles: { some: { role: { permissions: { some: { name: OVERRIDE_PERMISSION } } } } },
+  };
+  const [admins, users] = await Promise.all([
+    db.admin.findMany({ where, select: { email: true, pinHash: true } }),
+    db.user.findMany({ where: { ...where, id: userId }, select: { email: true, pinHash: true } }),
+  ]);
+  for (const s of [...admins, ...users]) {
+    if (s.pinHash && (await bcrypt.compare(pin, s.pinHash))) {
+      if (attempts?.failures) await prisma.pinAttempt.update({ where: key, data: { failures: 0 } });
+      return s.email;
+    }
+  }
+
+  const failed = await prisma.pinAttempt.upsert({
+    where: key,
+    create: { userId, cashier, failures: 1 },
+    update: { failures: { increment: 1 } },
+  });
+  if (failed.failures >= MAX_PIN_FAILURES) {
+    const lockedUntil = new Date(now.getTime() + PIN_LOCKOUT_MINUTES * 60_000);
+    await prisma.pinAttempt.update({ where: key, data: { failures: 0, lockedUntil } });
+    throw new Error(`Supervisor PIN locked after ${MAX_PIN_FAILURES} wrong PINs: try again in ${PIN_LOCKOUT_MINUTES} min.`);
+  }
+  const left = MAX_PIN_FAILURES - failed.failures;
+  throw new Error(`Supervisor PIN not recognised (${left} ${left === 1 ? 'try' : 'tries'} left).`);
+}
+
+/**
+ * Checkout guard for price overrides. Within the limit the cashier approves their own override;
+ * below cost or beyond the limit it takes a cashier holding OVERRIDE_PRICES or a supervisor's
+ * `pin`. Returns the approver of each overridden line; throws "Supervisor ..." otherwise.
+ */
+export async function approvePriceOverrides(
+  db: Db,
+  userId: number,
+  lines: PricedLine[],
+  actor: Actor | null,
+  pin: string | null,
+): Promise<Map<PricedLine, string | null>> {
+  const approvers = new Map<PricedLine, string | null>();
+  const overridden = lines.filter((l) => l.originalPrice);
+  if (overridden.length === 0) return approvers;
+
+  const limit = await priceOverrideLimit(db, userId);
+  const needs = overridden.map((l) => overrideApprovalNeed(l, limit));
+  let supervisor: string | null = null;
+  if (needs.some(Boolean)) {
+    if (actor?.permissions.has(OVERRIDE_PERMISSION)) supervisor = actor.email;
+    else if (!pin) throw new Error(`Supervisor approval required: ${needs.filter(Boolean).join('; ')}.`);
+    else supervisor = await supervisorByPin(db, userId, actor?.email ?? '', pin);
+  }
+  overridden.forEach((l, i) => approvers.set(l, needs[i] ? supervisor : (actor?.email ?? null)));
+  return approvers;
+}
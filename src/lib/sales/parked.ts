@@ -0,0 +1,69 @@
+// src/lib/sales/parked.ts
+import type { Prisma } from '@prisma/client';
+import { restockBatch, takeStock } from './stock';
+import type { PricedLine } from './pricing';
+
+type Db = Prisma.TransactionClient;
+
+export const DEFAULT_PARKED_TTL_MINUTES = 120;
+
+/** How long a parked cart lives, from the pharmacy settings */
+export async function parkedCartTtlMinutes(db: Db, userId: number): Promise<number> {
+  const p = await db.pharmacy.findFirst({
+    where: { userId },
+    orderBy: { id: 'asc' },
+    select: { parkedCartTtlMinutes: true },
+  });
+  return p?.parkedCartTtlMinutes ?? DEFAULT_PARKED_TTL_MINUTES;
+}
+
+/**
+ * Hold the priced lines' stock for a parked cart: the units come off the batch and its shelves
+ * exactly like a sale, and are remembered per shelf so they can go back where they came from.
+ */
+export async function reserveStock(db: Db, parkedCartId: number, lines: PricedLine[]) {
+  for (const l of lines) {
+    const drawn = await takeStock(db, l.batchId, l.qty, l.name);
+    const rows = drawn.length
+      ? drawn.map((d) => ({ parkedCartId, batchId: l.batchId, qty: d.qty, shelfRefId: d.shelfRefId, shelfName: d.shelfName }))
+      : [{ parkedCartId, batchId: l.batchId, qty: l.qty, shelfRefId: null, shelfName: null }];
+    await db.parkedCartReservation.createMany({ data: rows });
+  }
+}
+
+/** Put a parked cart's reserved stock back and delete the cart. Returns the deleted cart. */
+export async function releaseParkedCart(db: Db, parkedCartId: number) {
+  const cart = await db.parkedCart.findUnique({ where: { id: parkedCartId }, include: { reservations: true } });
+  if (!cart) throw new Error(`Parked cart ${parkedCartId} not found`);
+
+  for (const r of cart.reservations) {
+    const label = `reserved stock of “${cart.label}”`;
+    if (r.shelfRefId != null) {
+      await restockBatch(db, r.batchId, r.qty, { id: r.shelfRefId, name: r.shelfName ?? '' }, label);
+    } else if (r.shelfName) {
+      // allocation without a shelf reference: match it by name again
+      await db.inventoryBatch.update({ where: { id: r.batchId }, data: { qtyAvailable: { increment: r.qty } } });
+      const alloc = await db.inventoryShelfAlloc.findFirst({ where: { batchId: r.batchId, shelfName: r.shelfName } });
+      if (alloc) await db.inventoryShelfAlloc.update({ where: { id: alloc.id }, data: { qty: { increment: r.qty } } });
+      else await db.inventoryShelfAlloc.create({ data: { batchId: r.batchId, shelfName: r.shelfName, qty: r.qty } });
+    } else {
+      // batch without shelf allocations: only the count was taken
+      await db.inventoryBatch.update({ where: { id: r.batchId }, data: { qtyAvailable: { increment: r.qty } } });
+    }
+  }
+
+  // deleteMany guards against a concurrent resume of the same cart
+  const res = await db.parkedCart.deleteMany({ where: { id: parkedCartId } });
+  if (res.count === 0) throw new Error(`Parked cart ${parkedCartId} was already resumed, retry.`);
+  return cart;
+}
+
+/** Release every expired parked cart of the user (their reserved stock goes back on the shelf). */
+export async function releaseExpiredCarts(db: Db, userId: number, now = new Date()) {
+  const expired = await db.parkedCart.findMany({
+    where: { userId, expiresAt: { lt: now } },
+    select: { id: true },
+  });
+  for (const c of expired) await releaseParkedCart(db, c.id);
+  return expired.length;
+}
@@ -0,0 +1,135 @@
+// src/lib/sales/payments.ts
+import { Prisma } from '@prisma/client';
+import type { PaymentMethod } from '@prisma/client';
+import { money2 } from './discounts';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CARD', 'QR_WALLET', 'CREDIT', 'POINTS'];
+
+export const PAYMENT_LABELS: Record<PaymentMethod, string> = {
+  CASH: 'Cash',
+  CARD: 'Card',
+  QR_WALLET: 'QR wallet',
+  CREDIT: 'Credit',
+  POINTS: 'Points',
+};
+
+export const isPaymentMethod = (v: unknown): v is PaymentMethod =>
+  typeof v === 'string' && (PAYMENT_METHODS as string[]).includes(v);
+
+/** For CASH, `amount` is what was handed over (may exceed what is due); for others, what is charged. */
+export type PaymentInput = {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string | null;
+  provider?: string | null;
+};
+
+/** A SalePayment row ready to store */
+export type SettledPayment = {
+  method: PaymentMethod;
+  amount: Decimal;
+  tendered: Decimal | null;
+  reference: string | null;
+  provider: string | null;
+};
+
+const clean = (s: unknown) => (typeof s === 'string' && s.trim() ? s.trim().slice(0, 120) : null);
+
+/** Validate the `payments` part of a checkout body. Missing/null = exact cash. */
+export function parsePayments(raw: unknown): { payments: PaymentInput[] | null } | { error: string } {
+  if (raw == null) return { payments: null };
+  if (!Array.isArray(raw)) return { error: 'Payment: payments must be a list' };
+
+  const out: PaymentInput[] = [];
+  for (const p of raw as Array<Partial<PaymentInput> | null>) {
+    if (!p || !isPaymentMethod(p.method)) return { error: 'Payment: method must be CASH, CARD, QR_WALLET, CREDIT or POINTS' };
+    if (typeof p.amount !== 'number' || !Number.isFinite(p.amount) || p.amount <= 0) {
+      return { error: `Payment: ${PAYMENT_LABELS[p.method]} amount must be greater than 0` };
+    }
+    const reference = clean(p.reference);
+    if (p.method === 'QR_WALLET' && !reference) {
+      return { error: 'Payment: QR wallet payments need the transaction reference' };
+    }
+    out.push({ method: p.method, amount: p.amount, reference, provider: clean(p.provider) });
+  }
+  return { payments: out };
+}
+
+/**
+ * Settle a bill: card/wallet/credit/points are charged exactly as given and may not exceed the total;
+ * cash covers the rest and anything handed over beyond that is change.
+ * Throws "Payment ..." when the tender doesn't add up.
+ */
+export function settlePayments(
+  total: Decimal,
+  input: PaymentInput[] | null,
+): { payments: SettledPayment[]; changeDue: Decimal } {
+  if (input == null) {
+    return {
+      payments: total.gt(0)
+        ? [{ method: 'CASH', amount: total, tendered: total, reference: null, provider: null }]
+        : [],
+      changeDue: new D(0),
+    };
+  }
+
+  const nonCash = input.filter((p) => p.method !== 'CASH');
+  const nonCashSum = money2(nonCash.reduce((a, p) => a.add(p.amount), new D(0)));
+  if (nonCashSum.gt(total)) {
+    throw new Error(
+      `Payment: card/wallet/credit/points (${nonCashSum.toFixed(2)}) exceed the bill total (${total.toFixed(2)})`,
+    );
+  }
+
+  const cashDue = total.sub(nonCashSum);
+  const tendered = money2(input.filter((p) => p.method === 'CASH').reduce((a, p) => a.add(p.amount), new D(0)));
+  if (tendered.lt(cashDue)) {
+    throw new Error(`Payment short by ${cashDue.sub(tendered).toFixed(2)}`);
+  }
+
+  const payments: SettledPayment[] = nonCash.map((p) => ({
+    method: p.method,
+    amount: money2(new D(p.amount)),
+    tendered: null,
+    reference: p.reference ?? null,
+    provider: p.provider ?? null,
+  }));
+  if (cashDue.gt(0)) {
+    payments.unshift({ method: 'CASH', amount: cashDue, tendered, reference: null, provider: null });
+  }
+  return { payments, changeDue: tendered.sub(cashDue) };
+}
+
+/** What went back on each tender for a return (a SaleReturnPayment row) */
+export type RefundPart = { method: PaymentMethod; amount: Decimal };
+
+const paidOn = (rows: RefundPart[], method: PaymentMethod) =>
+  rows.filter((r) => r.method === method).reduce((a, r) => a.add(r.amount), new D(0));
+
+/**
+ * Split `value` of returned goods over the sale's tenders in the proportion they paid the bill.
+ * `before` is what earlier returns of the sale sent back; running totals keep repeated partial
+ * returns from drifting, so returning everything gives back exactly what each tender paid.
+ */
+export function splitRefund(total: Decimal, paid: RefundPart[], before: RefundPart[], value: Decimal): RefundPart[] {
+  const methods = PAYMENT_METHODS.filter((m) => paid.some((p) => p.method === m));
+  if (methods.length === 0) return value.gt(0) ? [{ method: 'CASH', amount: value }] : [];
+
+  const returned = before.reduce((a, r) => a.add(r.amount), new D(0)).add(value);
+  const share = total.gt(0) ? D.min(returned.div(total), 1) : new D(1);
+  const parts = methods.map((method) => {
+    const onTender = paidOn(paid, method);
+    return { method, amount: D.max(0, money2(onTender.mul(share)).sub(paidOn(before, method))) };
+  });
+
+  // rounding (or an earlier credit share paid out in cash) leaves cents over or under: the biggest part takes them
+  const diff = value.sub(parts.reduce((a, p) => a.add(p.amount), new D(0)));
+  if (!diff.isZero()) {
+    const biggest = parts.reduce((a, p) => (p.amount.gt(a.amount) ? p : a));
+    biggest.amount = biggest.amount.add(diff);
+  }
+  return parts.filter((p) => p.amount.gt(0));
+}
@@ -0,0 +1,35 @@
+// src/lib/sales/prescriptions.ts
+import { Prisma } from '@prisma/client';
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Checkout guard: if any line is a prescription-only or scheduled (narcotic / psychotropic)
+ * medicine, the sale needs a prescription of this user attached — it carries the patient and
+ * prescriber the register needs. Throws "Prescription required ..." (conflict) or "Prescription N not found".
+ */
+export async function assertPrescriptionCovers(
+  db: Db,
+  userId: number,
+  prescriptionId: number | null,
+  lines: Array<{ medicineId: number; name: string }>,
+): Promise<void> {
+  if (prescriptionId !== null) {
+    const rx = await db.prescription.findFirst({ where: { id: prescriptionId, userId }, select: { id: true } });
+    if (!rx) throw new Error(`Prescription ${prescriptionId} not found`);
+    return;
+  }
+
+  const rxOnly = await db.medicine.findMany({
+    where: {
+      id: { in: Array.from(new Set(lines.map((l) => l.medicineId))) },
+      OR: [{ prescriptionOnly: true }, { schedule: { not: null } }],
+    },
+    select: { id: true },
+  });
+  if (rxOnly.length === 0) return;
+
+  const ids = new Set(rxOnly.map((m) => m.id));
+  const names = Array.from(new Set(lines.filter((l) => ids.has(l.medicineId)).map((l) => l.name)));
+  throw new Error(`Prescription required for ${names.join(', ')}. Attach the prescription before checkout.`);
+}
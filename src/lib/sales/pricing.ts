@@ -0,0 +1,266 @@
+// src/lib/sales/pricing.ts
+import { Prisma } from '@prisma/client';
+import type { SellUnit } from '@prisma/client';
+import { allocateBillDiscount, bestLineDiscount, money2, validateDiscount } from './discounts';
+import type { DiscountInput } from './discounts';
+import { splitTax } from './tax';
+import type { TaxSplit } from './tax';
+import { BATCH_WITH_MEDICINE, pickBatchesFefo } from './fefo';
+import type { BatchWithMedicine } from './fefo';
+import { costOfBase, isSellUnit, packInfo, priceOfBase, toBaseQty, unitPrices } from './units';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+type Db = Prisma.TransactionClient;
+
+/** The cashier's price per `unit` instead of the MRP; who may approve it is in overrides.ts */
+export type PriceOverrideInput = { price: number; reason: string };
+
+type LineOptions = { unit?: SellUnit; discount?: DiscountInput | null; priceOverride?: PriceOverrideInput | null };
+
+/**
+ * A cart line is either a specific batch (`id` = batchNo) or a medicine whose batches are picked FEFO.
+ * `qty` counts `unit`s (default UNIT = one tablet / bottle).
+ */
+export type CartLineInput = ({ id: string; qty: number } | { medicineId: number; qty: number }) & LineOptions;
+export type CartInput = { lines: CartLineInput[]; billDiscount?: DiscountInput | null };
+
+export type PricedLine = {
+  batchId: number;
+  batchNo: string;
+  medicineId: number;
+  pickedFefo: boolean; // allocated by the server from a sell-by-medicine line
+  expiryDate: Date | null;
+  name: string;
+  qty: number;       // base units, what stock is decremented by
+  unitCost: Decimal | null; // batch cost per base unit, snapshotted on the SaleLine for profit
+  sellUnit: SellUnit;
+  sellQty: number;
+  price: Decimal;    // per sellUnit
+  originalPrice: Decimal | null; // MRP-derived price per sellUnit when `price` was overridden
+  priceReason: string | null;
+  gross: Decimal;
+  discount: Decimal;
+  discountRule: string | null;
+  promotionId: number | null;
+  billDiscount: Decimal;
+  lineTotal: Decimal;
+} & TaxSplit;
+
+export type PricedCart = {
+  lines: PricedLine[];
+  subtotal: Decimal;
+  discount: Decimal;
+  billDiscountRule: string | null;
+  total: Decimal;
+  taxableAmount: Decimal;
+  taxAmount: Decimal;
+  exemptAmount: Decimal;
+};
+
+/**
+ * Validate a checkout/quote body. Same batch (or medicine) twice in the cart in the same unit
+ * becomes one line (first discount / price override wins).
+ */
+export function parseCart(body: unknown): { cart: CartInput } | { error: string } {
+  const b = body as Partial<CartInput> | null;
+  if (!b || !Array.isArray(b.lines) || b.lines.length === 0) return { error: 'Invalid payload' };
+
+  const billErr = validateDiscount(b.billDiscount);
+  if (billErr) return { error: `Bill discount: ${billErr}` };
+
+  const merged = new Map<string, CartLineInput>();
+  type RawLine = Partial<{ id: unknown; medicineId: unknown; qty: unknown; unit: unknown; discount: unknown; priceOverride: unknown }>;
+  for (const raw of b.lines as Array<RawLine | null>) {
+    if (!raw || !Number.isInteger(raw.qty) || (raw.qty as number) <= 0) return { error: 'Invalid line item' };
+    const qty = raw.qty as number;
+    const byBatch = typeof raw.id === 'string' && raw.id.trim() !== '';
+    const byMedicine = Number.isInteger(raw.medicineId) && (raw.medicineId as number) > 0;
+    if (byBatch === byMedicine) return { error: 'Invalid line item: give either id (batch) or medicineId' };
+    if (raw.unit != null && !isSellUnit(raw.unit)) return { error: 'Invalid line item: unit must be PACK, STRIP or UNIT' };
+    const unit: SellUnit = raw.unit ?? 'UNIT';
+
+    const ref = byBatch ? (raw.id as string).trim() : `medicine ${raw.medicineId}`;
+    const key = unit === 'UNIT' ? ref : `${ref} (${unit.toLowerCase()})`;
+    const err = validateDiscount(raw.discount);
+    if (err) return { error: `${key}: ${err}` };
+    const discount = (raw.discount as DiscountInput | null | undefined) ?? null;
+    const po = raw.priceOverride as Partial<PriceOverrideInput> | null | undefined;
+    if (po != null && (typeof po.price !== 'number' || !Number.isFinite(po.price) || po.price <= 0)) {
+      return { error: `${key}: price override must be a positive amount` };
+    }
+    if (po != null && (typeof po.reason !== 'string' || !po.reason.trim())) {
+      return { error: `${key}: a price override needs a reason` };
+    }
+    if (po != null && discount) return { error: `${key}: give either a discount or a price override` };
+    const priceOverride = po != null ? { price: po.price as number, reason: (po.reason as string).trim().slice(0, 200) } : null;
+
+    const prev = merged.get(key);
+    if (prev) merged.set(key, { ...prev, qty: prev.qty + qty });
+    else {
+      const options = { unit, discount, priceOverride };
+      merged.set(key, byBatch ? { id: ref, qty, ...options } : { medicineId: raw.medicineId as number, qty, ...options });
+    }
+  }
+
+  return { cart: { lines: Array.from(merged.values()), billDiscount: b.billDiscount ?? null } };
+}
+
+/**
+ * Price a cart from the DB: batch MRP (per unit derived from the pack MRP when the medicine's
+ * pack facts are known, see units.ts), best line discount (manual or promotion),
+ * then the bill discount spread across lines, then the VAT split of what is left.
+ * A price override replaces the MRP price (it must be below it) and takes no line discount.
+ * Sell-by-medicine lines become one line per batch picked FEFO (a fixed manual discount is
+ * shared between them). Reads only — stock is not touched.
+ */
+export async function priceCart(db: Db, userId: number, cart: CartInput, now = new Date()): Promise<PricedCart> {
+  const promotions = await db.promotion.findMany({
+    where: {
+      userId,
+      isActive: true,
+      AND: [
+        { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+        { OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+      ],
+    },
+  });
+
+  const unitPriceOf = (batch: BatchWithMedicine) => new D(batch.mrp ?? batch.medicine?.mrp ?? 0);
+  const grossOf = (batch: BatchWithMedicine, qty: number) => priceOfBase(packInfo(batch.medicine), unitPriceOf(batch), qty);
+  const priceLine = (
+    batch: BatchWithMedicine,
+    qty: number,
+    sellUnit: SellUnit,
+    discount: DiscountInput | null | undefined,
+    override: PriceOverrideInput | null | undefined,
+    pickedFefo: boolean,
+  ): PricedLine => {
+    const info = packInfo(batch.medicine);
+    const size = info.sizes[sellUnit] ?? 1;
+    const name = batch.medicine?.name ?? batch.batchNo;
+    // a FEFO split that leaves part of a pack/strip on a batch is recorded in single units
+    const [unit, sellQty] = qty % size === 0 ? [sellUnit, qty / size] : (['UNIT', qty] as const);
+    const listed = unitPrices(info, unitPriceOf(batch));
+    let price = listed[unit] ?? new D(0);
+    let gross = priceOfBase(info, unitPriceOf(batch), qty);
+    if (override) {
+      const mrp = listed[sellUnit] ?? new D(0);
+      if (!new D(override.price).lt(mrp)) {
+        throw new Error(`Price override for ${name}: ${override.price} is not below the MRP price ${mrp.toFixed(2)}`);
+      }
+      const perBase = new D(override.price).div(size);
+      price = money2(perBase.mul(info.sizes[unit] ?? 1));
+      gross = money2(perBase.mul(qty));
+    }
+    const best = override
+      ? { amount: new D(0), rule: null, promotionId: null }
+      : bestLineDiscount(
+          gross,
+          qty,
+          {
+            medicineId: batch.medicineId,
+            manufacturer: batch.medicine?.manufacturer ?? null,
+            expiryDate: batch.expiryDate,
+          },
+          discount,
+          promotions,
+          now,
+        );
+
+    const taxClass = batch.medicine?.taxClass ?? 'EXEMPT';
+    return {
+      ...splitTax(new D(0), taxClass), // real split once the bill discount is known
+      batchId: batch.id,
+      batchNo: batch.batchNo,
+      medicineId: batch.medicineId,
+      pickedFefo,
+      expiryDate: batch.expiryDate,
+      name,
+      qty,
+      unitCost: batch.costPrice ? costOfBase(info, batch.costPrice) : null,
+      sellUnit: unit,
+      sellQty,
+      price,
+      originalPrice: override ? (listed[unit] ?? new D(0)) : null,
+      priceReason: override?.reason ?? null,
+      gross,
+      discount: best.amount,
+      discountRule: best.rule,
+      promotionId: best.promotionId,
+      billDiscount: new D(0),
+      lineTotal: gross.sub(best.amount),
+    };
+  };
+
+  // explicit batches first, so FEFO picking knows what the cart already takes from each batch
+  const priced = new Map<number, PricedLine[]>();
+  const claimed = new Map<number, number>();
+  for (const [i, input] of cart.lines.entries()) {
+    if (!('id' in input)) continue;
+    const batch = await db.inventoryBatch.findFirst({
+      where: { userId, batchNo: input.id },
+      include: BATCH_WITH_MEDICINE,
+    });
+    if (!batch) throw new Error(`Batch ${input.id} not found`);
+    const unit = input.unit ?? 'UNIT';
+    const qty = toBaseQty(packInfo(batch.medicine), unit, input.qty, batch.medicine?.name ?? batch.batchNo);
+    claimed.set(batch.id, (claimed.get(batch.id) ?? 0) + qty);
+    priced.set(i, [priceLine(batch, qty, unit, input.discount, input.priceOverride, false)]);
+  }
+  for (const [i, input] of cart.lines.entries()) {
+    if (!('medicineId' in input)) continue;
+    const unit = input.unit ?? 'UNIT';
+    const qty = unit === 'UNIT' ? input.qty : await baseQtyOfMedicine(db, input.medicineId, unit, input.qty);
+    const picks = await pickBatchesFefo(db, userId, input.medicineId, qty, claimed, now);
+    const fixedShares =
+      input.discount?.type === 'FIXED'
+        ? allocateBillDiscount(picks.map((p) => grossOf(p.batch, p.qty)), input.discount).shares
+        : null;
+    priced.set(
+      i,
+      picks.map((p, j) =>
+        priceLine(
+          p.batch,
+          p.qty,
+          unit,
+          fixedShares ? { type: 'FIXED', value: Number(fixedShares[j]) } : input.discount,
+          input.priceOverride,
+          true,
+        ),
+      ),
+    );
+  }
+  const lines = cart.lines.flatMap((_, i) => priced.get(i) ?? []);
+
+  const { shares, rule } = allocateBillDiscount(
+    lines.map((l) => l.lineTotal),
+    cart.billDiscount,
+  );
+  lines.forEach((l, i) => {
+    l.billDiscount = shares[i];
+    l.lineTotal = l.lineTotal.sub(shares[i]);
+    Object.assign(l, splitTax(l.lineTotal, l.taxClass));
+  });
+
+  const sum = (pick: (l: PricedLine) => Decimal) => lines.reduce((a, l) => a.add(pick(l)), new D(0));
+  const subtotal = sum((l) => l.gross);
+  const total = sum((l) => l.lineTotal);
+  return {
+    lines,
+    subtotal,
+    discount: subtotal.sub(total),
+    billDiscountRule: rule,
+    total,
+    taxableAmount: sum((l) => l.taxableAmount),
+    taxAmount: sum((l) => l.taxAmount),
+    exemptAmount: sum((l) => l.exemptAmount),
+  };
+}
+
+/** Base units in `qty` packs/strips of a medicine (pack facts are per medicine, not per batch) */
+async function baseQtyOfMedicine(db: Db, medicineId: number, unit: SellUnit, qty: number): Promise<number> {
+  const medicine = await db.medicine.findUnique({ where: { id: medicineId }, include: { facts: true } });
+  if (!medicine) throw new Error(`Medicine ${medicineId} not found`);
+  return toBaseQty(packInfo(medicine), unit, qty, medicine.name);
+}
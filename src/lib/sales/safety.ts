@@ -0,0 +1,136 @@
+// src/lib/sales/safety.ts
+import type { Prisma } from '@prisma/client';
+import type { Actor } from '@/lib/permissions';
+
+type Db = Prisma.TransactionClient;
+
+/** Holders (pharmacists) may sell past an allergy warning, with a reason */
+export const ALLERGY_OVERRIDE_PERMISSION = 'OVERRIDE_ALLERGIES';
+
+/**
+ * A checkout safety warning. ALLERGY (a customer's recorded allergy vs the medicine or its
+ * "avoid if" notes) blocks the sale unless a pharmacist holding OVERRIDE_ALLERGIES overrides it
+ * with a reason; INTERACTION (one medicine's interaction notes naming another in the cart) needs
+ * acknowledging with a reason by whoever is selling.
+ */
+export type SafetyWarning = {
+  kind: 'ALLERGY' | 'INTERACTION';
+  medicines: string[];
+  detail: string;
+};
+
+type MedicineNotes = { id: number; name: string; interactionsKey: string[]; avoidIf: string[] };
+
+/** Words that say nothing about the drug itself */
+const NOISE = new Set([
+  'tablet', 'tablets', 'capsule', 'capsules', 'syrup', 'suspension', 'solution', 'drops', 'injection',
+  'cream', 'ointment', 'forte', 'plus', 'extra', 'oral', 'retard',
+]);
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const mentions = (text: string, term: string) => new RegExp(`\\b${escapeRe(term)}`, 'i').test(text);
+
+/** Searchable words of a medicine name: "Warfarin 5mg Tablet" → ["warfarin"] */
+export function nameTerms(name: string): string[] {
+  return Array.from(
+    new Set(
+      name
+        .toLowerCase()
+        .split(/[^a-z]+/)
+        .filter((w) => w.length >= 4 && !NOISE.has(w)),
+    ),
+  );
+}
+
+/** "Allergic to penicillin" / "Sulfa allergy" → "penicillin" / "sulfa" */
+export function allergyTerm(allergy: string): string {
+  return allergy
+    .toLowerCase()
+    .replace(/\b(allergic|allergy|allergies|hypersensitivity|intolerance|intolerant|to)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Pairwise: medicine A's interaction notes name medicine B (either direction, reported once per pair) */
+export function findInteractions(meds: MedicineNotes[]): SafetyWarning[] {
+  const out: SafetyWarning[] = [];
+  for (let i = 0; i < meds.length; i++) {
+    for (let j = i + 1; j < meds.length; j++) {
+      const [a, b] = [meds[i], meds[j]];
+      const hit =
+        a.interactionsKey.find((note) => nameTerms(b.name).some((t) => mentions(note, t))) ??
+        b.interactionsKey.find((note) => nameTerms(a.name).some((t) => mentions(note, t)));
+      if (hit) out.push({ kind: 'INTERACTION', medicines: [a.name, b.name], detail: hit });
+    }
+  }
+  return out;
+}
+
+/** A recorded allergy matching a medicine's name or one of its "avoid if" notes */
+export function findAllergies(meds: MedicineNotes[], allergies: string[]): SafetyWarning[] {
+  const out: SafetyWarning[] = [];
+  for (const allergy of allergies) {
+    const term = allergyTerm(allergy);
+    if (term.length < 3) continue;
+    for (const m of meds) {
+      const byName = mentions(m.name, term);
+      const note = byName ? null : m.avoidIf.find((n) => mentions(n, term));
+      if (!byName && !note) continue;
+      out.push({
+        kind: 'ALLERGY',
+        medicines: [m.name],
+        detail: note ? `recorded allergy “${allergy}”, avoid if: ${note}` : `recorded allergy “${allergy}”`,
+      });
+    }
+  }
+  return out;
+}
+
+/** Allergy and interaction warnings for the cart's medicines and the attached customer */
+export async function checkCartSafety(
+  db: Db,
+  userId: number,
+  customerId: number | null,
+  lines: Array<{ medicineId: number }>,
+): Promise<SafetyWarning[]> {
+  const ids = Array.from(new Set(lines.map((l) => l.medicineId)));
+  if (ids.length === 0) return [];
+
+  const [medicines, customer] = await Promise.all([
+    db.medicine.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, name: true, facts: { select: { interactionsKey: true, avoidIf: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    customerId !== null
+      ? db.customer.findFirst({ where: { id: customerId, userId }, select: { allergies: true } })
+      : null,
+  ]);
+  const meds = medicines.map((m) => ({
+    id: m.id,
+    name: m.name,
+    interactionsKey: m.facts?.interactionsKey ?? [],
+    avoidIf: m.facts?.avoidIf ?? [],
+  }));
+
+  return [...findAllergies(meds, customer?.allergies ?? []), ...findInteractions(meds)];
+}
+
+/**
+ * Checkout guard: any warning needs a reason, and an allergy one a seller holding
+ * OVERRIDE_ALLERGIES as well. Throws "Safety warning ...".
+ */
+export function assertSafetyOverride(warnings: SafetyWarning[], reason: string | null, actor: Actor | null): void {
+  const allergy = warnings.find((w) => w.kind === 'ALLERGY');
+  if (allergy && !actor?.permissions.has(ALLERGY_OVERRIDE_PERMISSION)) {
+    throw new Error(
+      `Safety warning: allergy — ${allergy.medicines.join(' + ')}: ${allergy.detail}. Only a pharmacist (${ALLERGY_OVERRIDE_PERMISSION}) can override it.`,
+    );
+  }
+  if (warnings.length === 0 || reason) return;
+  const first = warnings[0];
+  const more = warnings.length > 1 ? ` (+${warnings.length - 1} more)` : '';
+  throw new Error(
+    `Safety warning: ${first.kind === 'ALLERGY' ? 'allergy' : 'interaction'} — ${first.medicines.join(' + ')}: ${first.detail}${more}. Record an override reason to continue.`,
+  );
+}
@@ -0,0 +1,203 @@
+// src/lib/sales/shifts.ts
+import { Prisma } from '@prisma/client';
+import type { PaymentMethod } from '@prisma/client';
+import type { PaymentTotal, ZReport, ZReportCashier } from '@/types/reports';
+import { money2 } from './discounts';
+import { PAYMENT_LABELS, PAYMENT_METHODS } from './payments';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+type Db = Prisma.TransactionClient;
+
+const num = (d: Decimal) => Number(money2(d));
+const sum = <T>(xs: T[], pick: (x: T) => Decimal) => xs.reduce((a, x) => a.add(pick(x)), new D(0));
+
+/** The user's open shift, if any */
+export function currentShift(db: Db, userId: number) {
+  return db.cashShift.findFirst({ where: { userId, closedAt: null }, orderBy: { openedAt: 'desc' } });
+}
+
+/** Checkout guard: sales are only taken while the cashier has a shift open. Throws "No cash shift ...". */
+export async function requireOpenShift(db: Db, userId: number) {
+  const shift = await currentShift(db, userId);
+  if (!shift) throw new Error('No cash shift is open: open a shift with its cash float before selling');
+  return shift;
+}
+
+/**
+ * The shift that was open at `at`, closed since or not: where a sale made offline belongs when it
+ * is replayed. Throws "No cash shift ...".
+ */
+export async function requireShiftAt(db: Db, userId: number, at: Date) {
+  const shift = await db.cashShift.findFirst({
+    where: { userId, openedAt: { lte: at }, OR: [{ closedAt: null }, { closedAt: { gte: at } }] },
+    orderBy: { openedAt: 'desc' },
+  });
+  if (!shift) throw new Error(`No cash shift was open at ${at.toISOString()}, when this sale was made offline`);
+  return shift;
+}
+
+/**
+ * Z-report of a shift. Sales are the ones rung up in the shift; returns, voids and credit
+ * repayments are the till's between opening and closing (`until` for a shift being closed).
+ * Expected cash = float + cash sales + cash repayments + cash in − cash out − the cash share of
+ * refunds and of voided sales. Sales, returns and voids are also split by the acting user who
+ * recorded them; rows from before that was kept fall to the shift's own account.
+ */
+export async function buildZReport(db: Db, shiftId: number, until = new Date()): Promise<ZReport> {
+  const shift = await db.cashShift.findUnique({
+    where: { id: shiftId },
+    include: { user: { select: { email: true } }, movements: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!shift) throw new Error(`Shift ${shiftId} not found`);
+  const window = { gte: shift.openedAt, lte: shift.closedAt ?? until };
+
+  const [sales, voided, returns, repayments] = await Promise.all([
+    db.sale.findMany({
+      where: { shiftId },
+      orderBy: { createdAt: 'asc' },
+      include: { payments: true, lines: { select: { discount: true, billDiscount: true } } },
+    }),
+    db.sale.findMany({
+      where: { userId: shift.userId, voidedAt: window },
+      include: { payments: { where: { method: 'CASH' } } },
+    }),
+    db.saleReturn.findMany({
+      where: { userId: shift.userId, createdAt: window },
+      include: { payments: { where: { method: 'CASH' } } },
+    }),
+    db.creditRepayment.findMany({ where: { userId: shift.userId, createdAt: window } }),
+  ]);
+
+  const cashOf = (payments: Array<{ method: PaymentMethod; amount: Decimal }>) =>
+    sum(payments.filter((p) => p.method === 'CASH'), (p) => p.amount);
+
+  const payments: PaymentTotal[] = PAYMENT_METHODS.map((method) => {
+    const rows = sales.flatMap((s) => s.payments.filter((p) => p.method === method));
+    return { method, label: PAYMENT_LABELS[method], amount: num(sum(rows, (p) => p.amount)), count: rows.length };
+  }).filter((p) => p.count > 0);
+
+  // only the cash part of a refund leaves the drawer (see splitRefund)
+  const refundCash = sum(returns, (r) => cashOf(r.payments));
+  const voidCash = sum(voided, (s) => cashOf(s.payments));
+
+  const movementsIn = sum(shift.movements.filter((m) => m.kind === 'CASH_IN'), (m) => m.amount);
+  const movementsOut = sum(shift.movements.filter((m) => m.kind === 'CASH_OUT'), (m) => m.amount);
+  const salesCash = sum(sales, (s) => cashOf(s.payments));
+  const repaidCash = sum(repayments.filter((r) => r.method === 'CASH'), (r) => r.amount);
+  const fallback = shift.user?.email ?? 'Unknown';
+  const cashierOf = (who: string | null) => who ?? fallback;
+  const cashiers = [
+    ...new Set([
+      ...sales.map((s) => cashierOf(s.cashier)),
+      ...returns.map((r) => cashierOf(r.cashier)),
+      ...voided.map((s) => cashierOf(s.voidedBy)),
+    ]),
+  ].sort();
+  const perCashier = cashiers.map((cashier): ZReportCashier => {
+    const own = sales.filter((s) => cashierOf(s.cashier) === cashier);
+    const ownReturns = returns.filter((r) => cashierOf(r.cashier) === cashier);
+    const ownVoids = voided.filter((s) => cashierOf(s.voidedBy) === cashier);
+    return {
+      cashier,
+      sales: {
+        count: own.length,
+        total: num(sum(own, (s) => s.total)),
+        discounts: num(sum(own, (s) => s.discount)),
+        cash: num(sum(own, (s) => cashOf(s.payments))),
+      },
+      returns: { count: ownReturns.length, refund: num(sum(ownReturns, (r) => r.refund)) },
+      voids: { count: ownVoids.length, total: num(sum(ownVoids, (s) => s.total)) },
+    };
+  });
+
+  const expected = shift.openingFloat.add(salesCash).add(repaidCash).add(movementsIn).sub(movementsOut).sub(refundCash).sub(voidCash);
+
+  return {
+    shiftId: shift.id,
+    cashier: shift.user?.email ?? null,
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: shift.closedAt?.toISOString() ?? null,
+    openedBy: shift.openedBy,
+    closedBy: shift.closedBy,
+    sales: {
+      count: sales.length,
+      gross: num(sum(sales, (s) => s.subtotal)),
+      discounts: num(sum(sales, (s) => s.discount)),
+      total: num(sum(sales, (s) => s.total)),
+      tax: num(sum(sales, (s) => s.taxAmount)),
+      list: sales.map((s) => ({
+        id: s.id,
+        at: s.createdAt.toISOString(),
+        cashier: s.cashier ?? fallback,
+        total: Number(s.total),
+        cash: num(cashOf(s.payments)),
+        methods: [...new Set(s.payments.map((p) => PAYMENT_LABELS[p.method]))],
+        voided: s.voidedAt != null,
+      })),
+    },
+    payments,
+    discounts: {
+      line: num(sum(sales.flatMap((s) => s.lines), (l) => l.discount)),
+      bill: num(sum(sales.flatMap((s) => s.lines), (l) => l.billDiscount)),
+    },
+    returns: { count: returns.length, refund: num(sum(returns, (r) => r.refund)), cash: num(refundCash) },
+    voids: { count: voided.length, total: num(sum(voided, (s) => s.total)), cash: num(voidCash) },
+    byCashier: perCashier,
+    repayments: {
+      cash: num(repaidCash),
+      other: num(sum(repayments.filter((r) => r.method !== 'CASH'), (r) => r.amount)),
+    },
+    movements: shift.movements.map((m) => ({
+      kind: m.kind,
+      amount: Number(m.amount),
+      reason: m.reason,
+      at: m.createdAt.toISOString(),
+    })),
+    cash: {
+      openingFloat: Number(shift.openingFloat),
+      sales: num(salesCash),
+      repayments: num(repaidCash),
+      cashIn: num(movementsIn),
+      cashOut: num(movementsOut),
+      refunds: num(refundCash),
+      voids: num(voidCash),
+      expected: shift.expectedCash != null ? Number(shift.expectedCash) : num(expected),
+      counted: shift.countedCash != null ? Number(shift.countedCash) : null,
+      variance: shift.variance != null ? Number(shift.variance) : null,
+    },
+    note: shift.closeNote,
+  };
+}
+
+/**
+ * Close the user's open shift against the counted cash. Expected cash and the variance are
+ * frozen on the shift so the Z-report reads the same later. Throws "No cash shift ...".
+ */
+export async function closeShift(
+  db: Db,
+  userId: number,
+  countedCash: Decimal,
+  note: string | null,
+  closedBy: string | null,
+): Promise<ZReport> {
+  const shift = await requireOpenShift(db, userId);
+  const closedAt = new Date();
+  const draft = await buildZReport(db, shift.id, closedAt);
+  const expected = new D(draft.cash.expected);
+
+  // guard against a concurrent close of the same shift
+  const res = await db.cashShift.updateMany({
+    where: { id: shift.id, closedAt: null },
+    data: {
+      closedAt,
+      closedBy,
+      expectedCash: expected,
+      countedCash,
+      variance: countedCash.sub(expected),
+      closeNote: note,
+    },
+  });
+  if (res.count === 0) throw new Error('No cash shift is open: it was closed from another terminal');
+  return buildZReport(db, shift.id);
+}
@@ -0,0 +1,92 @@
+// src/lib/sales/stock.ts
+import type { Prisma } from '@prisma/client';
+
+type Tx = Prisma.TransactionClient;
+
+/** What was taken off one shelf allocation */
+export type ShelfDraw = { shelfRefId: number | null; shelfName: string; qty: number };
+
+/**
+ * Draw `qty` down from a batch's shelf allocations (oldest allocation first).
+ * Allocations that reach zero are removed, matching what the inventory editor saves.
+ * Batches with no allocations at all (legacy rows) are left untouched (returns []).
+ */
+export async function drawDownShelves(tx: Tx, batchId: number, qty: number, label: string): Promise<ShelfDraw[]> {
+  const allocs = await tx.inventoryShelfAlloc.findMany({
+    where: { batchId },
+    orderBy: { id: 'asc' },
+  });
+  if (allocs.length === 0) return [];
+
+  const drawn: ShelfDraw[] = [];
+  let remaining = qty;
+  for (const a of allocs) {
+    if (remaining <= 0) break;
+    const take = Math.min(a.qty, remaining);
+    if (take <= 0) continue;
+    const res = await tx.inventoryShelfAlloc.updateMany({
+      where: { id: a.id, qty: { gte: take } },
+      data: { qty: { decrement: take } },
+    });
+    if (res.count === 0) throw new Error(`Insufficient stock for ${label}: shelf ${a.shelfName} changed, retry.`);
+    drawn.push({ shelfRefId: a.shelfRefId, shelfName: a.shelfName, qty: take });
+    remaining -= take;
+  }
+  if (remaining > 0) throw new Error(`Insufficient stock for ${label}: shelves are short by ${remaining}.`);
+
+  await tx.inventoryShelfAlloc.deleteMany({ where: { batchId, qty: { lte: 0 } } });
+  return drawn;
+}
+
+/**
+ * Take `qty` off a batch and its shelves. The conditional decrement never goes below zero,
+ * even with concurrent checkouts. Returns the shelves it was drawn from.
+ */
+export async function takeStock(tx: Tx, batchId: number, qty: number, label: string): Promise<ShelfDraw[]> {
+  const res = await tx.inventoryBatch.updateMany({
+    where: { id: batchId, qtyAvailable: { gte: qty } },
+    data: { qtyAvailable: { decrement: qty } },
+  });
+  if (res.count === 0) {
+    const batch = await tx.inventoryBatch.findUnique({ where: { id: batchId }, select: { qtyAvailable: true } });
+    throw new Error(`Insufficient stock for ${label}. Available: ${batch?.qtyAvailable ?? 0}`);
+  }
+  return drawDownShelves(tx, batchId, qty, label);
+}
+
+/**
+ * Put `qty` back on a batch: bumps qtyAvailable and adds to the given shelf's allocation
+ * (creating the allocation row if the batch is not on that shelf any more).
+ * Without a shelf the units go back onto the batch's oldest allocation.
+ * Legacy batches without any allocations only get their qtyAvailable bumped, mirroring drawDownShelves.
+ */
+export async function restockBatch(
+  tx: Tx,
+  batchId: number,
+  qty: number,
+  shelf: { id: number; name: string } | null,
+  label = `batch ${batchId}`,
+) {
+  const batch = await tx.inventoryBatch.update({
+    where: { id: batchId },
+    data: { qtyAvailable: { increment: qty } },
+    select: { qtyAvailable: true },
+  });
+
+  const allocs = await tx.inventoryShelfAlloc.findMany({ where: { batchId }, orderBy: { id: 'asc' } });
+  const legacy = allocs.length === 0 && batch.qtyAvailable > qty;
+  if (legacy) return;
+
+  const existing = shelf
+    ? allocs.find((a) => a.shelfRefId === shelf.id || a.shelfId === String(shelf.id) || a.shelfName === shelf.name)
+    : allocs[0];
+  if (existing) {
+    await tx.inventoryShelfAlloc.update({ where: { id: existing.id }, data: { qty: { increment: qty } } });
+    return;
+  }
+  if (!shelf) throw new Error(`Pick a shelf to put ${label} back on.`);
+
+  await tx.inventoryShelfAlloc.create({
+    data: { batchId, shelfId: String(shelf.id), shelfName: shelf.name, shelfRefId: shelf.id, qty },
+  });
+}
@@ -0,0 +1,41 @@
+// src/lib/sales/tax.ts
+import { Prisma } from '@prisma/client';
+import type { TaxClass } from '@prisma/client';
+import { money2 } from './discounts';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+
+/** VAT rate (%) per tax class. MRPs are VAT-inclusive, so tax is carved out of the price, not added. */
+export const TAX_RATES: Record<TaxClass, number> = {
+  VAT13: 13,
+  EXEMPT: 0,
+};
+
+export const TAX_CLASSES = Object.keys(TAX_RATES) as TaxClass[];
+
+export const isTaxClass = (v: unknown): v is TaxClass => typeof v === 'string' && Object.hasOwn(TAX_RATES, v);
+
+export type TaxSplit = {
+  taxClass: TaxClass;
+  taxRate: Decimal;
+  taxableAmount: Decimal;
+  taxAmount: Decimal;
+  exemptAmount: Decimal;
+};
+
+/** Split a VAT-inclusive amount: taxable + tax + exempt always add back up to `amount`. */
+export function splitTax(amount: Decimal, taxClass: TaxClass): TaxSplit {
+  const rate = TAX_RATES[taxClass];
+  if (rate <= 0) {
+    return { taxClass, taxRate: new D(0), taxableAmount: new D(0), taxAmount: new D(0), exemptAmount: amount };
+  }
+  const taxableAmount = money2(amount.mul(100).div(100 + rate));
+  return {
+    taxClass,
+    taxRate: new D(rate),
+    taxableAmount,
+    taxAmount: amount.sub(taxableAmount),
+    exemptAmount: new D(0),
+  };
+}
@@ -0,0 +1,94 @@
+// src/lib/sales/units.ts
+import { Prisma } from '@prisma/client';
+import type { DosageForm, Medicine, MedicineFacts, SellUnit } from '@prisma/client';
+import { money2 } from './discounts';
+
+const D = Prisma.Decimal;
+type Decimal = Prisma.Decimal;
+
+export const SELL_UNITS: SellUnit[] = ['PACK', 'STRIP', 'UNIT'];
+export const isSellUnit = (v: unknown): v is SellUnit => SELL_UNITS.includes(v as SellUnit);
+
+const LIQUID_FORMS: DosageForm[] = ['SYRUP', 'SUSPENSION', 'SOLUTION', 'DROPS'];
+
+export type MedicineWithFacts = Medicine & { facts: MedicineFacts | null };
+
+/**
+ * How a medicine can be sold. Stock is held in base units (tablets, or bottles for liquids);
+ * `sizes` gives the base units in one pack / strip. Missing pack facts = single units only.
+ */
+export type PackInfo = {
+  base: 'tablet' | 'bottle' | 'unit';
+  sizes: Partial<Record<SellUnit, number>>; // UNIT is always 1
+  packMrp: Decimal | null;                  // MRP of a whole pack, from MedicineFacts
+};
+
+export function packInfo(medicine: MedicineWithFacts | null): PackInfo {
+  const f = medicine?.facts ?? null;
+  const liquid = f?.bottlesPerPack != null || (medicine?.dosageForm != null && LIQUID_FORMS.includes(medicine.dosageForm));
+  const sizes: PackInfo['sizes'] = { UNIT: 1 };
+
+  if (liquid) {
+    const perPack = f?.bottlesPerPack ?? 1;
+    if (perPack > 1) sizes.PACK = perPack;
+    return { base: 'bottle', sizes, packMrp: f?.mrpAmount ?? null };
+  }
+
+  const perStrip = f?.tabletsPerSlip ?? null;
+  const perPack = f?.totalTablets ?? (f?.slipsCount && perStrip ? f.slipsCount * perStrip : null);
+  if (perPack && perPack > 1) sizes.PACK = perPack;
+  if (perStrip && perStrip > 1 && perStrip !== perPack) sizes.STRIP = perStrip;
+  return { base: f ? 'tablet' : 'unit', sizes, packMrp: f?.mrpAmount ?? null };
+}
+
+/** Sold quantity in base units. Throws "Invalid unit: ..." when the medicine has no such pack size. */
+export function toBaseQty(info: PackInfo, unit: SellUnit, qty: number, name: string): number {
+  const size = info.sizes[unit];
+  if (!size) throw new Error(`Invalid unit: ${name} can't be sold by ${unit.toLowerCase()} (no pack facts)`);
+  return qty * size;
+}
+
+/**
+ * Price of `baseQty` base units. With a pack MRP and pack size on file the per-unit price is
+ * derived from the pack MRP (so a whole pack costs exactly its MRP); otherwise the batch price
+ * is the price of one base unit.
+ */
+export function priceOfBase(info: PackInfo, unitPrice: Decimal, baseQty: number): Decimal {
+  const perPack = info.sizes.PACK;
+  if (info.packMrp && perPack) return money2(info.packMrp.mul(baseQty).div(perPack));
+  return unitPrice.mul(baseQty);
+}
+
+/** Cost of one base unit. Batch cost prices are per pack, as invoiced by the supplier. */
+export function costOfBase(info: PackInfo, packCost: Decimal): Decimal {
+  const perPack = info.sizes.PACK;
+  return perPack ? packCost.div(perPack) : packCost;
+}
+
+/** Price of one pack / strip / unit, for display and the SaleLine price snapshot */
+export function unitPrices(info: PackInfo, unitPrice: Decimal): Partial<Record<SellUnit, Decimal>> {
+  const out: Partial<Record<SellUnit, Decimal>> = {};
+  for (const u of SELL_UNITS) {
+    const size = info.sizes[u];
+    if (size) out[u] = money2(priceOfBase(info, unitPrice, size));
+  }
+  return out;
+}
+
+export type SellUnitOption = { unit: SellUnit; size: number; price: number };
+
+/** What the sell window offers in its unit picker: base unit name plus one option per pack size */
+export function sellUnitOptions(
+  medicine: MedicineWithFacts | null,
+  unitPrice: Prisma.Decimal.Value,
+): { base: PackInfo['base']; units: SellUnitOption[] } {
+  const info = packInfo(medicine);
+  const prices = unitPrices(info, new D(unitPrice));
+  return {
+    base: info.base,
+    units: SELL_UNITS.flatMap((unit) => {
+      const size = info.sizes[unit];
+      return size ? [{ unit, size, price: Number(prices[unit] ?? new D(0)) }] : [];
+    }),
+  };
+}
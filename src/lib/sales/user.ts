@@ -0,0 +1,32 @@
+// src/lib/sales/user.ts
+import type { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+/** Resolve and VALIDATE the current user. Throws with a helpful message if missing. */
+export async function resolveUserId(req: NextRequest): Promise<number> {
+  // 1) If client sends a header, use it (dev/testing)
+  const hdr = req.headers.get('x-user-id');
+  if (hdr && /^\d+$/.test(hdr)) {
+    const uid = Number(hdr);
+    const u = await prisma.user.findUnique({ where: { id: uid } });
+    if (!u) {
+      throw new Error(
+        `User with id=${uid} not found. Pass a valid x-user-id header, or run your seed so a user exists.`
+      );
+    }
+    return u.id;
+  }
+
+  // 2) Try the seeded owner
+  const owner = await prisma.user.findUnique({ where: { email: 'owner@example.com' } });
+  if (owner) return owner.id;
+
+  // 3) As a last resort, try "first user"
+  const anyUser = await prisma.user.findFirst({ orderBy: { id: 'asc' } });
+  if (anyUser) return anyUser.id;
+
+  // 4) Nothing found -> fail fast with clear message
+  throw new Error(
+    'No users exist. Run your seed (e.g. `node prisma/seed.js` or `npx prisma db seed`) or send a valid x-user-id header.'
+  );
+}
@@ -0,0 +1,88 @@
+// src/lib/scanner/gs1.ts
+// GS1 Application Identifier parser (DataMatrix / GS1-128 / GS1 QR). No server deps: the sell
+// screen and AddMedicineWindow use it in the browser, /api/scanner and /api/barcodes on the server.
+
+export type Gs1Data = {
+  gtin: string | null;   // (01) 14 digits
+  batch: string | null;  // (10)
+  expiry: string | null; // (17) as YYYY-MM-DD; day 00 = last day of the month
+  serial: string | null; // (21)
+  ais: Record<string, string>; // every element found, by AI
+};
+
+const GS = '\u001d'; // FNC1 separator after variable-length fields
+
+/** Fixed data lengths by AI prefix (GS1 General Specifications, figure 5.10.1-2) */
+const FIXED: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '03': 14, '04': 16,
+  '11': 6, '12': 6, '13': 6, '14': 6, '15': 6, '16': 6, '17': 6, '18': 6, '19': 6,
+  '20': 2, '31': 6, '32': 6, '33': 6, '34': 6, '35': 6, '36': 6, '41': 13,
+};
+
+/** AI code length by prefix when it isn't 2 digits (e.g. 310x net weight, 410 ship-to GLN) */
+const AI_LENGTH: Record<string, number> = {
+  '23': 3, '24': 3, '25': 3, '31': 4, '32': 4, '33': 4, '34': 4, '35': 4, '36': 4, '39': 4,
+  '40': 3, '41': 3, '42': 3, '43': 3, '70': 4, '71': 3, '72': 4, '80': 4, '81': 4, '82': 4,
+};
+const aiLength = (s: string) => AI_LENGTH[s.slice(0, 2)] ?? 2;
+
+/** YYMMDD → YYYY-MM-DD (20xx; day 00 means the end of that month) */
+export function gs1Date(yymmdd: string): string | null {
+  const m = /^(\d{2})(\d{2})(\d{2})$/.exec(yymmdd);
+  if (!m) return null;
+  const year = 2000 + Number(m[1]);
+  const month = Number(m[2]);
+  if (month < 1 || month > 12) return null;
+  const day = m[3] === '00' ? new Date(Date.UTC(year, month, 0)).getUTCDate() : Number(m[3]);
+  return `${year}-${m[2]}-${String(day).padStart(2, '0')}`;
+}
+
+/** Symbology identifiers of GS1 DataMatrix, GS1-128 and GS1 QR */
+const GS1_SYMBOLOGY = /^\](d2|C1|Q3)/;
+
+/**
+ * Parse a scanned GS1 element string. Accepts the raw form (FNC1 as the GS character) and the
+ * human-readable "(01)…(17)…(10)…" form. A bare digit string is only read as GS1 with a GS1
+ * symbology prefix ("]d2", "]C1", "]Q3"), a GS separator, or as "01" + GTIN + more: a plain
+ * 8/12/13/14-digit GTIN (EAN-13 "1012345678904" looks like AI 10) is left as a plain code.
+ * Returns null when the text isn't a GS1 string with at least a GTIN, batch or expiry.
+ */
+export function parseGs1(raw: string): Gs1Data | null {
+  const trimmed = raw.trim();
+  const gs1Prefixed = GS1_SYMBOLOGY.test(trimmed);
+  const text = trimmed.replace(/^\][A-Za-z]\d/, '');
+  const ais: Record<string, string> = {};
+
+  if (text.startsWith('(')) {
+    const re = /\((\d{2,4})\)([^(]*)/g;
+    for (let m = re.exec(text); m; m = re.exec(text)) ais[m[1]] = m[2].replace(new RegExp(GS, 'g'), '').trim();
+  } else {
+    if (!gs1Prefixed && !text.includes(GS) && !(text.startsWith('01') && text.length > 14)) return null;
+    let s = text.startsWith(GS) ? text.slice(1) : text;
+    if (!/^\d{2}/.test(s)) return null;
+    while (s.length) {
+      const len = aiLength(s);
+      const ai = s.slice(0, len);
+      if (!/^\d+$/.test(ai)) return null;
+      const fixed = FIXED[ai.slice(0, 2)];
+      let value: string;
+      if (fixed != null) {
+        value = s.slice(len, len + fixed);
+        if (value.length < fixed) return null;
+        s = s.slice(len + fixed);
+        if (s.startsWith(GS)) s = s.slice(1); // tolerated after fixed fields
+      } else {
+        const end = s.indexOf(GS, len);
+        value = end === -1 ? s.slice(len) : s.slice(len, end);
+        s = end === -1 ? '' : s.slice(end + 1);
+      }
+      ais[ai] = value;
+    }
+  }
+
+  const gtin = /^\d{14}$/.test(ais['01'] ?? '') ? ais['01'] : null;
+  const batch = ais['10'] || null;
+  const expiry = ais['17'] ? gs1Date(ais['17']) : null;
+  if (!gtin && !batch && !expiry) return null;
+  return { gtin, batch, expiry, serial: ais['21'] || null, ais };
+}
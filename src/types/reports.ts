@@ -1,8 +1,14 @@
-export type TrendPoint = { date: string; sales: number; profit: number };
+export type TaxTotals  = { taxable: number; tax: number; exempt: number };
+export type TrendPoint = { date: string; sales: number; profit: number } & TaxTotals;
 export type TopItem    = { name: string; qty: number; revenue: number };
 export type Category   = { name: string; value: number };
 export type Aging      = { bucket: string; qty: number };
-export type Summary    = { revenue: number; profit: number; orders: number; items: number };
+export type PaymentTotal = { method: string; label: string; amount: number; count: number };
+export type Summary    = {
+  gross: number; discounts: number; revenue: number; profit: number; orders: number; items: number;
+  tax: TaxTotals;
+  payments: PaymentTotal[];  // revenue by payment method, net of refunds
+};
 export type AlertRow   = { id: string; name: string; qty: number; expiry?: string | null };
 
 export type ApiReports = {
@@ -14,3 +20,83 @@ export type ApiReports = {
   summary: Summary;
   error?: string;
 };
+
+// Credit (udharo) owed by customers, aged by the date of the credit sale
+export type AgingBuckets = { d0_30: number; d31_60: number; d60plus: number };
+export type ReceivableRow = {
+  customerId: number; name: string; phone: string | null;
+  creditLimit: number | null; balance: number; buckets: AgingBuckets;
+  openSales: number; oldestAt: string | null; lastRepaymentAt: string | null;
+};
+export type ApiReceivables = {
+  asOf: string;
+  items: ReceivableRow[];
+  totals: { balance: number; buckets: AgingBuckets; customers: number };
+  error?: string;
+};
+
+// Cash shift close-out (Z-report): what the drawer should hold vs what was counted
+export type ZReportSale = {
+  id: number; at: string; cashier: string | null; total: number; cash: number; methods: string[]; voided: boolean;
+};
+export type ZReportCashier = {
+  cashier: string;
+  sales: { count: number; total: number; discounts: number; cash: number };
+  returns: { count: number; refund: number };
+  voids: { count: number; total: number };
+};
+export type ZReport = {
+  shiftId: number;
+  cashier: string | null;
+  openedAt: string; closedAt: string | null;
+  openedBy: string | null; closedBy: string | null;
+  sales: { count: number; gross: number; discounts: number; total: number; tax: number; list: ZReportSale[] };
+  payments: PaymentTotal[];
+  discounts: { line: number; bill: number };
+  returns: { count: number; refund: number; cash: number };
+  voids: { count: number; total: number; cash: number };
+  byCashier: ZReportCashier[];
+  repayments: { cash: number; other: number };
+  movements: Array<{ kind: 'CASH_IN' | 'CASH_OUT'; amount: number; reason: string; at: string }>;
+  cash: {
+    openingFloat: number; sales: number; repayments: number; cashIn: number; cashOut: number;
+    refunds: number; voids: number; expected: number; counted: number | null; variance: number | null;
+  };
+  note: string | null;
+};
+
+// Controlled-substance (narcotic / psychotropic) dispensing register for one drug
+export type ScheduledMedicine = { id: number; name: string; schedule: 'NARCOTIC' | 'PSYCHOTROPIC' };
+export type NarcoticEntryRow = {
+  id: number; at: string; kind: 'DISPENSED' | 'RETURNED' | 'VOIDED' | 'RECEIVED' | 'ADJUSTED';
+  batchNo: string; qty: number; balance: number; saleId: number | null; // qty < 0: ADJUSTED stock off
+  patientName: string | null; patientAge: number | null;
+  prescriberName: string | null; nmcNumber: string | null; createdBy: string | null;
+};
+export type ApiNarcoticRegister = {
+  medicines: ScheduledMedicine[];
+  medicine: ScheduledMedicine | null;
+  from: string; to: string;
+  opening: number | null; // balance after the last entry before `from`
+  closing: number | null;
+  dispensed: number; returned: number; // units, voids count as returned
+  received: number; adjusted: number;  // adjusted is net: negative when edits took stock off
+  items: NarcoticEntryRow[];
+  error?: string;
+};
+
+// Price overrides rung up at the counter, grouped by the cashier who typed them
+export type PriceOverrideRow = {
+  lineId: number; saleId: number; at: string; voided: boolean;
+  name: string; batchNo: string; sellUnit: 'PACK' | 'STRIP' | 'UNIT'; sellQty: number;
+  originalPrice: number; price: number; // per sellUnit
+  reduction: number; // (originalPrice - price) × sellQty
+  reason: string | null; approver: string | null;
+};
+export type PriceOverrideCashier = { cashier: string; count: number; reduction: number; items: PriceOverrideRow[] };
+export type ApiPriceOverrides = {
+  from: string; to: string;
+  count: number; reduction: number; // voided sales excluded from the totals
+  cashiers: PriceOverrideCashier[];
+  error?: string;
+};